@@ -9,8 +9,15 @@ interface ApiKeyStatus {
   blockStartTime: number | null;
 }
 
+export type ApiKeyProvider = 'gemini' | 'openai';
+
+/**
+ * API Key 池管理器（每个模型提供方一个实例；降级链中的非默认模型各自独立计数，因为配额按模型计算）
+ */
 export class ApiKeyManager {
-  private static instance: ApiKeyManager;
+  private static instances: Map<string, ApiKeyManager> = new Map();
+  private readonly provider: ApiKeyProvider;
+  private readonly model?: string;
   private apiKeys: string[] = [];
   private keyStatus: Map<string, ApiKeyStatus> = new Map();
   private currentKeyIndex: number = 0;
@@ -21,21 +28,51 @@ export class ApiKeyManager {
   private readonly ERROR_WINDOW_MS = 5 * 60 * 1000; // 5分钟窗口
   private readonly BLOCK_DURATION_MS = 60 * 60 * 1000; // 1小时阻断时间
 
-  private constructor() {
+  private constructor(provider: ApiKeyProvider, model?: string) {
+    this.provider = provider;
+    this.model = model;
     this.initializeKeys();
     this.setupDailyReset();
   }
 
-  static getInstance(): ApiKeyManager {
-    if (!ApiKeyManager.instance) {
-      ApiKeyManager.instance = new ApiKeyManager();
+  static getInstance(provider: ApiKeyProvider = 'gemini', model?: string): ApiKeyManager {
+    // 默认模型沿用提供方级别的Key池，管理员接口操作的也是它
+    const defaultModel = provider === 'openai' ? config.openai.model : config.gemini.model;
+    const scopedModel = model && model !== defaultModel ? model : undefined;
+    const poolName = scopedModel ? `${provider}:${scopedModel}` : provider;
+
+    let instance = ApiKeyManager.instances.get(poolName);
+    if (!instance) {
+      instance = new ApiKeyManager(provider, scopedModel);
+      ApiKeyManager.instances.set(poolName, instance);
     }
-    return ApiKeyManager.instance;
+    return instance;
+  }
+
+  /**
+   * 获取所有已初始化的Key池状态（键为提供方，或降级链中的 提供方:模型）
+   */
+  static getAllStatuses(): Record<string, ReturnType<ApiKeyManager['getStatus']>> {
+    const statuses: Record<string, ReturnType<ApiKeyManager['getStatus']>> = {};
+    ApiKeyManager.instances.forEach((instance, poolName) => {
+      statuses[poolName] = instance.getStatus();
+    });
+    return statuses;
   }
 
   private initializeKeys(): void {
     // 直接使用配置中已经合并和去重的API Keys
-    this.apiKeys = [...config.gemini.apiKeys];
+    if (this.provider === 'openai') {
+      this.apiKeys = [...config.openai.apiKeys];
+
+      // 本地 llama.cpp/Ollama 等服务无需鉴权，使用空Key占位
+      if (this.apiKeys.length === 0) {
+        logger.info('🔑 OpenAI兼容接口未配置API Key，按无需鉴权处理');
+        this.apiKeys = [''];
+      }
+    } else {
+      this.apiKeys = [...config.gemini.apiKeys];
+    }
     
     if (this.apiKeys.length === 0) {
       throw new Error('至少需要配置一个Gemini API Key，请设置GEMINI_API_KEY环境变量');
@@ -53,6 +90,7 @@ export class ApiKeyManager {
     });
 
     logger.info('🔑 API Key管理器初始化完成', {
+      provider: this.provider,
       totalKeys: this.apiKeys.length,
       primaryKey: this.apiKeys[0] ? `${this.apiKeys[0].substring(0, 10)}...` : 'none',
       keysPreview: this.apiKeys.map((key, index) => 
@@ -258,6 +296,14 @@ export class ApiKeyManager {
     return count;
   }
 
+  /**
+   * 是否还有未被阻断的key（降级链据此判断该级配额是否耗尽）
+   */
+  hasAvailableKey(): boolean {
+    this.cleanExpiredBlocks();
+    return this.getAvailableKeysCount() > 0;
+  }
+
   /**
    * 获取最早被阻断的key（紧急情况使用）
    */
@@ -328,6 +374,8 @@ export class ApiKeyManager {
    * 获取当前状态统计
    */
   getStatus(): {
+    provider: ApiKeyProvider;
+    model?: string;
     totalKeys: number;
     availableKeys: number;
     blockedKeys: number;
@@ -358,6 +406,8 @@ export class ApiKeyManager {
     });
 
     return {
+      provider: this.provider,
+      model: this.model,
       totalKeys: this.apiKeys.length,
       availableKeys: this.getAvailableKeysCount(),
       blockedKeys: this.apiKeys.length - this.getAvailableKeysCount(),
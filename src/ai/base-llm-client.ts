@@ -0,0 +1,632 @@
+import { logger } from '../utils/logger';
+import { ChatResponse, ChatTask, EarlyReply, ImageAttachment, TokenUsage, ToolCallInfo } from '../core/types';
+import { config } from '../utils/config';
+import { ApiKeyManager } from './api-key-manager';
+import { GenerateOptions, LLMProvider, LLMProviderName } from './llm-provider';
+import { StreamingReplyParser } from './streaming-reply-parser';
+import { ChatPrompt, PromptTemplateManager, joinChatPrompt } from './prompt-templates';
+import { UsageLedger } from '../utils/usage-ledger';
+import { ToolManager, ToolCall, ToolResult, ToolExecutionContext } from '../tools';
+import {
+  MAX_STRUCTURED_MESSAGES,
+  StructuredResponse,
+  parseStructuredResponse,
+  recordValidationFailure,
+  recordValidationFallback,
+  recordValidationSuccess
+} from './response-schema';
+
+export interface ToolRunResult {
+  toolCalls: ToolCallInfo[];
+  usage: TokenUsage;
+}
+
+export const emptyTokenUsage = (): TokenUsage => ({
+  promptTokens: 0,
+  completionTokens: 0,
+  thinkingTokens: 0,
+  totalTokens: 0
+});
+
+// 累加多轮调用的用量
+export function addTokenUsage(target: TokenUsage, source: TokenUsage): TokenUsage {
+  target.promptTokens += source.promptTokens;
+  target.completionTokens += source.completionTokens;
+  target.thinkingTokens += source.thinkingTokens;
+  target.totalTokens += source.totalTokens;
+  if (source.cachedTokens !== undefined) {
+    target.cachedTokens = (target.cachedTokens ?? 0) + source.cachedTokens;
+  }
+  return target;
+}
+
+// 结构化输出模式下与模型往来的对话轮次（用于修复重试）
+export interface ConversationTurn {
+  role: 'user' | 'model';
+  text: string;
+  images?: ImageAttachment[];
+}
+
+// 流式输出时逐段回调的文本处理函数
+export type TextChunkHandler = (chunk: string) => Promise<void> | void;
+
+// 流式提前发送的状态，跨重试（及降级链各级）共享以避免重复发送
+interface EarlyDispatchState {
+  onReplyReady: (reply: EarlyReply) => Promise<void> | void;
+  dispatched: string[];
+}
+
+/**
+ * 大模型客户端基类
+ *
+ * 负责提示词构建、工具执行、结构化输出校验、重试与Key池切换；
+ * 子类只需实现具体接口的函数调用循环和JSON输出请求。
+ */
+export abstract class BaseLLMClient implements LLMProvider {
+  abstract readonly name: LLMProviderName;
+  protected abstract readonly displayName: string;
+  abstract get model(): string;
+
+  protected keyManager: ApiKeyManager;
+  protected currentApiKey: string;
+  // 降级链中指定的模型，未指定时使用提供方的默认模型
+  protected readonly modelOverride?: string;
+  protected toolManager: ToolManager;
+
+  // 重试配置
+  protected readonly MAX_RETRIES = 3;
+  protected readonly RETRY_DELAY_BASE = 1000; // 1秒基础延迟
+
+  // 工具循环配置：最多进行的模型轮次，以及结束循环的工具
+  protected readonly MAX_TOOL_ROUNDS = 4;
+  protected readonly TERMINAL_TOOLS = ['reply_message', 'no_reply'];
+
+  // 结构化输出模式下校验失败后的修复重试次数
+  protected readonly MAX_REPAIR_ATTEMPTS = 1;
+
+  // 是否支持随请求发送内联图片
+  protected readonly supportsImages: boolean = false;
+
+  constructor(provider: LLMProviderName, model?: string) {
+    this.modelOverride = model;
+    this.keyManager = ApiKeyManager.getInstance(provider, model);
+    this.toolManager = new ToolManager();
+    this.currentApiKey = this.keyManager.getCurrentApiKey();
+  }
+
+  /**
+   * 函数调用模式：执行模型发起的函数调用并回传结果，直到调用 reply_message/no_reply
+   */
+  protected abstract runToolLoop(
+    chatPrompt: ChatPrompt,
+    executionContext: ToolExecutionContext,
+    images: ImageAttachment[]
+  ): Promise<ToolRunResult>;
+
+  // 结构化输出模式：请求一次JSON输出，返回原始文本；传入 onTextChunk 时使用流式接口
+  protected abstract requestStructuredOutput(
+    turns: ConversationTurn[],
+    systemInstruction: string,
+    onTextChunk?: TextChunkHandler
+  ): Promise<{ text: string; usage: TokenUsage }>;
+
+  // 纯文本请求：不带工具、不要求JSON，返回模型输出的文本
+  protected abstract requestText(
+    prompt: string,
+    systemInstruction: string
+  ): Promise<{ text: string; usage: TokenUsage }>;
+
+  // API Key 变化后重建底层SDK客户端
+  protected abstract onApiKeyChanged(): void;
+
+  abstract testConnection(): Promise<boolean>;
+
+  // 与Key池的当前Key同步（其他实例或管理员可能已切换）
+  protected switchApiKey(): void {
+    const oldKey = this.currentApiKey;
+    this.currentApiKey = this.keyManager.getCurrentApiKey();
+
+    if (oldKey !== this.currentApiKey) {
+      this.onApiKeyChanged();
+
+      logger.info(`🔄 ${this.displayName} API Key已切换`, {
+        from: `${oldKey.substring(0, 10)}...`,
+        to: `${this.currentApiKey.substring(0, 10)}...`
+      });
+    }
+  }
+
+  async generateResponse(
+    prompt: string,
+    context?: string,
+    toolContext?: ToolExecutionContext,
+    options: GenerateOptions = {}
+  ): Promise<ChatResponse> {
+    const chatPrompt = this.buildPromptWithThinking(prompt, context, toolContext);
+    const executionContext: ToolExecutionContext = toolContext ?? { userId: 0, messageType: 'private' };
+    const responseMode = config.ai.responseMode;
+
+    // 函数调用的参数不会分段返回，流式提前发送只用于结构化输出模式
+    const earlyDispatch: EarlyDispatchState | undefined =
+      config.ai.streaming && responseMode === 'json' && options.onReplyReady
+        ? { onReplyReady: options.onReplyReady, dispatched: options.dispatchedReplies ?? [] }
+        : undefined;
+
+    const images = this.supportsImages ? options.images ?? [] : [];
+    if (!this.supportsImages && options.images?.length) {
+      logger.debug(`🖼️ ${this.displayName}不支持图片输入，已忽略 ${options.images.length} 张图片`);
+    }
+
+    return await this.executeWithRetry(async () => {
+      this.switchApiKey();
+
+      logger.info(`🤖 调用${this.displayName} API`, {
+        model: this.model,
+        responseMode,
+        streaming: !!earlyDispatch,
+        systemInstructionLength: chatPrompt.systemInstruction.length,
+        promptLength: chatPrompt.prompt.length,
+        images: images.length,
+        tools: this.toolManager.getAvailableTools(),
+        apiKey: `${this.currentApiKey.substring(0, 10)}...`
+      });
+      // 系统指令每次都相同，只记录动态部分
+      logger.debug(`📝 ${this.displayName}请求提示词`, { prompt: chatPrompt.prompt });
+
+      const { toolCalls, usage } = responseMode === 'json'
+        ? await this.runStructuredOutput(chatPrompt, executionContext, images, earlyDispatch)
+        : await this.runToolLoop(chatPrompt, executionContext, images);
+
+      // 接口未返回用量时才粗略估算
+      const estimated = usage.totalTokens === 0;
+      const finalUsage = estimated ? this.estimateUsage(joinChatPrompt(chatPrompt), toolCalls) : usage;
+      this.recordUsage(executionContext, finalUsage, estimated);
+
+      const response = this.buildChatResponse(toolCalls, finalUsage);
+      return earlyDispatch && earlyDispatch.dispatched.length > 0
+        ? { ...response, dispatchedReplies: [...earlyDispatch.dispatched] }
+        : response;
+    }, 'generateResponse');
+  }
+
+  /**
+   * 纯文本生成（不带工具与人设模板），用于会话摘要等辅助任务
+   */
+  async generateText(prompt: string, systemInstruction: string = '', toolContext?: ToolExecutionContext): Promise<string> {
+    const executionContext: ToolExecutionContext = toolContext ?? { userId: 0, messageType: 'private' };
+
+    return await this.executeWithRetry(async () => {
+      this.switchApiKey();
+
+      logger.info(`🤖 调用${this.displayName} API（纯文本）`, {
+        model: this.model,
+        systemInstructionLength: systemInstruction.length,
+        promptLength: prompt.length,
+        apiKey: `${this.currentApiKey.substring(0, 10)}...`
+      });
+
+      const { text, usage } = await this.requestText(prompt, systemInstruction);
+
+      const estimated = usage.totalTokens === 0;
+      const finalUsage = estimated ? this.estimateTextUsage(`${systemInstruction}\n${prompt}`, text) : usage;
+      this.recordUsage(executionContext, finalUsage, estimated);
+
+      return text.trim();
+    }, 'generateText');
+  }
+
+  /**
+   * 结构化输出模式：请求JSON并做运行时校验，校验失败时用修复提示重试一次，仍失败则不回复
+   */
+  private async runStructuredOutput(
+    chatPrompt: ChatPrompt,
+    executionContext: ToolExecutionContext,
+    images: ImageAttachment[],
+    earlyDispatch?: EarlyDispatchState
+  ): Promise<ToolRunResult> {
+    const turns: ConversationTurn[] = [{ role: 'user', text: chatPrompt.prompt, images }];
+    const toolCalls: ToolCallInfo[] = [];
+    const usage = emptyTokenUsage();
+
+    for (let attempt = 0; attempt <= this.MAX_REPAIR_ATTEMPTS; attempt++) {
+      const response = await this.requestStructuredOutput(
+        turns,
+        chatPrompt.systemInstruction,
+        earlyDispatch ? this.createEarlyDispatcher(executionContext, earlyDispatch) : undefined
+      );
+
+      addTokenUsage(usage, response.usage);
+      const text = response.text;
+      const validation = parseStructuredResponse(text);
+
+      if (validation.valid) {
+        recordValidationSuccess(attempt > 0);
+        await this.applyStructuredResponse(validation.value, executionContext, toolCalls);
+        return { toolCalls, usage };
+      }
+
+      recordValidationFailure(validation.errors);
+      logger.warn(`⚠️ ${this.displayName}结构化输出校验失败`, {
+        attempt: attempt + 1,
+        errors: validation.errors,
+        text: text.substring(0, 200)
+      });
+
+      turns.push(
+        { role: 'model', text },
+        { role: 'user', text: this.buildRepairPrompt(validation.errors) }
+      );
+    }
+
+    // 修复后仍无效：原始文本绝不发送到群里，改为不回复
+    recordValidationFallback();
+    toolCalls.push({
+      name: 'no_reply',
+      arguments: { reason: '模型输出格式无效' },
+      result: { action: 'no_reply', reason: '模型输出格式无效', thinking: '结构化输出校验失败，放弃本次回复' }
+    });
+
+    return { toolCalls, usage };
+  }
+
+  /**
+   * 创建流式文本处理函数：messages 中每条回复一闭合就回调提前发送
+   *
+   * 已发送的回复记录在 earlyDispatch.dispatched 中，修复重试或接口重试时不会重复发送。
+   */
+  private createEarlyDispatcher(
+    executionContext: ToolExecutionContext,
+    earlyDispatch: EarlyDispatchState
+  ): TextChunkHandler {
+    const parser = new StreamingReplyParser();
+    let earlyToolCalls: ToolCallInfo[] | null = null;
+
+    return async chunk => {
+      for (const message of parser.push(chunk)) {
+        const content = message.trim();
+        if (parser.getField('action') !== 'reply' || !content ||
+          earlyDispatch.dispatched.includes(content) ||
+          earlyDispatch.dispatched.length >= MAX_STRUCTURED_MESSAGES) {
+          continue;
+        }
+
+        // mention/quote 字段排在 messages 之前，首条回复闭合时已经确定
+        if (!earlyToolCalls) {
+          earlyToolCalls = [];
+          const mentionUserId = parser.getField('mention_user_id');
+          const quoteMessageId = parser.getField('quote_message_id');
+          if (mentionUserId) {
+            await this.executeToolCall(
+              { name: 'mention_user', arguments: { user_id: mentionUserId, reason: '结构化输出指定' } },
+              executionContext,
+              earlyToolCalls
+            );
+          }
+          if (quoteMessageId) {
+            await this.executeToolCall(
+              { name: 'quote_message', arguments: { message_id: quoteMessageId } },
+              executionContext,
+              earlyToolCalls
+            );
+          }
+        }
+
+        const index = earlyDispatch.dispatched.length;
+        logger.info('⚡ 流式回复提前发送', { index, length: content.length });
+
+        // 发送失败的回复不记为已发送，最终结果中仍会正常发送
+        try {
+          await earlyDispatch.onReplyReady({ content, index, toolCalls: earlyToolCalls });
+          earlyDispatch.dispatched.push(content);
+        } catch (error) {
+          logger.warn('⚠️ 提前发送回复失败，等待生成完成后发送', {
+            index,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    };
+  }
+
+  // 将校验通过的结构化输出转换为对应的工具调用，复用工具的参数校验与结果格式
+  protected async applyStructuredResponse(
+    response: StructuredResponse,
+    executionContext: ToolExecutionContext,
+    toolCalls: ToolCallInfo[]
+  ): Promise<void> {
+    if (response.action === 'no_reply') {
+      await this.executeToolCall(
+        { name: 'no_reply', arguments: { reason: response.reason, thinking: response.thinking } },
+        executionContext,
+        toolCalls
+      );
+      return;
+    }
+
+    if (response.mention_user_id) {
+      await this.executeToolCall(
+        { name: 'mention_user', arguments: { user_id: response.mention_user_id, reason: '结构化输出指定' } },
+        executionContext,
+        toolCalls
+      );
+    }
+
+    if (response.quote_message_id) {
+      await this.executeToolCall(
+        { name: 'quote_message', arguments: { message_id: response.quote_message_id } },
+        executionContext,
+        toolCalls
+      );
+    }
+
+    await this.executeToolCall(
+      { name: 'reply_message', arguments: { messages: response.messages, thinking: response.thinking } },
+      executionContext,
+      toolCalls
+    );
+  }
+
+  protected buildRepairPrompt(errors: string[]): string {
+    return `你上一次的输出不符合要求的JSON格式：\n- ${errors.join('\n- ')}\n` +
+      '请只输出一个修正后的JSON对象，action 为 "reply" 时提供 messages，为 "no_reply" 时提供 reason，不要包含任何其他文本。';
+  }
+
+  // 执行工具调用并记录到 toolCalls
+  protected async executeToolCall(
+    call: ToolCall,
+    executionContext: ToolExecutionContext,
+    toolCalls: ToolCallInfo[]
+  ): Promise<ToolResult> {
+    const result = await this.toolManager.executeTool(call, executionContext);
+
+    toolCalls.push({
+      ...call,
+      result: result.success ? result.result : { error: result.error }
+    });
+
+    return result;
+  }
+
+  protected buildChatResponse(toolCalls: ToolCallInfo[], usage: TokenUsage): ChatResponse {
+    const replyCall = this.findLastAction(toolCalls, 'reply');
+    const noReplyCall = this.findLastAction(toolCalls, 'no_reply');
+    const replies: string[] | undefined = replyCall ? replyCall.result.messages : undefined;
+    const skipReply = !replies;
+    const thinking = (replyCall ?? noReplyCall)?.result?.thinking || '处理用户请求中...';
+
+    const tokensUsed = usage.totalTokens;
+
+    // 构建任务数组（保持兼容性）
+    const tasks: ChatTask[] = [];
+    if (replies) {
+      tasks.push({ type: 'reply', content: replies });
+    } else if (noReplyCall) {
+      tasks.push({ type: 'thinking', content: `决定不回复：${noReplyCall.result.reason}` });
+    }
+
+    logger.info(`✅ ${this.displayName} API响应成功`, {
+      thinkingProcess: thinking,
+      skipReply,
+      toolCalls: toolCalls.map(call => call.name),
+      tokensUsed,
+      apiKey: `${this.currentApiKey.substring(0, 10)}...`
+    });
+
+    return {
+      content: replies?.[0] ?? '',
+      timestamp: new Date(),
+      tokensUsed,
+      usage,
+      thinking,
+      skipReply,
+      replies,
+      tasks: tasks.length > 0 ? tasks : undefined,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+    };
+  }
+
+  // 取最后一次成功执行且结果为指定动作的工具调用
+  protected findLastAction(toolCalls: ToolCallInfo[], action: string): ToolCallInfo | undefined {
+    return [...toolCalls].reverse().find(call => call.result?.action === action);
+  }
+
+  /**
+   * 带重试机制的执行函数
+   */
+  protected async executeWithRetry<T>(
+    operation: () => Promise<T>,
+    operationName: string
+  ): Promise<T> {
+    let lastError: any;
+
+    for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error;
+
+        // 记录错误到key管理器
+        this.keyManager.recordError(this.currentApiKey, error);
+
+        logger.warn(`🔄 ${operationName} 第${attempt}次尝试失败`, {
+          attempt,
+          maxRetries: this.MAX_RETRIES,
+          error: (error as any)?.message || String(error),
+          apiKey: `${this.currentApiKey.substring(0, 10)}...`
+        });
+
+        // 如果是429错误或其他需要切换key的错误，尝试切换
+        if (this.shouldSwitchKey(error)) {
+          this.switchApiKey();
+        }
+
+        // 如果不是最后一次尝试，等待后重试
+        if (attempt < this.MAX_RETRIES) {
+          const delay = this.calculateRetryDelay(attempt);
+          logger.info(`⏳ ${delay}ms后进行第${attempt + 1}次重试`);
+          await this.sleep(delay);
+        }
+      }
+    }
+
+    // 所有重试都失败了
+    logger.error(`❌ ${operationName} 重试${this.MAX_RETRIES}次后仍然失败`, {
+      finalError: (lastError as any)?.message || String(lastError),
+      apiKeyStatus: this.keyManager.getStatus()
+    });
+
+    throw lastError;
+  }
+
+  /**
+   * 判断是否需要切换API Key
+   */
+  protected shouldSwitchKey(error: any): boolean {
+    if (!error) return false;
+
+    // 429错误肯定要切换
+    if (error.status === 429 || error.code === 429) return true;
+    if (error.message && error.message.includes('429')) return true;
+    if (error.message && error.message.toLowerCase().includes('rate limit')) return true;
+    if (error.message && error.message.toLowerCase().includes('quota exceeded')) return true;
+
+    // API Key相关错误也切换
+    if (error.message && error.message.toLowerCase().includes('api key')) return true;
+    if (error.message && error.message.toLowerCase().includes('invalid key')) return true;
+
+    return false;
+  }
+
+  /**
+   * 计算重试延迟（指数退避）
+   */
+  protected calculateRetryDelay(attempt: number): number {
+    // 指数退避 + 随机抖动
+    const exponentialDelay = this.RETRY_DELAY_BASE * Math.pow(2, attempt - 1);
+    const jitter = Math.random() * 1000; // 0-1秒随机抖动
+    return Math.min(exponentialDelay + jitter, 10000); // 最大10秒
+  }
+
+  /**
+   * 睡眠函数
+   */
+  protected sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  /**
+   * 渲染发给模型的完整提示词（不调用模型，用于预览）
+   */
+  buildPrompt(prompt: string, context?: string, toolContext?: ToolExecutionContext): string {
+    return joinChatPrompt(this.buildPromptWithThinking(prompt, context, toolContext));
+  }
+
+  /**
+   * 按该群的提示词模板构建包含思维链的提示词，静态前缀作为系统指令单独返回
+   */
+  protected buildPromptWithThinking(userMessage: string, context?: string, toolContext?: ToolExecutionContext): ChatPrompt {
+    return PromptTemplateManager.getInstance().renderChatPromptParts({
+      message: userMessage,
+      context,
+      selfId: toolContext?.selfId,
+      groupId: toolContext?.groupId,
+      tools: this.toolManager.getAvailableTools()
+    });
+  }
+
+  // 接口未返回用量时按提示词与工具参数粗略估算
+  protected estimateUsage(fullPrompt: string, toolCalls: ToolCallInfo[]): TokenUsage {
+    const promptTokens = this.estimateTokens(fullPrompt);
+    const completionTokens = this.estimateTokens(JSON.stringify(toolCalls.map(call => call.arguments)));
+
+    return {
+      promptTokens,
+      completionTokens,
+      thinkingTokens: 0,
+      totalTokens: promptTokens + completionTokens
+    };
+  }
+
+  // 纯文本请求未返回用量时按输入输出文本粗略估算
+  protected estimateTextUsage(fullPrompt: string, text: string): TokenUsage {
+    const promptTokens = this.estimateTokens(fullPrompt);
+    const completionTokens = this.estimateTokens(text);
+
+    return {
+      promptTokens,
+      completionTokens,
+      thinkingTokens: 0,
+      totalTokens: promptTokens + completionTokens
+    };
+  }
+
+  // 写入用量账本，按上下文、Key、模型与日期聚合
+  protected recordUsage(executionContext: ToolExecutionContext, usage: TokenUsage, estimated: boolean): void {
+    const contextId = executionContext.contextId ??
+      (executionContext.groupId ? `group_${executionContext.groupId}` : `private_${executionContext.userId}`);
+
+    UsageLedger.getInstance().record({
+      contextId,
+      groupId: executionContext.groupId,
+      userId: executionContext.userId,
+      provider: this.name,
+      model: this.model,
+      keyPreview: `${this.currentApiKey.substring(0, 10)}...`,
+      ...usage,
+      estimated: estimated || undefined
+    });
+  }
+
+  protected estimateTokens(text: string): number {
+    // 粗略估算 token 数量（中文按字符计算，英文按单词）
+    const chineseChars = (text.match(/[\u4e00-\u9fff]/g) || []).length;
+    const englishWords = text.replace(/[\u4e00-\u9fff]/g, '').trim().split(/\s+/).length;
+
+    return chineseChars + englishWords;
+  }
+
+  /**
+   * 获取API Key状态信息
+   */
+  getApiKeyStatus(): ReturnType<ApiKeyManager['getStatus']> {
+    return this.keyManager.getStatus();
+  }
+
+  /**
+   * 当前Key池是否还有可用Key
+   */
+  hasAvailableKey(): boolean {
+    return this.keyManager.hasAvailableKey();
+  }
+
+  /**
+   * 手动重置API Key状态（管理员功能）
+   */
+  resetApiKeyStatus(keyPreview: string): boolean {
+    return this.keyManager.resetApiKey(keyPreview);
+  }
+
+  /**
+   * 强制切换到下一个可用的API Key
+   */
+  forceKeySwitch(): void {
+    const oldKey = this.currentApiKey;
+
+    // 使用KeyManager的switchToNext方法切换到下一个key
+    const newKey = this.keyManager.switchToNext();
+
+    if (oldKey !== newKey) {
+      // 重新初始化客户端使用新的key
+      this.currentApiKey = newKey;
+      this.onApiKeyChanged();
+
+      logger.info('🔧 手动强制切换API Key完成', {
+        from: `${oldKey.substring(0, 10)}...`,
+        to: `${this.currentApiKey.substring(0, 10)}...`
+      });
+    } else {
+      logger.warn('⚠️ 没有其他可用的API Key，保持当前key');
+      throw new Error('没有其他可用的API Key可以切换');
+    }
+  }
+}
@@ -1,332 +1,312 @@
-import { GoogleGenAI } from '@google/genai';
+import {
+  GoogleGenAI,
+  Content,
+  FunctionCallingConfigMode,
+  FunctionDeclaration,
+  GenerateContentConfig,
+  GenerateContentResponseUsageMetadata,
+  Part,
+  Schema,
+  Tool,
+  ToolConfig,
+  Type
+} from '@google/genai';
 import { config } from '../utils/config';
 import { logger } from '../utils/logger';
-import { ChatResponse, ChatTask, ToolCallInfo } from '../core/types';
-import { getCurrentPersona } from '../config/persona';
-import { ApiKeyManager } from './api-key-manager';
-import { ToolManager, ToolCall, ToolExecutionContext } from '../tools';
+import { ImageAttachment, TokenUsage, ToolCallInfo } from '../core/types';
+import { ToolCall, ToolExecutionContext } from '../tools';
+import {
+  BaseLLMClient,
+  ConversationTurn,
+  TextChunkHandler,
+  ToolRunResult,
+  addTokenUsage,
+  emptyTokenUsage
+} from './base-llm-client';
+import { STRUCTURED_RESPONSE_SCHEMA } from './response-schema';
+import { ChatPrompt } from './prompt-templates';
+import { GeminiContextCache } from './gemini-context-cache';
+
+// 一次调用中各轮请求共用的前缀配置：命中缓存时只携带 cachedContent，否则直接携带系统指令与工具
+interface PrefixConfig {
+  config: GenerateContentConfig;
+  cachedContent?: string;
+  fallback: GenerateContentConfig;
+}
 
-export class GeminiClient {
-  private keyManager: ApiKeyManager;
+/**
+ * Google Gemini 客户端
+ */
+export class GeminiClient extends BaseLLMClient {
+  readonly name = 'gemini' as const;
+  protected readonly displayName = 'Gemini';
+  protected readonly supportsImages = true;
   private currentGenAI!: GoogleGenAI;
-  private currentApiKey!: string;
-  private toolManager: ToolManager;
-
-  // 重试配置
-  private readonly MAX_RETRIES = 3;
-  private readonly RETRY_DELAY_BASE = 1000; // 1秒基础延迟
 
-  constructor() {
-    this.keyManager = ApiKeyManager.getInstance();
-    this.toolManager = new ToolManager();
+  constructor(model?: string) {
+    super('gemini', model);
     this.initializeClient();
   }
 
+  get model(): string {
+    return this.modelOverride || config.gemini.model;
+  }
+
   private initializeClient(): void {
-    this.currentApiKey = this.keyManager.getCurrentApiKey();
     this.currentGenAI = new GoogleGenAI({ apiKey: this.currentApiKey });
 
     logger.debug('🔧 Gemini客户端初始化', {
-      model: config.gemini.model,
+      model: this.model,
       apiKey: `${this.currentApiKey.substring(0, 10)}...`
     });
   }
 
-  private switchApiKey(): void {
-    const oldKey = this.currentApiKey;
-    this.currentApiKey = this.keyManager.getCurrentApiKey();
-
-    if (oldKey !== this.currentApiKey) {
-      this.currentGenAI = new GoogleGenAI({ apiKey: this.currentApiKey });
-
-      logger.info('🔄 Gemini API Key已切换', {
-        from: `${oldKey.substring(0, 10)}...`,
-        to: `${this.currentApiKey.substring(0, 10)}...`
-      });
-    }
+  protected onApiKeyChanged(): void {
+    this.currentGenAI = new GoogleGenAI({ apiKey: this.currentApiKey });
   }
 
-  async generateResponse(prompt: string, context?: string, toolContext?: ToolExecutionContext): Promise<ChatResponse> {
-    const fullPrompt = this.buildPromptWithThinking(prompt, context);
-
-    return await this.executeWithRetry(async () => {
-      logger.info('🤖 调用Gemini API', {
-        model: config.gemini.model,
-        promptLength: fullPrompt.length,
-        apiKey: `${this.currentApiKey.substring(0, 10)}...`,
-        prompt: fullPrompt
-      });
+  protected async runToolLoop(
+    chatPrompt: ChatPrompt,
+    executionContext: ToolExecutionContext,
+    images: ImageAttachment[]
+  ): Promise<ToolRunResult> {
+    const prefix = await this.preparePrefix(chatPrompt.systemInstruction, {
+      tools: this.convertToolsToGeminiFormat(),
+      toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.ANY } }
+    });
+    const contents: Content[] = [{ role: 'user', parts: this.buildUserParts(chatPrompt.prompt, images) }];
+    const toolCalls: ToolCallInfo[] = [];
+    const usage = emptyTokenUsage();
+    let finished = false;
+
+    for (let round = 1; round <= this.MAX_TOOL_ROUNDS && !finished; round++) {
+      const response = await this.withPrefix(prefix, config => this.currentGenAI.models.generateContent({
+        model: this.model,
+        contents,
+        config
+      }));
+
+      addTokenUsage(usage, this.toTokenUsage(response.usageMetadata));
+      const functionCalls = response.functionCalls ?? [];
+
+      if (functionCalls.length === 0) {
+        logger.warn('⚠️ Gemini未调用任何工具，本轮不回复', {
+          round,
+          text: (response.text || '').substring(0, 200)
+        });
+        break;
+      }
 
-      // 调用Gemini - 直接使用文本格式
-      const response = await this.currentGenAI.models.generateContent({
-        model: config.gemini.model,
-        contents: fullPrompt
+      contents.push(response.candidates?.[0]?.content ?? {
+        role: 'model',
+        parts: functionCalls.map(functionCall => ({ functionCall }))
       });
 
-      const textResponse = response.text || '';
-      let thinking = '';
-      let skipReply = false;
+      const responseParts: Part[] = [];
+      for (const functionCall of functionCalls) {
+        const call: ToolCall = { name: functionCall.name ?? '', arguments: functionCall.args ?? {} };
+        const result = await this.executeToolCall(call, executionContext, toolCalls);
 
-      // 解析文本响应
-      const result = await this.parseTextResponse(textResponse);
-
-      thinking = result.thinking || '';
-
-      // 准备工具调用记录（即使没有实际调用工具）
-      const toolCalls: ToolCallInfo[] = [];
+        if (result.success && this.TERMINAL_TOOLS.includes(call.name)) {
+          finished = true;
+        }
 
-      // 根据解析结果决定是否跳过回复
-      if (result.messages && result.messages.length > 0) {
-        // 添加模拟工具调用用于记录
-        toolCalls.push({
-          name: 'reply_message',
-          arguments: { messages: result.messages, thinking: result.thinking },
-          result: { action: 'reply', messages: result.messages, thinking: result.thinking }
-        });
-      } else if (result.reason) {
-        skipReply = true;
-        toolCalls.push({
-          name: 'no_reply',
-          arguments: { reason: result.reason, thinking: result.thinking },
-          result: { action: 'no_reply', reason: result.reason, thinking: result.thinking }
+        responseParts.push({
+          functionResponse: {
+            id: functionCall.id,
+            name: call.name,
+            response: result.success ? { output: result.result } : { error: result.error }
+          }
         });
-      } else if (textResponse.trim()) {
-        // 如果解析失败但有文本，使用原始文本
-        toolCalls.push({
-          name: 'reply_message',
-          arguments: { messages: [textResponse], thinking: `返回原始文本响应` },
-          result: { action: 'reply', messages: [textResponse], thinking: `返回原始文本响应` }
-        });
-      }
-
-      // 确保有thinking内容
-      if (!thinking) {
-        thinking = '处理用户请求中...';
       }
 
-      const tokensUsed = response.usageMetadata?.totalTokenCount || this.estimateTokens(textResponse);
+      contents.push({ role: 'user', parts: responseParts });
 
-      // 构建任务数组（如果需要保持兼容性）
-      const tasks: ChatTask[] = [];
-
-      // 根据结果添加任务
-      if (result.messages && result.messages.length > 0) {
-        tasks.push({ type: 'reply', content: result.messages });
-      } else if (result.reason) {
-        tasks.push({ type: 'thinking', content: `决定不回复：${result.reason}` });
-      }
-
-      logger.info('✅ Gemini API响应成功', {
-        thinkingProcess: thinking,
-        skipReply,
-        toolCalls: toolCalls.length,
-        tokensUsed,
-        apiKey: `${this.currentApiKey.substring(0, 10)}...`
+      logger.debug('🔧 Gemini工具调用轮次完成', {
+        round,
+        calls: functionCalls.map(functionCall => functionCall.name),
+        finished
       });
+    }
 
-      // 构建返回对象 with just the first reply message if available or empty string
-      let content = '';
-      let replies: string[] | undefined;
-
-      if (result.messages && result.messages.length > 0) {
-        content = result.messages[0];
-        replies = result.messages;
-      }
+    if (!finished) {
+      logger.warn('⚠️ 工具循环结束但未得到回复决定，本次不回复', {
+        rounds: this.MAX_TOOL_ROUNDS,
+        toolCalls: toolCalls.map(call => call.name)
+      });
+    }
 
-      return {
-        content: content,
-        timestamp: new Date(),
-        tokensUsed,
-        thinking,
-        skipReply,
-        replies, // Only include if there are replies
-        tasks: tasks.length > 0 ? tasks : undefined,
-        toolCalls: toolCalls.length > 0 ? toolCalls : undefined
-      };
-    }, 'generateResponse');
+    return { toolCalls, usage };
   }
 
-  /**
-   * 带重试机制的执行函数
-   */
-  private async executeWithRetry<T>(
-    operation: () => Promise<T>,
-    operationName: string
-  ): Promise<T> {
-    let lastError: any;
-
-    for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
-      try {
-        return await operation();
-      } catch (error) {
-        lastError = error;
-
-        // 记录错误到key管理器
-        this.keyManager.recordError(this.currentApiKey, error);
-
-        logger.warn(`🔄 ${operationName} 第${attempt}次尝试失败`, {
-          attempt,
-          maxRetries: this.MAX_RETRIES,
-          error: (error as any)?.message || String(error),
-          apiKey: `${this.currentApiKey.substring(0, 10)}...`
-        });
+  protected async requestStructuredOutput(
+    turns: ConversationTurn[],
+    systemInstruction: string,
+    onTextChunk?: TextChunkHandler
+  ): Promise<{ text: string; usage: TokenUsage }> {
+    const contents: Content[] = turns.map(turn => ({ role: turn.role, parts: this.buildUserParts(turn.text, turn.images) }));
+    const prefix = await this.preparePrefix(systemInstruction, {});
+    const request = (config: GenerateContentConfig) => ({
+      model: this.model,
+      contents,
+      config: {
+        ...config,
+        responseMimeType: 'application/json',
+        responseSchema: STRUCTURED_RESPONSE_SCHEMA
+      }
+    });
 
-        // 如果是429错误或其他需要切换key的错误，尝试切换
-        if (this.shouldSwitchKey(error)) {
-          this.switchApiKey();
+    if (onTextChunk) {
+      const stream = await this.withPrefix(prefix, config => this.currentGenAI.models.generateContentStream(request(config)));
+      let text = '';
+      let usage = emptyTokenUsage();
+
+      for await (const chunk of stream) {
+        const chunkText = chunk.text || '';
+        text += chunkText;
+        // 流式响应的用量是累计值，以最后一个带用量的分片为准
+        if (chunk.usageMetadata?.totalTokenCount) {
+          usage = this.toTokenUsage(chunk.usageMetadata);
         }
-
-        // 如果不是最后一次尝试，等待后重试
-        if (attempt < this.MAX_RETRIES) {
-          const delay = this.calculateRetryDelay(attempt);
-          logger.info(`⏳ ${delay}ms后进行第${attempt + 1}次重试`);
-          await this.sleep(delay);
+        if (chunkText) {
+          await onTextChunk(chunkText);
         }
       }
+
+      return { text, usage };
     }
 
-    // 所有重试都失败了
-    logger.error(`❌ ${operationName} 重试${this.MAX_RETRIES}次后仍然失败`, {
-      finalError: (lastError as any)?.message || String(lastError),
-      apiKeyStatus: this.keyManager.getStatus()
-    });
+    const response = await this.withPrefix(prefix, config => this.currentGenAI.models.generateContent(request(config)));
 
-    throw lastError;
+    return {
+      text: response.text || '',
+      usage: this.toTokenUsage(response.usageMetadata)
+    };
   }
 
-  /**
-   * 判断是否需要切换API Key
-   */
-  private shouldSwitchKey(error: any): boolean {
-    if (!error) return false;
-
-    // 429错误肯定要切换
-    if (error.status === 429 || error.code === 429) return true;
-    if (error.message && error.message.includes('429')) return true;
-    if (error.message && error.message.toLowerCase().includes('rate limit')) return true;
-    if (error.message && error.message.toLowerCase().includes('quota exceeded')) return true;
-
-    // API Key相关错误也切换
-    if (error.message && error.message.toLowerCase().includes('api key')) return true;
-    if (error.message && error.message.toLowerCase().includes('invalid key')) return true;
+  protected async requestText(prompt: string, systemInstruction: string): Promise<{ text: string; usage: TokenUsage }> {
+    const response = await this.currentGenAI.models.generateContent({
+      model: this.model,
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      config: systemInstruction ? { systemInstruction } : {}
+    });
 
-    return false;
+    return {
+      text: response.text || '',
+      usage: this.toTokenUsage(response.usageMetadata)
+    };
   }
 
   /**
-   * 计算重试延迟（指数退避）
+   * 准备静态前缀：足够长时使用上下文缓存，否则把系统指令和工具直接放在请求里
    */
-  private calculateRetryDelay(attempt: number): number {
-    // 指数退避 + 随机抖动
-    const exponentialDelay = this.RETRY_DELAY_BASE * Math.pow(2, attempt - 1);
-    const jitter = Math.random() * 1000; // 0-1秒随机抖动
-    return Math.min(exponentialDelay + jitter, 10000); // 最大10秒
-  }
+  private async preparePrefix(
+    systemInstruction: string,
+    extra: { tools?: Tool[]; toolConfig?: ToolConfig }
+  ): Promise<PrefixConfig> {
+    const fallback: GenerateContentConfig = {
+      ...(systemInstruction && { systemInstruction }),
+      ...extra
+    };
+
+    const cachedContent = await GeminiContextCache.getInstance().acquire(this.currentGenAI, this.currentApiKey, this.model, {
+      systemInstruction,
+      ...extra,
+      estimatedTokens: this.estimateTokens(systemInstruction)
+    });
 
-  /**
-   * 睡眠函数
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return cachedContent
+      ? { config: { cachedContent }, cachedContent, fallback }
+      : { config: fallback, fallback };
   }
 
-  /**
-   * 构建包含思维链的提示词
-   */
-  private buildPromptWithThinking(userMessage: string, context?: string): string {
-    const persona = getCurrentPersona();
-    const systemPrompt = persona.systemPrompt;
-
-    // 构建人设相关的指导信息
-    let personalityGuide = '';
-    if (persona.traits.length > 0) {
-      personalityGuide += `\n\n你的个性特征：${persona.traits.join('、')}`;
-    }
-
-    if (persona.responseStyle.emoji) {
-      personalityGuide += '\n注意：可以适当使用emoji表情来增加亲和力';
-    }
-
-    if (persona.responseStyle.casual) {
-      personalityGuide += '\n语言风格：使用口语化、亲近的表达方式';
-    } else {
-      personalityGuide += '\n语言风格：保持专业、正式的表达方式';
-    }
-
-    if (persona.behaviors.humor) {
-      personalityGuide += '\n可以适当使用幽默来活跃气氛，但要注意场合';
-    }
-
-    const botId = config.botId || 'assistant';
-    let prompt = systemPrompt + personalityGuide;
-    prompt += `\n\n机器人ID：${botId}`;
+  // 缓存在服务端已失效时清除本地记录，并改用不带缓存的前缀重发本次请求
+  private async withPrefix<T>(prefix: PrefixConfig, send: (config: GenerateContentConfig) => Promise<T>): Promise<T> {
+    try {
+      return await send(prefix.config);
+    } catch (error) {
+      if (!prefix.cachedContent || !this.isCacheError(error)) {
+        throw error;
+      }
 
-    if (context && context.trim() !== '') {
-      prompt += `\n\n以下是上下文信息，包含当前队列消息、待处理消息以及最近的对话历史：\n${context}`;
-      prompt += `\n请重点参考 recentHistory 数组（按时间升序，字段 role="user"/"assistant"）还原对话节奏，同时结合 queueMessages 数组理解本次待处理内容。`;
-      prompt += `\n\n最新待回复的消息通常是 queueMessages 数组中的最后一项（若为空，则 recentHistory 的最后一项即为最新消息）。请仅代表机器人「${persona.name}」发言。`;
-    } else {
-      prompt += `\n\n最新待回复的消息：${userMessage}`;
+      logger.warn('⚠️ Gemini上下文缓存不可用，改为直接发送系统指令', {
+        cachedContent: prefix.cachedContent,
+        error: (error as any)?.message || String(error)
+      });
+      GeminiContextCache.getInstance().invalidate(prefix.cachedContent);
+      prefix.cachedContent = undefined;
+      prefix.config = prefix.fallback;
+      return send(prefix.config);
     }
+  }
 
-    prompt += `\n若最后一条消息的 role 为 "assistant"，表示你已经回应过，请使用 no_reply 工具明确不回复。`;
-
-    // 工具使用指导 - 更明确的函数调用指令
-    prompt += `\n\n重要：你必须返回符合以下格式的JSON响应，不要包含任何其他文本说明。
-      
-      选择以下一种JSON格式进行回复：
-      
-      格式1 - 回复消息：
-      {
-        "messages": ["你的回复内容1", "你的回复内容2"],
-        "thinking": "你的详细思考过程，解释为什么这样回复"
-      }
-      
-      格式2 - 不回复消息：
-      {
-        "reason": "不回复的原因",
-        "thinking": "你的详细思考过程，解释为什么不回复"
-      }
+  private isCacheError(error: any): boolean {
+    const message = String(error?.message || '');
+    return error?.status === 404 || error?.status === 403 || /cached ?content/i.test(message);
+  }
 
-      规则：
-      - 每次响应必须返回上述两种JSON格式之一
-      - thinking 字段必须包含详细的分析和思考过程
-      - messages 数组最多包含3条消息，避免内容过长
-      - 仔细分析上下文决定是否需要回复，避免无意义的回应`;
+  // 提示词之后附上图片，每张图片前标注所在的消息ID，便于模型对应到上下文
+  private buildUserParts(text: string, images: ImageAttachment[] = []): Part[] {
+    return [
+      { text },
+      ...images.flatMap(image => [
+        { text: `[消息 #${image.messageId} 中的图片]` },
+        { inlineData: { mimeType: image.mimeType, data: image.data } }
+      ])
+    ];
+  }
 
-    return prompt;
+  // candidatesTokenCount 不含思考token；当前 SDK 类型缺少 thoughtsTokenCount，但接口会返回
+  private toTokenUsage(metadata?: GenerateContentResponseUsageMetadata & { thoughtsTokenCount?: number }): TokenUsage {
+    const promptTokens = metadata?.promptTokenCount || 0;
+    const completionTokens = metadata?.candidatesTokenCount || 0;
+    const totalTokens = metadata?.totalTokenCount || 0;
+
+    return {
+      promptTokens,
+      completionTokens,
+      thinkingTokens: metadata?.thoughtsTokenCount ?? Math.max(0, totalTokens - promptTokens - completionTokens),
+      totalTokens,
+      // promptTokenCount 已包含缓存部分，cachedContentTokenCount 为命中缓存的数量（含隐式缓存）
+      cachedTokens: metadata ? metadata.cachedContentTokenCount ?? 0 : undefined
+    };
   }
 
   /**
    * 将ToolManager的Schema转换为Gemini Function Calling格式
    */
-  private convertToolsToGeminiFormat(): any[] {
+  private convertToolsToGeminiFormat(): Tool[] {
     const toolsSchema = this.toolManager.getToolsSchema();
 
     if (toolsSchema.length === 0) {
       return [];
     }
 
-    const functionDeclarations = toolsSchema.map((tool: any) => {
-      // 将参数类型转换为Gemini格式
-      const convertType = (type: string): string => {
-        const typeMap: Record<string, string> = {
-          'string': 'STRING',
-          'number': 'NUMBER',
-          'boolean': 'BOOLEAN',
-          'array': 'ARRAY'
-        };
-        return typeMap[type.toLowerCase()] || 'STRING';
+    // 将JSON Schema属性转换为Gemini Schema，数组需要声明元素类型
+    const convertSchema = (value: any): Schema => {
+      const typeMap: Record<string, Type> = {
+        'string': Type.STRING,
+        'number': Type.NUMBER,
+        'integer': Type.INTEGER,
+        'boolean': Type.BOOLEAN,
+        'array': Type.ARRAY,
+        'object': Type.OBJECT
+      };
+      const type = typeMap[String(value?.type).toLowerCase()] || Type.STRING;
+
+      return {
+        type,
+        description: value?.description,
+        ...(value?.enum && { enum: value.enum }),
+        ...(type === Type.ARRAY && { items: convertSchema(value?.items ?? { type: 'string' }) })
       };
+    };
 
-      // 转换参数properties
-      const properties: Record<string, any> = {};
+    const functionDeclarations: FunctionDeclaration[] = toolsSchema.map((tool: any) => {
+      const properties: Record<string, Schema> = {};
       if (tool.parameters?.properties) {
-        Object.entries(tool.parameters.properties).forEach(([key, value]: [string, any]) => {
-          properties[key] = {
-            type: convertType(value.type),
-            description: value.description
-          };
+        Object.entries(tool.parameters.properties).forEach(([key, value]) => {
+          properties[key] = convertSchema(value);
         });
       }
 
@@ -334,7 +314,7 @@ export class GeminiClient {
         name: tool.name,
         description: tool.description,
         parameters: {
-          type: 'OBJECT',
+          type: Type.OBJECT,
           properties,
           required: tool.parameters?.required || []
         }
@@ -346,56 +326,11 @@ export class GeminiClient {
     }];
   }
 
-  /**
-   * 解析文本响应，支持JSON格式的messages和thinking字段
-   */
-  private async parseTextResponse(text: string): Promise<{ messages?: string[], thinking?: string, reason?: string }> {
-    if (!text) return {};
-
-    try {
-      // 清理文本，移除可能的markdown代码块标记
-      let cleaned = text.trim();
-      cleaned = cleaned.replace(/^```json\n?/i, '').replace(/```\s*$/g, '');
-
-      // 尝试解析JSON
-      const parsed = JSON.parse(cleaned);
-
-      // 检查是否包含预期的字段
-      if (parsed.messages || parsed.thinking || parsed.reason) {
-        return {
-          messages: Array.isArray(parsed.messages) ? parsed.messages : (typeof parsed.messages === 'string' ? [parsed.messages] : undefined),
-          thinking: typeof parsed.thinking === 'string' ? parsed.thinking : undefined,
-          reason: typeof parsed.reason === 'string' ? parsed.reason : undefined
-        };
-      }
-    } catch (error) {
-      logger.debug(`JSON解析失败，尝试提取文本内容: ${error}`);
-    }
-
-    // 如果JSON解析失败但文本非空，返回文本作为消息
-    if (text.trim()) {
-      return {
-        messages: [text.trim()]
-      };
-    }
-
-    return {};
-  }
-
-
-  private estimateTokens(text: string): number {
-    // 粗略估算 token 数量（中文按字符计算，英文按单词）
-    const chineseChars = (text.match(/[\u4e00-\u9fff]/g) || []).length;
-    const englishWords = text.replace(/[\u4e00-\u9fff]/g, '').trim().split(/\s+/).length;
-
-    return chineseChars + englishWords;
-  }
-
   async testConnection(): Promise<boolean> {
     try {
       return await this.executeWithRetry(async () => {
         const response = await this.currentGenAI.models.generateContent({
-          model: config.gemini.model,
+          model: this.model,
           contents: "Hello"
         });
         const _ = response.text || '';
@@ -413,42 +348,4 @@ export class GeminiClient {
       return false;
     }
   }
-
-  /**
-   * 获取API Key状态信息
-   */
-  getApiKeyStatus(): any {
-    return this.keyManager.getStatus();
-  }
-
-  /**
-   * 手动重置API Key状态（管理员功能）
-   */
-  resetApiKeyStatus(keyPreview: string): boolean {
-    return this.keyManager.resetApiKey(keyPreview);
-  }
-
-  /**
-   * 强制切换到下一个可用的API Key
-   */
-  forceKeySwitch(): void {
-    const oldKey = this.currentApiKey;
-
-    // 使用KeyManager的switchToNext方法切换到下一个key
-    const newKey = this.keyManager.switchToNext();
-
-    if (oldKey !== newKey) {
-      // 重新初始化客户端使用新的key
-      this.currentApiKey = newKey;
-      this.currentGenAI = new GoogleGenAI({ apiKey: this.currentApiKey });
-
-      logger.info('🔧 手动强制切换API Key完成', {
-        from: `${oldKey.substring(0, 10)}...`,
-        to: `${this.currentApiKey.substring(0, 10)}...`
-      });
-    } else {
-      logger.warn('⚠️ 没有其他可用的API Key，保持当前key');
-      throw new Error('没有其他可用的API Key可以切换');
-    }
-  }
 }
@@ -0,0 +1,199 @@
+import { createHash } from 'crypto';
+import type { GoogleGenAI, Tool, ToolConfig } from '@google/genai';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+// 需要缓存的静态前缀（使用缓存时请求中不能再携带这些字段）
+export interface CachedPrefix {
+  systemInstruction: string;
+  tools?: Tool[];
+  toolConfig?: ToolConfig;
+  estimatedTokens: number;
+}
+
+interface CacheEntry {
+  name: string;
+  expireAt: number;
+  refreshing: boolean;
+}
+
+export interface ContextCacheStatus {
+  enabled: boolean;
+  entries: Array<{ name: string; expireAt: string }>;
+}
+
+/**
+ * Gemini 上下文缓存
+ *
+ * 以 API Key + 模型 + 前缀内容的哈希为键，把静态系统指令注册为 cachedContent，
+ * 剩余有效期不足一半时续期；缓存属于创建它的 Key，切换 Key 后会重新创建。
+ */
+export class GeminiContextCache {
+  private static instance: GeminiContextCache;
+  private entries: Map<string, CacheEntry> = new Map();
+  // 正在创建的缓存，避免并发批次重复创建
+  private pending: Map<string, Promise<CacheEntry | undefined>> = new Map();
+  // 创建失败（如内容短于接口下限）后暂停尝试的截止时间
+  private unavailableUntil: Map<string, number> = new Map();
+
+  // 创建失败后的暂停时长
+  private readonly RETRY_AFTER_MS = 10 * 60 * 1000;
+  // 距离过期不足该时间的缓存不再使用，避免请求途中过期
+  private readonly EXPIRY_MARGIN_MS = 60 * 1000;
+
+  private constructor() {}
+
+  static getInstance(): GeminiContextCache {
+    if (!GeminiContextCache.instance) {
+      GeminiContextCache.instance = new GeminiContextCache();
+    }
+    return GeminiContextCache.instance;
+  }
+
+  /**
+   * 获取可用的缓存名，前缀太短、缓存关闭或创建失败时返回 undefined（改为直接发送系统指令）
+   */
+  async acquire(genAI: GoogleGenAI, apiKey: string, model: string, prefix: CachedPrefix): Promise<string | undefined> {
+    const { enabled, minTokens } = config.gemini.contextCache;
+    if (!enabled || !prefix.systemInstruction || prefix.estimatedTokens < minTokens) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    const key = this.getKey(apiKey, model, prefix);
+    this.pruneExpired(now);
+
+    if ((this.unavailableUntil.get(key) ?? 0) > now) {
+      return undefined;
+    }
+
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.refreshIfNeeded(genAI, entry, now);
+      return entry.name;
+    }
+
+    let creating = this.pending.get(key);
+    if (!creating) {
+      creating = this.create(genAI, key, model, prefix).finally(() => this.pending.delete(key));
+      this.pending.set(key, creating);
+    }
+    return (await creating)?.name;
+  }
+
+  /**
+   * 缓存在服务端已失效（被删除或过期）时移除本地记录，下次调用重新创建
+   */
+  invalidate(name: string): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.name === name) {
+        this.entries.delete(key);
+        logger.info('🧊 Gemini上下文缓存已失效', { name });
+      }
+    }
+  }
+
+  getStatus(): ContextCacheStatus {
+    return {
+      enabled: config.gemini.contextCache.enabled,
+      entries: Array.from(this.entries.values()).map(entry => ({
+        name: entry.name,
+        expireAt: new Date(entry.expireAt).toISOString()
+      }))
+    };
+  }
+
+  private async create(genAI: GoogleGenAI, key: string, model: string, prefix: CachedPrefix): Promise<CacheEntry | undefined> {
+    const ttlSeconds = config.gemini.contextCache.ttlSeconds;
+
+    try {
+      const cached = await genAI.caches.create({
+        model,
+        config: {
+          displayName: `fingerbot-${key.substring(0, 12)}`,
+          systemInstruction: prefix.systemInstruction,
+          tools: prefix.tools,
+          toolConfig: prefix.toolConfig,
+          ttl: `${ttlSeconds}s`
+        }
+      });
+
+      if (!cached.name) {
+        throw new Error('接口未返回缓存名');
+      }
+
+      const entry: CacheEntry = {
+        name: cached.name,
+        expireAt: this.parseExpireTime(cached.expireTime, ttlSeconds),
+        refreshing: false
+      };
+      this.entries.set(key, entry);
+
+      logger.info('🧊 已创建Gemini上下文缓存', {
+        name: entry.name,
+        model,
+        estimatedTokens: prefix.estimatedTokens,
+        expireAt: new Date(entry.expireAt).toISOString()
+      });
+      return entry;
+    } catch (error) {
+      this.unavailableUntil.set(key, Date.now() + this.RETRY_AFTER_MS);
+      logger.warn('⚠️ 创建Gemini上下文缓存失败，本段时间内直接发送系统指令', {
+        model,
+        estimatedTokens: prefix.estimatedTokens,
+        retryAfterMs: this.RETRY_AFTER_MS,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
+
+  // 剩余有效期不足一半时后台续期，失败则移除让下次调用重新创建
+  private refreshIfNeeded(genAI: GoogleGenAI, entry: CacheEntry, now: number): void {
+    const ttlSeconds = config.gemini.contextCache.ttlSeconds;
+    if (entry.refreshing || entry.expireAt - now > ttlSeconds * 500) {
+      return;
+    }
+
+    entry.refreshing = true;
+    genAI.caches.update({ name: entry.name, config: { ttl: `${ttlSeconds}s` } })
+      .then(updated => {
+        entry.expireAt = this.parseExpireTime(updated.expireTime, ttlSeconds);
+        logger.debug('🧊 Gemini上下文缓存已续期', { name: entry.name, expireAt: new Date(entry.expireAt).toISOString() });
+      })
+      .catch(error => {
+        this.invalidate(entry.name);
+        logger.warn('⚠️ Gemini上下文缓存续期失败', {
+          name: entry.name,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      })
+      .finally(() => {
+        entry.refreshing = false;
+      });
+  }
+
+  private pruneExpired(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expireAt - now <= this.EXPIRY_MARGIN_MS) {
+        this.entries.delete(key);
+      }
+    }
+    for (const [key, until] of this.unavailableUntil) {
+      if (until <= now) {
+        this.unavailableUntil.delete(key);
+      }
+    }
+  }
+
+  private parseExpireTime(expireTime: string | undefined, ttlSeconds: number): number {
+    const parsed = expireTime ? Date.parse(expireTime) : NaN;
+    return Number.isNaN(parsed) ? Date.now() + ttlSeconds * 1000 : parsed;
+  }
+
+  private getKey(apiKey: string, model: string, prefix: CachedPrefix): string {
+    return createHash('sha256')
+      .update(JSON.stringify([apiKey, model, prefix.systemInstruction, prefix.tools ?? null, prefix.toolConfig ?? null]))
+      .digest('hex');
+  }
+}
@@ -0,0 +1,61 @@
+import { GoogleGenAI } from '@google/genai';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+import { ApiKeyManager } from './api-key-manager';
+
+// RETRIEVAL_DOCUMENT: 被检索的消息；RETRIEVAL_QUERY: 检索语句
+export type EmbeddingTaskType = 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY';
+
+/**
+ * Gemini 文本向量
+ *
+ * 与对话共用 Gemini 的Key池，单次请求最多向量化 MAX_BATCH_SIZE 条文本。
+ */
+export class GeminiEmbedder {
+  private readonly keyManager: ApiKeyManager;
+  private genAI?: GoogleGenAI;
+  private genAIKey = '';
+
+  static readonly MAX_BATCH_SIZE = 100;
+
+  constructor(private readonly model: string = config.history.embeddingModel) {
+    this.keyManager = ApiKeyManager.getInstance('gemini');
+  }
+
+  async embed(texts: string[], taskType: EmbeddingTaskType): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += GeminiEmbedder.MAX_BATCH_SIZE) {
+      const batch = texts.slice(start, start + GeminiEmbedder.MAX_BATCH_SIZE);
+      const apiKey = this.keyManager.getCurrentApiKey();
+
+      try {
+        const response = await this.getClient(apiKey).models.embedContent({
+          model: this.model,
+          contents: batch,
+          config: { taskType, outputDimensionality: config.history.embeddingDimensions }
+        });
+
+        const embeddings = response.embeddings ?? [];
+        if (embeddings.length !== batch.length) {
+          throw new Error(`向量数量与文本数量不一致: ${embeddings.length}/${batch.length}`);
+        }
+        vectors.push(...embeddings.map(embedding => embedding.values ?? []));
+      } catch (error) {
+        this.keyManager.recordError(apiKey, error);
+        throw error;
+      }
+    }
+
+    logger.debug('🧮 Gemini向量化完成', { model: this.model, count: texts.length, taskType });
+    return vectors;
+  }
+
+  private getClient(apiKey: string): GoogleGenAI {
+    if (!this.genAI || this.genAIKey !== apiKey) {
+      this.genAI = new GoogleGenAI({ apiKey });
+      this.genAIKey = apiKey;
+    }
+    return this.genAI;
+  }
+}
@@ -0,0 +1,225 @@
+import { logger } from '../utils/logger';
+import { config } from '../utils/config';
+import { ChatResponse } from '../core/types';
+import { ToolExecutionContext } from '../tools';
+import type { ApiKeyManager } from './api-key-manager';
+import type { GenerateOptions, LLMProvider, LLMProviderName } from './llm-provider';
+
+interface TierState {
+  client: LLMProvider;
+  cooldownUntil: number;
+  lastError: string | null;
+}
+
+export interface TierSwitchRecord {
+  at: string;
+  from: string;
+  to: string;
+  reason: 'fallback' | 'recovery';
+}
+
+export interface FallbackChainStatus {
+  activeTier: { index: number; provider: LLMProviderName; model: string };
+  tiers: Array<{
+    index: number;
+    provider: LLMProviderName;
+    model: string;
+    available: boolean;
+    cooldownRemainingMs: number;
+    lastError: string | null;
+  }>;
+  switches: TierSwitchRecord[];
+}
+
+/**
+ * 大模型降级链
+ *
+ * 按顺序排列的多级模型（如 gemini-2.5-flash → gemini-2.5-flash-lite → 本地 OpenAI 兼容服务），
+ * 某一级配额耗尽时切到下一级，冷却结束后自动回到更高一级。
+ */
+export class LLMFallbackChain implements LLMProvider {
+  private readonly tiers: TierState[];
+  private activeIndex = 0;
+  private switches: TierSwitchRecord[] = [];
+
+  private readonly MAX_SWITCH_RECORDS = 20;
+
+  constructor(clients: LLMProvider[]) {
+    if (clients.length === 0) {
+      throw new Error('降级链至少需要一个模型');
+    }
+
+    // 同一提供方的同一模型只保留一级
+    const seen = new Set<string>();
+    this.tiers = clients
+      .filter(client => {
+        const label = this.labelOf(client);
+        if (seen.has(label)) return false;
+        seen.add(label);
+        return true;
+      })
+      .map(client => ({ client, cooldownUntil: 0, lastError: null }));
+
+    logger.info('🔗 大模型降级链已启用', {
+      tiers: this.tiers.map(tier => this.labelOf(tier.client))
+    });
+  }
+
+  get name(): LLMProviderName {
+    return this.tiers[this.activeIndex].client.name;
+  }
+
+  get model(): string {
+    return this.tiers[this.activeIndex].client.model;
+  }
+
+  async generateResponse(
+    prompt: string,
+    context?: string,
+    toolContext?: ToolExecutionContext,
+    options?: GenerateOptions
+  ): Promise<ChatResponse> {
+    // 已提前发送的回复在各级之间共享，降级后不会再次发送
+    const sharedOptions: GenerateOptions | undefined = options?.onReplyReady
+      ? { ...options, dispatchedReplies: options.dispatchedReplies ?? [] }
+      : options;
+    return this.runWithFallback(client => client.generateResponse(prompt, context, toolContext, sharedOptions));
+  }
+
+  async generateText(prompt: string, systemInstruction?: string, toolContext?: ToolExecutionContext): Promise<string> {
+    return this.runWithFallback(client => client.generateText(prompt, systemInstruction, toolContext));
+  }
+
+  buildPrompt(prompt: string, context?: string, toolContext?: ToolExecutionContext): string {
+    return this.tiers[this.activeIndex].client.buildPrompt(prompt, context, toolContext);
+  }
+
+  async testConnection(): Promise<boolean> {
+    return this.tiers[this.activeIndex].client.testConnection();
+  }
+
+  getApiKeyStatus(): ReturnType<ApiKeyManager['getStatus']> {
+    return this.tiers[this.activeIndex].client.getApiKeyStatus();
+  }
+
+  resetApiKeyStatus(keyPreview: string): boolean {
+    return this.tiers[this.activeIndex].client.resetApiKeyStatus(keyPreview);
+  }
+
+  forceKeySwitch(): void {
+    this.tiers[this.activeIndex].client.forceKeySwitch();
+  }
+
+  hasAvailableKey(): boolean {
+    return this.tiers.some(tier => tier.client.hasAvailableKey());
+  }
+
+  /**
+   * 获取降级链状态（用于 /status 与 WebUI）
+   */
+  getStatus(): FallbackChainStatus {
+    const now = Date.now();
+    const active = this.tiers[this.activeIndex].client;
+
+    return {
+      activeTier: { index: this.activeIndex, provider: active.name, model: active.model },
+      tiers: this.tiers.map((tier, index) => ({
+        index,
+        provider: tier.client.name,
+        model: tier.client.model,
+        available: this.isTierAvailable(tier, now),
+        cooldownRemainingMs: Math.max(0, tier.cooldownUntil - now),
+        lastError: tier.lastError
+      })),
+      switches: [...this.switches]
+    };
+  }
+
+  // 按优先级依次尝试各级模型，配额耗尽时降级到下一级
+  private async runWithFallback<T>(call: (client: LLMProvider) => Promise<T>): Promise<T> {
+    let lastError: any = null;
+
+    for (const index of this.getCandidateIndexes()) {
+      const tier = this.tiers[index];
+      this.activateTier(index);
+
+      try {
+        return await call(tier.client);
+      } catch (error) {
+        // 非配额类错误且Key池仍可用时不降级，交由上层处理
+        if (!this.isQuotaError(error) && tier.client.hasAvailableKey()) {
+          throw error;
+        }
+
+        tier.cooldownUntil = Date.now() + config.ai.fallbackCooldownMs;
+        tier.lastError = (error as any)?.message || String(error);
+        lastError = error;
+
+        logger.warn('⚠️ 大模型配额耗尽，进入冷却', {
+          tier: this.labelOf(tier.client),
+          cooldownMs: config.ai.fallbackCooldownMs,
+          error: tier.lastError
+        });
+      }
+    }
+
+    throw lastError ?? new Error('降级链中没有可用的模型');
+  }
+
+  // 按优先级返回本次可尝试的级别；全部不可用时仍尝试主模型（与Key池的紧急策略一致）
+  private getCandidateIndexes(): number[] {
+    const now = Date.now();
+    const available = this.tiers
+      .map((tier, index) => ({ tier, index }))
+      .filter(({ tier }) => this.isTierAvailable(tier, now))
+      .map(({ index }) => index);
+
+    if (available.length === 0) {
+      logger.warn('⚠️ 降级链中所有模型都不可用，尝试使用主模型');
+      return [0];
+    }
+
+    return available;
+  }
+
+  private isTierAvailable(tier: TierState, now: number): boolean {
+    return now >= tier.cooldownUntil && tier.client.hasAvailableKey();
+  }
+
+  private activateTier(index: number): void {
+    if (index === this.activeIndex) {
+      return;
+    }
+
+    const from = this.labelOf(this.tiers[this.activeIndex].client);
+    const to = this.labelOf(this.tiers[index].client);
+    const reason = index > this.activeIndex ? 'fallback' : 'recovery';
+
+    this.activeIndex = index;
+    this.switches.push({ at: new Date().toISOString(), from, to, reason });
+    if (this.switches.length > this.MAX_SWITCH_RECORDS) {
+      this.switches.shift();
+    }
+
+    if (reason === 'fallback') {
+      logger.warn('🔀 大模型降级', { from, to });
+    } else {
+      logger.info('⬆️ 大模型恢复到更高一级', { from, to });
+    }
+  }
+
+  private isQuotaError(error: any): boolean {
+    if (!error) return false;
+    if (error.status === 429 || error.code === 429) return true;
+
+    const message = String(error.message || '').toLowerCase();
+    return message.includes('429') ||
+      message.includes('resource_exhausted') ||
+      message.includes('quota') ||
+      message.includes('rate limit');
+  }
+
+  private labelOf(client: LLMProvider): string {
+    return `${client.name}:${client.model}`;
+  }
+}
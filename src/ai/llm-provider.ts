@@ -0,0 +1,77 @@
+import { config } from '../utils/config';
+import { ChatResponse, EarlyReply, ImageAttachment } from '../core/types';
+import { ToolExecutionContext } from '../tools';
+import { ApiKeyManager, ApiKeyProvider } from './api-key-manager';
+import { GeminiClient } from './gemini-client';
+import { OpenAICompatibleClient } from './openai-client';
+import { LLMFallbackChain } from './llm-fallback-chain';
+
+export type LLMProviderName = ApiKeyProvider;
+
+export interface GenerateOptions {
+  // 流式生成时每完成一条回复就回调，用于提前发送（仅结构化输出模式）
+  onReplyReady?: (reply: EarlyReply) => Promise<void> | void;
+  // 已提前发送的回复，由调用方持有，降级到其他模型后仍会跳过这些回复
+  dispatchedReplies?: string[];
+  // 随请求附带的内联图片（不支持图片的提供方会忽略）
+  images?: ImageAttachment[];
+}
+
+/**
+ * 大模型提供方接口
+ *
+ * BatchMessageProcessor 与 EnhancedChatAgent 只依赖该接口，具体实现由 LLM_PROVIDER 选择。
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+
+  generateResponse(
+    prompt: string,
+    context?: string,
+    toolContext?: ToolExecutionContext,
+    options?: GenerateOptions
+  ): Promise<ChatResponse>;
+
+  // 不带工具与人设模板的纯文本生成，用于会话摘要等辅助任务
+  generateText(prompt: string, systemInstruction?: string, toolContext?: ToolExecutionContext): Promise<string>;
+
+  // 渲染发给模型的完整提示词，不调用模型
+  buildPrompt(prompt: string, context?: string, toolContext?: ToolExecutionContext): string;
+
+  testConnection(): Promise<boolean>;
+
+  getApiKeyStatus(): ReturnType<ApiKeyManager['getStatus']>;
+
+  resetApiKeyStatus(keyPreview: string): boolean;
+
+  forceKeySwitch(): void;
+
+  hasAvailableKey(): boolean;
+}
+
+// 降级链的冷却与切换状态需要在各处理器之间共享
+let sharedFallbackChain: LLMFallbackChain | null = null;
+
+// 创建单个提供方的客户端，model 为空时使用该提供方的默认模型
+export function createLLMClient(name: LLMProviderName, model?: string): LLMProvider {
+  if (name === 'openai') {
+    return new OpenAICompatibleClient(model);
+  }
+  return new GeminiClient(model);
+}
+
+// 按配置创建大模型提供方，配置了 LLM_FALLBACK_CHAIN 时返回共享的降级链
+export function createLLMProvider(name: LLMProviderName = config.ai.provider): LLMProvider {
+  if (config.ai.fallbackChain.length === 0) {
+    return createLLMClient(name);
+  }
+
+  if (!sharedFallbackChain) {
+    sharedFallbackChain = new LLMFallbackChain([
+      createLLMClient(name),
+      ...config.ai.fallbackChain.map(tier => createLLMClient(tier.provider, tier.model))
+    ]);
+  }
+  return sharedFallbackChain;
+}
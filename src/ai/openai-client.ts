@@ -0,0 +1,327 @@
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+import { TokenUsage, ToolCallInfo } from '../core/types';
+import { ToolCall, ToolExecutionContext } from '../tools';
+import {
+  BaseLLMClient,
+  ConversationTurn,
+  TextChunkHandler,
+  ToolRunResult,
+  addTokenUsage,
+  emptyTokenUsage
+} from './base-llm-client';
+import { ChatPrompt } from './prompt-templates';
+
+// chat completions 接口用到的最小类型
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAIChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAIChatCompletion {
+  choices: Array<{
+    message: { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: OpenAIUsage | null;
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+/**
+ * OpenAI 兼容的 chat completions 客户端
+ *
+ * 适用于 OpenAI、DeepSeek、通义千问以及 llama.cpp/Ollama 等提供 /chat/completions 的服务。
+ */
+export class OpenAICompatibleClient extends BaseLLMClient {
+  readonly name = 'openai' as const;
+  protected readonly displayName = 'OpenAI兼容接口';
+
+  constructor(model?: string) {
+    super('openai', model);
+
+    logger.debug('🔧 OpenAI兼容客户端初始化', {
+      baseUrl: config.openai.baseUrl,
+      model: this.model
+    });
+  }
+
+  get model(): string {
+    return this.modelOverride || config.openai.model;
+  }
+
+  // 每次请求时读取当前Key，无需重建客户端
+  protected onApiKeyChanged(): void {}
+
+  protected async runToolLoop(chatPrompt: ChatPrompt, executionContext: ToolExecutionContext): Promise<ToolRunResult> {
+    const tools = this.toolManager.getToolsSchema().map(schema => ({ type: 'function' as const, function: schema }));
+    const messages: OpenAIChatMessage[] = [
+      ...this.buildSystemMessages(chatPrompt.systemInstruction),
+      { role: 'user', content: chatPrompt.prompt }
+    ];
+    const toolCalls: ToolCallInfo[] = [];
+    const usage = emptyTokenUsage();
+    let finished = false;
+
+    for (let round = 1; round <= this.MAX_TOOL_ROUNDS && !finished; round++) {
+      const completion = await this.createChatCompletion({ messages, tools, tool_choice: 'required' });
+      addTokenUsage(usage, this.toTokenUsage(completion.usage));
+
+      const message = completion.choices[0]?.message;
+      const requestedCalls = message?.tool_calls ?? [];
+
+      if (requestedCalls.length === 0) {
+        logger.warn('⚠️ 模型未调用任何工具，本轮不回复', {
+          round,
+          text: (message?.content || '').substring(0, 200)
+        });
+        break;
+      }
+
+      messages.push({ role: 'assistant', content: message.content ?? null, tool_calls: requestedCalls });
+
+      for (const requestedCall of requestedCalls) {
+        const args = this.parseToolArguments(requestedCall.function.arguments);
+        let output: Record<string, unknown>;
+
+        if (args === null) {
+          output = { error: '工具参数不是有效的JSON' };
+          toolCalls.push({ name: requestedCall.function.name, arguments: {}, result: output });
+        } else {
+          const call: ToolCall = { name: requestedCall.function.name, arguments: args };
+          const result = await this.executeToolCall(call, executionContext, toolCalls);
+          output = result.success ? { output: result.result } : { error: result.error };
+
+          if (result.success && this.TERMINAL_TOOLS.includes(call.name)) {
+            finished = true;
+          }
+        }
+
+        messages.push({ role: 'tool', tool_call_id: requestedCall.id, content: JSON.stringify(output) });
+      }
+
+      logger.debug('🔧 工具调用轮次完成', {
+        round,
+        calls: requestedCalls.map(requestedCall => requestedCall.function.name),
+        finished
+      });
+    }
+
+    if (!finished) {
+      logger.warn('⚠️ 工具循环结束但未得到回复决定，本次不回复', {
+        rounds: this.MAX_TOOL_ROUNDS,
+        toolCalls: toolCalls.map(call => call.name)
+      });
+    }
+
+    return { toolCalls, usage };
+  }
+
+  protected async requestStructuredOutput(
+    turns: ConversationTurn[],
+    systemInstruction: string,
+    onTextChunk?: TextChunkHandler
+  ): Promise<{ text: string; usage: TokenUsage }> {
+    const messages: OpenAIChatMessage[] = [
+      ...this.buildSystemMessages(systemInstruction),
+      ...turns.map((turn): OpenAIChatMessage => turn.role === 'model'
+        ? { role: 'assistant', content: turn.text }
+        : { role: 'user', content: turn.text })
+    ];
+
+    if (onTextChunk) {
+      return await this.streamChatCompletion({
+        messages,
+        response_format: { type: 'json_object' }
+      }, onTextChunk);
+    }
+
+    const completion = await this.createChatCompletion({
+      messages,
+      response_format: { type: 'json_object' }
+    });
+
+    return {
+      text: completion.choices[0]?.message?.content || '',
+      usage: this.toTokenUsage(completion.usage)
+    };
+  }
+
+  protected async requestText(prompt: string, systemInstruction: string): Promise<{ text: string; usage: TokenUsage }> {
+    const completion = await this.createChatCompletion({
+      messages: [...this.buildSystemMessages(systemInstruction), { role: 'user', content: prompt }]
+    });
+
+    return {
+      text: completion.choices[0]?.message?.content || '',
+      usage: this.toTokenUsage(completion.usage)
+    };
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      return await this.executeWithRetry(async () => {
+        await this.createChatCompletion({
+          messages: [{ role: 'user', content: 'Hello' }],
+          max_tokens: 5
+        });
+
+        logger.info('✅ OpenAI兼容接口连接测试成功', {
+          baseUrl: config.openai.baseUrl,
+          model: this.model
+        });
+        return true;
+      }, 'testConnection');
+    } catch (error) {
+      logger.error('❌ OpenAI兼容接口连接测试失败', {
+        error: (error as any)?.message || String(error),
+        apiKeyStatus: this.keyManager.getStatus()
+      });
+      return false;
+    }
+  }
+
+  private async createChatCompletion(body: Record<string, unknown>): Promise<OpenAIChatCompletion> {
+    const response = await this.postChatCompletion(body);
+    return await response.json() as OpenAIChatCompletion;
+  }
+
+  /**
+   * 以 SSE 流式请求 chat completions，逐段回调增量文本
+   */
+  private async streamChatCompletion(
+    body: Record<string, unknown>,
+    onTextChunk: TextChunkHandler
+  ): Promise<{ text: string; usage: TokenUsage }> {
+    // include_usage 让最后一个分片带上用量，否则流式响应没有 usage
+    const response = await this.postChatCompletion({ ...body, stream: true, stream_options: { include_usage: true } });
+    if (!response.body) {
+      throw new Error('OpenAI-compatible API returned an empty stream');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let usage = emptyTokenUsage();
+
+    const handleLine = async (line: string) => {
+      const data = line.trim().replace(/^data:\s*/, '');
+      if (!line.trim().startsWith('data:') || !data || data === '[DONE]') {
+        return;
+      }
+
+      let chunk: OpenAIChatCompletionChunk;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        logger.debug('⚠️ 忽略无法解析的流式分片', { data: data.substring(0, 200) });
+        return;
+      }
+
+      if (chunk.usage?.total_tokens) {
+        usage = this.toTokenUsage(chunk.usage);
+      }
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        await onTextChunk(delta);
+      }
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        await handleLine(line);
+      }
+    }
+    await handleLine(buffer + decoder.decode());
+
+    return { text, usage };
+  }
+
+  private async postChatCompletion(body: Record<string, unknown>): Promise<Response> {
+    const url = `${config.openai.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.currentApiKey) {
+      headers.Authorization = `Bearer ${this.currentApiKey}`;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        temperature: config.ai.temperature,
+        ...body
+      }),
+      signal: AbortSignal.timeout(config.openai.timeoutMs)
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      // 带上 status 以便 Key 池识别 429 等错误
+      const error: Error & { status?: number } = new Error(
+        `OpenAI-compatible API responded ${response.status}: ${detail.substring(0, 200)}`
+      );
+      error.status = response.status;
+      throw error;
+    }
+
+    return response;
+  }
+
+  // 静态前缀放在 system 消息中，便于服务端的前缀缓存命中
+  private buildSystemMessages(systemInstruction: string): OpenAIChatMessage[] {
+    return systemInstruction ? [{ role: 'system', content: systemInstruction }] : [];
+  }
+
+  // OpenAI 的 completion_tokens 包含推理token，这里拆分出来与 Gemini 保持一致
+  private toTokenUsage(usage?: OpenAIUsage | null): TokenUsage {
+    const thinkingTokens = usage?.completion_tokens_details?.reasoning_tokens || 0;
+
+    return {
+      promptTokens: usage?.prompt_tokens || 0,
+      completionTokens: Math.max(0, (usage?.completion_tokens || 0) - thinkingTokens),
+      thinkingTokens,
+      totalTokens: usage?.total_tokens || 0,
+      // 部分兼容服务不返回缓存信息，此时不计入命中统计
+      cachedTokens: usage?.prompt_tokens_details?.cached_tokens
+    };
+  }
+
+  private parseToolArguments(raw: string | undefined): Record<string, any> | null {
+    if (!raw || !raw.trim()) {
+      return {};
+    }
+
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+}
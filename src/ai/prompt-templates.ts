@@ -0,0 +1,376 @@
+import fs from 'fs';
+import path from 'path';
+import { PersonaConfig, defaultPersona, getCurrentPersona } from '../config/persona';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+// 模板可用的变量
+export interface PromptVariables {
+  persona: PersonaConfig;
+  botId: string;
+  context: string;             // 批次上下文（JSON），为空时模板应改用 message
+  message: string;             // 最新待回复的消息
+  tools: string[];             // 可用工具名
+  jsonMode: boolean;           // 是否为结构化输出模式
+}
+
+// 渲染结果：分隔线之前的静态前缀作为系统指令，之后为每次请求变化的内容
+export interface ChatPrompt {
+  systemInstruction: string;
+  prompt: string;
+}
+
+export interface ChatPromptInput {
+  message: string;
+  context?: string;
+  selfId?: string;
+  groupId?: number | string;
+  tools: string[];
+}
+
+export interface PromptTemplateStatus {
+  name: string;
+  file: string;
+  loadedAt?: string;
+  error?: string;              // 最近一次加载失败的原因（仍使用上一个有效版本）
+}
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; path: string }
+  | { type: 'if'; path: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface CompiledTemplate {
+  system: TemplateNode[];
+  prompt: TemplateNode[];
+}
+
+interface LoadedTemplate {
+  name: string;
+  file: string;
+  compiled: CompiledTemplate;
+  loadedAt: Date;
+}
+
+const VARIABLE_ROOTS: Array<keyof PromptVariables> = ['persona', 'botId', 'context', 'message', 'tools', 'jsonMode'];
+const TAG_PATTERN = /\{\{\s*(.*?)\s*\}\}/g;
+// 独占一行的块标签连同换行一起去掉，避免渲染出多余空行
+const STANDALONE_BLOCK_TAG = /^[ \t]*(\{\{\s*(?:#if\s+[\w.]+|else|\/if)\s*\}\})[ \t]*\r?\n/gm;
+// 独占一行的 {{---}} 把模板分为静态前缀（系统指令，可被缓存）和每次请求变化的部分
+const SECTION_SEPARATOR = /^[ \t]*\{\{\s*---\s*\}\}[ \t]*$/m;
+// 每次请求都会变化的变量，不能出现在静态前缀中
+const DYNAMIC_VARIABLES = ['context', 'message'];
+
+function validatePath(variablePath: string): void {
+  const [root, ...rest] = variablePath.split('.');
+  if (!VARIABLE_ROOTS.includes(root as keyof PromptVariables)) {
+    throw new PromptTemplateError(`未知变量 {{${variablePath}}}，可用变量：${VARIABLE_ROOTS.join(', ')}`);
+  }
+
+  if (root === 'persona') {
+    let current: any = defaultPersona;
+    for (const key of rest) {
+      if (current === null || typeof current !== 'object' || !(key in current)) {
+        throw new PromptTemplateError(`人设中不存在字段 {{${variablePath}}}`);
+      }
+      current = current[key];
+    }
+  } else if (rest.length > 0) {
+    throw new PromptTemplateError(`变量 {{${root}}} 没有子字段`);
+  }
+}
+
+/**
+ * 编译模板：支持 {{变量}}、{{#if 变量}}...{{else}}...{{/if}} 与分隔线 {{---}}，
+ * 变量名、块结构或静态前缀引用了动态变量时抛出 PromptTemplateError
+ */
+export function compileTemplate(source: string): CompiledTemplate {
+  const sections = source.split(SECTION_SEPARATOR);
+  if (sections.length > 2) {
+    throw new PromptTemplateError('模板中只能有一个 {{---}} 分隔线');
+  }
+  if (sections.length === 1) {
+    return { system: [], prompt: compileSection(source) };
+  }
+
+  const usedVariables = new Set<string>();
+  const system = compileSection(sections[0], usedVariables);
+  const dynamicVariable = DYNAMIC_VARIABLES.find(variable => usedVariables.has(variable));
+  if (dynamicVariable) {
+    throw new PromptTemplateError(`{{---}} 之前的系统指令不能使用 {{${dynamicVariable}}}`);
+  }
+
+  return { system, prompt: compileSection(sections[1].replace(/^\r?\n/, '')) };
+}
+
+function compileSection(source: string, usedVariables: Set<string> = new Set()): TemplateNode[] {
+  const normalized = source.replace(STANDALONE_BLOCK_TAG, '$1');
+  const root: TemplateNode[] = [];
+  // 当前打开的 if 块，target 为正在写入的分支
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' }>; target: TemplateNode[] }> = [];
+  let target = root;
+  let lastIndex = 0;
+
+  for (const match of normalized.matchAll(TAG_PATTERN)) {
+    if (match.index! > lastIndex) {
+      target.push({ type: 'text', value: normalized.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index! + match[0].length;
+
+    const tag = match[1];
+    const ifMatch = tag.match(/^#if\s+([\w.]+)$/);
+    if (ifMatch) {
+      validatePath(ifMatch[1]);
+      usedVariables.add(ifMatch[1].split('.')[0]);
+      const node: Extract<TemplateNode, { type: 'if' }> = { type: 'if', path: ifMatch[1], then: [], otherwise: [] };
+      target.push(node);
+      stack.push({ node, target: node.then });
+      target = node.then;
+    } else if (tag === 'else') {
+      const current = stack[stack.length - 1];
+      if (!current || current.target === current.node.otherwise) {
+        throw new PromptTemplateError('{{else}} 没有对应的 {{#if}}');
+      }
+      current.target = current.node.otherwise;
+      target = current.target;
+    } else if (tag === '/if') {
+      if (!stack.pop()) {
+        throw new PromptTemplateError('{{/if}} 没有对应的 {{#if}}');
+      }
+      target = stack.length > 0 ? stack[stack.length - 1].target : root;
+    } else if (/^[\w.]+$/.test(tag)) {
+      validatePath(tag);
+      usedVariables.add(tag.split('.')[0]);
+      target.push({ type: 'var', path: tag });
+    } else {
+      throw new PromptTemplateError(`无法识别的标签 {{${tag}}}`);
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new PromptTemplateError(`{{#if ${stack[stack.length - 1].node.path}}} 缺少 {{/if}}`);
+  }
+
+  if (lastIndex < normalized.length) {
+    target.push({ type: 'text', value: normalized.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+function lookup(variables: PromptVariables, variablePath: string): unknown {
+  return variablePath.split('.').reduce<any>((value, key) => value?.[key], variables);
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim() !== '';
+  return !!value;
+}
+
+function renderNodes(nodes: TemplateNode[], variables: PromptVariables): string {
+  return nodes.map(node => {
+    if (node.type === 'text') {
+      return node.value;
+    }
+    if (node.type === 'if') {
+      return renderNodes(isTruthy(lookup(variables, node.path)) ? node.then : node.otherwise, variables);
+    }
+
+    const value = lookup(variables, node.path);
+    if (Array.isArray(value)) return value.join('、');
+    return value === undefined || value === null ? '' : String(value);
+  }).join('');
+}
+
+export function joinChatPrompt(chatPrompt: ChatPrompt): string {
+  return [chatPrompt.systemInstruction, chatPrompt.prompt].filter(part => part).join('\n\n');
+}
+
+/**
+ * 提示词模板管理器
+ *
+ * 从 PROMPT_TEMPLATE_DIR 加载 *.md 模板，按群选择模板渲染发给模型的提示词。
+ * 开启热加载后模板文件变化会自动重新加载，校验失败时继续使用上一个有效版本。
+ */
+export class PromptTemplateManager {
+  private static instance: PromptTemplateManager;
+  private templates: Map<string, LoadedTemplate> = new Map();
+  private errors: Map<string, string> = new Map();
+  private watcher?: fs.FSWatcher;
+  private reloadTimer?: NodeJS.Timeout;
+
+  private constructor() {
+    this.load();
+  }
+
+  static getInstance(): PromptTemplateManager {
+    if (!PromptTemplateManager.instance) {
+      PromptTemplateManager.instance = new PromptTemplateManager();
+    }
+    return PromptTemplateManager.instance;
+  }
+
+  /**
+   * 重新加载模板目录
+   */
+  load(): void {
+    const dir = path.resolve(config.prompts.dir);
+    let files: string[] = [];
+    try {
+      files = fs.readdirSync(dir).filter(file => file.endsWith('.md'));
+    } catch (error) {
+      logger.error('❌ 无法读取提示词模板目录', {
+        dir,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    const names = new Set(files.map(file => path.basename(file, '.md')));
+    for (const name of Array.from(this.templates.keys())) {
+      if (!names.has(name)) {
+        this.templates.delete(name);
+        logger.warn(`⚠️ 提示词模板 ${name} 已被删除`);
+      }
+    }
+    this.errors.clear();
+
+    for (const file of files) {
+      const name = path.basename(file, '.md');
+      const fullPath = path.join(dir, file);
+      try {
+        const compiled = compileTemplate(fs.readFileSync(fullPath, 'utf8'));
+        this.templates.set(name, { name, file: fullPath, compiled, loadedAt: new Date() });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.errors.set(name, message);
+        logger.error(`❌ 提示词模板 ${name} 校验失败${this.templates.has(name) ? '，继续使用上一个版本' : ''}`, {
+          file: fullPath,
+          error: message
+        });
+      }
+    }
+
+    logger.info(`📝 已加载 ${this.templates.size} 个提示词模板`, { dir, templates: Array.from(this.templates.keys()) });
+  }
+
+  /**
+   * 启动时校验：所有模板都能编译，默认模板与按群指定的模板都存在
+   */
+  validate(): string[] {
+    const problems = Array.from(this.errors.entries()).map(([name, error]) => `提示词模板 ${name} 无效：${error}`);
+    const required = new Set([config.prompts.defaultTemplate, ...Object.values(config.prompts.groups)]);
+
+    for (const name of required) {
+      if (!this.templates.has(name) && !this.errors.has(name)) {
+        problems.push(`提示词模板 ${name} 不存在（${path.resolve(config.prompts.dir, `${name}.md`)}）`);
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * 监听模板目录，文件变化后短暂延迟再重新加载（编辑器保存时会触发多次事件）
+   */
+  watch(): void {
+    if (this.watcher) {
+      return;
+    }
+
+    const dir = path.resolve(config.prompts.dir);
+    try {
+      this.watcher = fs.watch(dir, (_event, filename) => {
+        if (filename && !filename.toString().endsWith('.md')) {
+          return;
+        }
+        if (this.reloadTimer) {
+          clearTimeout(this.reloadTimer);
+        }
+        this.reloadTimer = setTimeout(() => {
+          this.reloadTimer = undefined;
+          logger.info('🔄 检测到提示词模板变化，重新加载');
+          this.load();
+        }, 200);
+      });
+      logger.info('👀 提示词模板热加载已开启', { dir });
+    } catch (error) {
+      logger.warn('⚠️ 无法监听提示词模板目录，热加载未开启', {
+        dir,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  close(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = undefined;
+    }
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  /**
+   * 该群使用的模板名（群模板不可用时回退到默认模板）
+   */
+  resolveTemplateName(groupId?: number | string): string {
+    const groupTemplate = groupId !== undefined ? config.prompts.groups[String(groupId)] : undefined;
+    if (groupTemplate && this.templates.has(groupTemplate)) {
+      return groupTemplate;
+    }
+    return config.prompts.defaultTemplate;
+  }
+
+  render(name: string, variables: PromptVariables): ChatPrompt {
+    const template = this.templates.get(name);
+    if (!template) {
+      throw new PromptTemplateError(`提示词模板 ${name} 不存在`);
+    }
+    return {
+      systemInstruction: renderNodes(template.compiled.system, variables).trim(),
+      prompt: renderNodes(template.compiled.prompt, variables).trim()
+    };
+  }
+
+  /**
+   * 渲染聊天提示词并合并为一段文本（预览与不区分系统指令的场景）
+   */
+  renderChatPrompt(input: ChatPromptInput): string {
+    return joinChatPrompt(this.renderChatPromptParts(input));
+  }
+
+  /**
+   * 渲染聊天提示词：人设按账号合并，模板按群选择
+   */
+  renderChatPromptParts(input: ChatPromptInput): ChatPrompt {
+    return this.render(this.resolveTemplateName(input.groupId), {
+      persona: getCurrentPersona(input.selfId),
+      botId: input.selfId || config.botId || 'assistant',
+      context: input.context ?? '',
+      message: input.message,
+      tools: input.tools,
+      jsonMode: config.ai.responseMode === 'json'
+    });
+  }
+
+  getStatus(): PromptTemplateStatus[] {
+    const names = new Set([...this.templates.keys(), ...this.errors.keys()]);
+    return Array.from(names).sort().map(name => {
+      const template = this.templates.get(name);
+      return {
+        name,
+        file: template?.file ?? path.resolve(config.prompts.dir, `${name}.md`),
+        loadedAt: template?.loadedAt.toISOString(),
+        error: this.errors.get(name)
+      };
+    });
+  }
+}
@@ -0,0 +1,159 @@
+import { Schema, Type } from '@google/genai';
+
+/**
+ * 结构化输出模式（LLM_RESPONSE_MODE=json）下的回复格式
+ */
+export interface StructuredResponse {
+  action: 'reply' | 'no_reply';
+  thinking: string;
+  messages?: string[];
+  reason?: string;
+  quote_message_id?: string;
+  mention_user_id?: string;
+}
+
+export type StructuredResponseValidation =
+  | { valid: true; value: StructuredResponse }
+  | { valid: false; errors: string[] };
+
+export const MAX_STRUCTURED_MESSAGES = 3;
+
+// 传给 Gemini 的 responseSchema，与 validateStructuredResponse 的规则保持一致
+export const STRUCTURED_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    action: { type: Type.STRING, enum: ['reply', 'no_reply'], description: 'reply: 回复消息；no_reply: 不回复' },
+    thinking: { type: Type.STRING, description: '详细思考过程，解释为什么这样回复或不回复' },
+    messages: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: `action 为 reply 时的回复内容，1-${MAX_STRUCTURED_MESSAGES} 条`
+    },
+    reason: { type: Type.STRING, description: 'action 为 no_reply 时不回复的原因' },
+    quote_message_id: { type: Type.STRING, description: '可选，需要引用回复的消息 messageId' },
+    mention_user_id: { type: Type.STRING, description: '可选，需要@的用户QQ号' }
+  },
+  required: ['action', 'thinking'],
+  // mention/quote 排在 messages 之前，流式提前发送首条回复时即可确定@与引用对象
+  propertyOrdering: ['action', 'thinking', 'mention_user_id', 'quote_message_id', 'messages', 'reason']
+};
+
+/**
+ * 运行时校验模型输出，模型可能无视 responseSchema 或输出被截断
+ */
+export function validateStructuredResponse(value: unknown): StructuredResponseValidation {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { valid: false, errors: ['响应必须是JSON对象'] };
+  }
+
+  const input = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (input.action !== 'reply' && input.action !== 'no_reply') {
+    errors.push('action 必须是 "reply" 或 "no_reply"');
+  }
+
+  if (typeof input.thinking !== 'string') {
+    errors.push('thinking 必须是字符串');
+  }
+
+  if (input.action === 'reply') {
+    const messages = input.messages;
+    if (!Array.isArray(messages) || messages.length === 0 || messages.length > MAX_STRUCTURED_MESSAGES) {
+      errors.push(`reply 时 messages 必须是 1-${MAX_STRUCTURED_MESSAGES} 条字符串`);
+    } else if (messages.some(message => typeof message !== 'string' || !message.trim())) {
+      errors.push('messages 中的每一项都必须是非空字符串');
+    }
+  }
+
+  if (input.action === 'no_reply' && (typeof input.reason !== 'string' || !input.reason.trim())) {
+    errors.push('no_reply 时 reason 必须是非空字符串');
+  }
+
+  for (const field of ['quote_message_id', 'mention_user_id']) {
+    const fieldValue = input[field];
+    if (fieldValue !== undefined && fieldValue !== null && typeof fieldValue !== 'string' && typeof fieldValue !== 'number') {
+      errors.push(`${field} 必须是字符串`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const optionalId = (fieldValue: unknown) =>
+    fieldValue === undefined || fieldValue === null || fieldValue === '' ? undefined : String(fieldValue);
+
+  return {
+    valid: true,
+    value: {
+      action: input.action as StructuredResponse['action'],
+      thinking: input.thinking as string,
+      messages: input.action === 'reply' ? (input.messages as string[]).map(message => message.trim()) : undefined,
+      reason: input.action === 'no_reply' ? (input.reason as string).trim() : undefined,
+      quote_message_id: optionalId(input.quote_message_id),
+      mention_user_id: optionalId(input.mention_user_id)
+    }
+  };
+}
+
+// 解析并校验模型返回的原始文本
+export function parseStructuredResponse(text: string): StructuredResponseValidation {
+  if (!text || !text.trim()) {
+    return { valid: false, errors: ['响应为空'] };
+  }
+
+  try {
+    return validateStructuredResponse(JSON.parse(text));
+  } catch (error) {
+    return { valid: false, errors: [`JSON解析失败: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+}
+
+export interface ResponseValidationStats {
+  validated: number;
+  failures: number;
+  repaired: number;
+  fallbacks: number;
+  lastFailure: { at: string; errors: string[] } | null;
+}
+
+// 全局校验统计，所有大模型客户端实例共享
+const validationStats: ResponseValidationStats = {
+  validated: 0,
+  failures: 0,
+  repaired: 0,
+  fallbacks: 0,
+  lastFailure: null
+};
+
+export function recordValidationSuccess(afterRepair: boolean): void {
+  validationStats.validated++;
+  if (afterRepair) {
+    validationStats.repaired++;
+  }
+}
+
+export function recordValidationFailure(errors: string[]): void {
+  validationStats.failures++;
+  validationStats.lastFailure = { at: new Date().toISOString(), errors };
+}
+
+export function recordValidationFallback(): void {
+  validationStats.fallbacks++;
+}
+
+export function getResponseValidationStats(): ResponseValidationStats {
+  return {
+    ...validationStats,
+    lastFailure: validationStats.lastFailure ? { ...validationStats.lastFailure } : null
+  };
+}
+
+export function resetResponseValidationStats(): void {
+  validationStats.validated = 0;
+  validationStats.failures = 0;
+  validationStats.repaired = 0;
+  validationStats.fallbacks = 0;
+  validationStats.lastFailure = null;
+}
@@ -0,0 +1,115 @@
+/**
+ * 增量解析结构化输出的JSON文本
+ *
+ * 逐段喂入模型的流式输出，messages 数组中的每条字符串一闭合就返回；
+ * 同时记录顶层的标量字段（action、quote_message_id 等），供提前发送时判断。
+ */
+export class StreamingReplyParser {
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private rawString = '';
+  private scalar = '';
+  private expectingKey = false;
+  private currentKey: string | null = null;
+  private inMessages = false;
+  private readonly fields: Record<string, string> = {};
+
+  /**
+   * 喂入一段文本，返回本段中新闭合的 messages 元素
+   */
+  push(chunk: string): string[] {
+    const completed: string[] = [];
+
+    for (const char of chunk) {
+      if (this.inString) {
+        this.rawString += char;
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          this.handleString(this.decode(this.rawString), completed);
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.rawString = char;
+          break;
+        case '{':
+        case '[':
+          this.depth++;
+          if (this.depth === 1) {
+            this.expectingKey = true;
+          } else if (this.depth === 2 && char === '[' && this.currentKey === 'messages') {
+            this.inMessages = true;
+          }
+          break;
+        case '}':
+        case ']':
+          if (this.depth === 1) {
+            this.flushScalar();
+          } else if (this.depth === 2) {
+            this.inMessages = false;
+          }
+          this.depth--;
+          break;
+        case ',':
+          if (this.depth === 1) {
+            this.flushScalar();
+            this.expectingKey = true;
+            this.currentKey = null;
+          }
+          break;
+        case ':':
+          if (this.depth === 1) {
+            this.expectingKey = false;
+          }
+          break;
+        default:
+          // 顶层的数字、布尔等非字符串值
+          if (this.depth === 1 && !this.expectingKey && this.currentKey && char.trim()) {
+            this.scalar += char;
+          }
+      }
+    }
+
+    return completed;
+  }
+
+  // 获取已解析完成的顶层字段
+  getField(name: string): string | undefined {
+    return this.fields[name];
+  }
+
+  private handleString(value: string, completed: string[]): void {
+    if (this.depth === 1) {
+      if (this.expectingKey) {
+        this.currentKey = value;
+      } else if (this.currentKey) {
+        this.fields[this.currentKey] = value;
+      }
+    } else if (this.depth === 2 && this.inMessages) {
+      completed.push(value);
+    }
+  }
+
+  private flushScalar(): void {
+    if (this.scalar && this.currentKey && this.scalar !== 'null') {
+      this.fields[this.currentKey] = this.scalar;
+    }
+    this.scalar = '';
+  }
+
+  private decode(raw: string): string {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw.slice(1, -1);
+    }
+  }
+}
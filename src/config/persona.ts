@@ -3,6 +3,8 @@
  * 定义AI助手的个性、回复风格和行为特征
  */
 
+import { getAccountConfig } from '../utils/config';
+
 export interface PersonaConfig {
   // 基础人设信息
   name: string;
@@ -103,8 +105,17 @@ export const defaultPersona: PersonaConfig = {
 };
 
 
-// 根据环境变量获取当前使用的人设
-export function getCurrentPersona(): PersonaConfig {
-  
-  return defaultPersona;
+// 根据环境变量获取当前使用的人设，多账号时合并该账号的人设覆盖
+export function getCurrentPersona(selfId?: number | string): PersonaConfig {
+  const overrides = getAccountConfig(selfId)?.persona;
+  if (!overrides) {
+    return defaultPersona;
+  }
+
+  return {
+    ...defaultPersona,
+    ...overrides,
+    responseStyle: { ...defaultPersona.responseStyle, ...overrides.responseStyle },
+    behaviors: { ...defaultPersona.behaviors, ...overrides.behaviors }
+  };
 }
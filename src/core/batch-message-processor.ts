@@ -1,10 +1,35 @@
 import { logger } from '../utils/logger';
-import { GeminiClient } from '../ai/gemini-client';
+import { LLMProvider, createLLMProvider } from '../ai/llm-provider';
 import { MessageHandler } from './message-handler';
+import { ConversationStore } from './conversation-store';
 import { BotStateManager } from '../utils/bot-state-manager';
 import { config } from '../utils/config';
-import { QueuedMessage, IMessageProcessor } from './message-queue-types';
-import { ChatResponse } from './types';
+import { QueuedMessage, IMessageProcessor, ProcessHandlers } from './message-queue-types';
+import { ChatResponse, ImageAttachment, Message } from './types';
+import { QQOutgoingSegment } from './qq-types';
+import { expandQuotes, parseQQSegments, renderSegments } from './message-segments';
+import { ImageResolver } from './image-resolver';
+import { PromptTemplateManager } from '../ai/prompt-templates';
+import { MemoryManager } from '../utils/memory-manager';
+import { HistoryIndex } from './history-index';
+import { ConversationSummarizer, ConversationSummary, SummaryScheduler, SummaryTaskPayload } from './conversation-summarizer';
+
+// 提示词预览结果
+export interface PromptPreview {
+  contextId: string;
+  template: string;
+  historySize: number;
+  prompt: string;
+}
+
+// 已送达的机器人回复
+export interface DeliveredReply {
+  messageId?: string;  // QQ返回的消息ID
+  groupId?: string;
+  userId?: string;  // 私聊对象
+  segments: QQOutgoingSegment[];
+  selfId?: string;  // 发送该回复的机器人账号
+}
 
 /**
  * 批量消息处理器
@@ -13,24 +38,37 @@ import { ChatResponse } from './types';
  * 相比单条消息处理，这里会将多条消息作为一个批次进行AI决策和回复生成。
  */
 export class BatchMessageProcessor implements IMessageProcessor {
-  private readonly geminiClient: GeminiClient;
+  private readonly llmProvider: LLMProvider;
   private readonly messageHandler: MessageHandler;
   private readonly botStateManager: BotStateManager;
-
-  constructor() {
-    this.geminiClient = new GeminiClient();
-    this.messageHandler = new MessageHandler();
+  // 图片解析器，由持有 OneBot 连接的服务端注入
+  private imageResolver?: ImageResolver;
+  // 会话摘要调度器，由持有 TaskQueue 的服务端注入；未注入时直接在后台执行
+  private summaryScheduler?: SummaryScheduler;
+
+  constructor(conversationStore?: ConversationStore) {
+    this.llmProvider = createLLMProvider();
+    this.messageHandler = new MessageHandler(conversationStore);
     this.botStateManager = BotStateManager.getInstance();
   }
 
+  setImageResolver(resolver: ImageResolver): void {
+    this.imageResolver = resolver;
+  }
+
+  setSummaryScheduler(scheduler: SummaryScheduler): void {
+    this.summaryScheduler = scheduler;
+  }
+
   /**
    * 处理批量消息
    *
    * @param messages 队列中的消息列表
    * @param context 格式化后的上下文字符串
+   * @param handlers 处理过程回调（流式提前发送回复）
    * @returns 处理结果
    */
-  async processMessages(messages: QueuedMessage[], context: string): Promise<ChatResponse> {
+  async processMessages(messages: QueuedMessage[], context: string, handlers: ProcessHandlers = {}): Promise<ChatResponse> {
     if (messages.length === 0) {
       return {
         content: '',
@@ -47,6 +85,7 @@ export class BatchMessageProcessor implements IMessageProcessor {
 
     // 1. 将消息添加到会话历史中（用于上下文管理）
     this.addMessagesToHistory(messages);
+    this.scheduleSummary(messages[messages.length - 1]);
 
     // 2. 检查群聊功能状态（如果是群聊消息）
     const groupId = messages.find(m => m.groupId)?.groupId;
@@ -75,29 +114,25 @@ export class BatchMessageProcessor implements IMessageProcessor {
       const toolContext = {
         userId: parseInt(latestMessage.userId),
         groupId: latestMessage.groupId ? parseInt(latestMessage.groupId) : undefined,
-        messageType: latestMessage.groupId ? 'group' as const : 'private' as const
+        messageType: latestMessage.groupId ? 'group' as const : 'private' as const,
+        selfId: latestMessage.selfId,
+        contextId: latestMessage.contextId,
+        senderIds: Array.from(new Set(messages.map(m => m.userId))),
+        messageIds: messages.map(m => m.messageId)
       };
 
-      const response = await this.geminiClient.generateResponse(
+      const images = await this.resolveImages(messages, groupId);
+
+      const response = await this.llmProvider.generateResponse(
         this.extractMainContent(messages),
         enhancedContext,
-        toolContext
+        toolContext,
+        { onReplyReady: handlers.onReplyReady, images }
       );
 
-      // 5. 将AI回复添加到会话历史
+      // 回复在 send_message 任务发送成功后才写入会话历史，见 recordDeliveredReply
       const replies = response.replies ?? (response.content ? [response.content] : []);
 
-      if (replies.length > 0) {
-        const aiMessage = this.messageHandler.createMessage(
-          config.botId || 'assistant',
-          replies[0],
-          latestMessage.groupId,
-          'AI助手',
-          latestMessage.groupId || latestMessage.userId
-        );
-        this.messageHandler.addMessage(aiMessage);
-      }
-
       logger.info(`✅ 批量消息处理完成`, {
         messageCount: messages.length,
         responseLength: replies.reduce((len, reply) => len + reply.length, 0),
@@ -123,6 +158,126 @@ export class BatchMessageProcessor implements IMessageProcessor {
     }
   }
 
+  /**
+   * 获取本批次消息中的图片（未注入解析器或该会话未开启图片理解时不获取）
+   */
+  private async resolveImages(messages: QueuedMessage[], groupId?: string): Promise<ImageAttachment[]> {
+    if (!this.imageResolver || !messages.some(m => m.segments?.some(segment => segment.type === 'image'))) {
+      return [];
+    }
+
+    if (!this.botStateManager.isImageUnderstandingEnabled(groupId)) {
+      logger.debug('🖼️ 该会话未开启图片理解，图片仅以占位符发送', { groupId });
+      return [];
+    }
+
+    return this.imageResolver.resolve(messages);
+  }
+
+  /**
+   * 按会话历史渲染该会话下一次请求的提示词（不调用模型）
+   *
+   * @param contextId 队列上下文ID，如 group_123456、private_10001、group_123456@10001
+   */
+  previewPrompt(contextId: string): PromptPreview {
+    const match = contextId.match(/^(group|private|conv)_([^@]+)(?:@(.+))?$/);
+    if (!match) {
+      throw new Error(`无效的上下文ID: ${contextId}`);
+    }
+
+    const [, type, id, selfId] = match;
+    const groupId = type === 'group' ? id : undefined;
+    const conversation = this.messageHandler.getConversation(id, groupId);
+    const latestMessage = conversation.filter(message => !message.deleted).pop();
+    const context = this.buildBatchContext(
+      [],
+      '[]',
+      this.messageHandler.formatConversationContext(conversation, config.summary.recentMessages),
+      this.getRelevantMemories(latestMessage ? [latestMessage.userId] : [], groupId),
+      ConversationSummarizer.getInstance().get(groupId || id)?.summary
+    );
+
+    const toolContext = {
+      userId: parseInt(type === 'private' ? id : latestMessage?.userId ?? '0') || 0,
+      groupId: groupId ? parseInt(groupId) : undefined,
+      messageType: groupId ? 'group' as const : 'private' as const,
+      selfId,
+      contextId
+    };
+
+    return {
+      contextId,
+      template: PromptTemplateManager.getInstance().resolveTemplateName(groupId),
+      historySize: conversation.length,
+      prompt: this.llmProvider.buildPrompt(latestMessage?.content ?? '', context, toolContext)
+    };
+  }
+
+  /**
+   * 把会话中较早的消息并入滚动摘要（由摘要任务调用）
+   */
+  async summarizeConversation(payload: SummaryTaskPayload): Promise<ConversationSummary | undefined> {
+    const conversation = this.messageHandler.getConversation(payload.conversationKey);
+    return ConversationSummarizer.getInstance().summarize(payload.conversationKey, payload.contextId, conversation);
+  }
+
+  /**
+   * 会话中未摘要的较早消息达到阈值时调度一次摘要
+   */
+  private scheduleSummary(latestMessage: QueuedMessage): void {
+    const conversationKey = latestMessage.groupId || latestMessage.userId;
+    const summarizer = ConversationSummarizer.getInstance();
+    if (!summarizer.claim(conversationKey, this.messageHandler.getConversation(latestMessage.userId, latestMessage.groupId))) {
+      return;
+    }
+
+    const payload: SummaryTaskPayload = { conversationKey, contextId: latestMessage.contextId };
+    const task = this.summaryScheduler ? this.summaryScheduler(payload) : this.summarizeConversation(payload);
+
+    logger.debug('📝 已调度会话摘要', payload);
+    task.catch(error => {
+      summarizer.release(conversationKey);
+      logger.warn('⚠️ 会话摘要失败', {
+        ...payload,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  }
+
+  /**
+   * 将会话历史中的消息标记为已撤回
+   */
+  markMessageDeleted(messageId: string, userId: string, groupId?: string): boolean {
+    if (config.history.enabled) {
+      HistoryIndex.getInstance().markDeleted(groupId || userId, messageId);
+    }
+    return this.messageHandler.markMessageDeleted(groupId || userId, messageId);
+  }
+
+  /**
+   * 将已成功发送的机器人回复写入会话历史
+   *
+   * 使用QQ返回的消息ID，并保留 @ 和回复消息段，使 recentHistory 与群里实际看到的一致。
+   */
+  recordDeliveredReply(reply: DeliveredReply): void {
+    const segments = parseQQSegments(reply.segments);
+    const message = this.messageHandler.createMessage(
+      config.botId || 'assistant',
+      renderSegments(segments),
+      reply.groupId,
+      'AI助手',
+      reply.groupId || reply.userId
+    );
+
+    if (reply.messageId) {
+      message.id = reply.messageId;
+    }
+    message.segments = segments;
+    message.selfId = reply.selfId;
+
+    this.recordMessage(message);
+  }
+
   /**
    * 将队列消息添加到会话历史中
    */
@@ -137,18 +292,34 @@ export class BatchMessageProcessor implements IMessageProcessor {
       // 设置正确的时间戳
       message.timestamp = new Date(queuedMessage.timestamp * 1000);
       message.id = queuedMessage.messageId;
+      message.segments = queuedMessage.segments;
+      message.selfId = queuedMessage.selfId;
 
-      this.messageHandler.addMessage(message);
+      this.recordMessage(message);
     });
   }
 
+  // 写入会话历史，并归档到历史检索索引
+  private recordMessage(message: Message): void {
+    this.messageHandler.addMessage(message);
+
+    if (config.history.enabled) {
+      HistoryIndex.getInstance().add(message.conversationId!, message);
+    }
+  }
+
   /**
    * 构建增强的批次上下文
    */
   private buildBatchContext(
     messages: QueuedMessage[],
     queueContext: string,
-    conversationContext: string
+    conversationContext: string,
+    memories: Array<Record<string, string>> = this.getRelevantMemories(
+      messages.map(m => m.userId),
+      messages.find(m => m.groupId)?.groupId
+    ),
+    conversationSummary: string | undefined = this.getConversationSummary(messages)
   ): string {
     const summary = {
       messageCount: messages.length,
@@ -157,7 +328,7 @@ export class BatchMessageProcessor implements IMessageProcessor {
       hasHighPriority: messages.some(m => m.isHighPriority)
     };
 
-    const queueMessages = this.safeParseJsonArray(queueContext);
+    const queueMessages = this.expandQueueQuotes(messages, this.safeParseJsonArray(queueContext));
     const recentHistory = this.safeParseJsonArray(conversationContext);
 
     // 去重：保留队列消息，移除历史中已存在的重复消息
@@ -175,13 +346,63 @@ export class BatchMessageProcessor implements IMessageProcessor {
       {
         summary,
         queueMessages,
-        recentHistory: filteredHistory
+        ...(conversationSummary && { conversationSummary }),
+        recentHistory: filteredHistory,
+        ...(memories.length > 0 && { memories })
       },
       null,
       2
     );
   }
 
+  // 较早历史的滚动摘要，覆盖 recentHistory 之前的消息
+  private getConversationSummary(messages: QueuedMessage[]): string | undefined {
+    const latestMessage = messages[messages.length - 1];
+    if (!latestMessage || !config.summary.enabled) {
+      return undefined;
+    }
+
+    return ConversationSummarizer.getInstance().get(latestMessage.groupId || latestMessage.userId)?.summary;
+  }
+
+  /**
+   * 取出批次中用户和所在群的长期记忆，factId 供模型调用 forget_fact
+   */
+  private getRelevantMemories(userIds: string[], groupId?: string): Array<Record<string, string>> {
+    if (!config.memory.enabled) {
+      return [];
+    }
+
+    return MemoryManager.getInstance().getRelevant(userIds, groupId).map(memory => ({
+      factId: memory.id,
+      about: memory.scope,
+      ...(memory.scope === 'user' && { userId: memory.subjectId }),
+      fact: memory.content
+    }));
+  }
+
+  /**
+   * 展开队列消息中的引用回复，附上被引用消息的原文
+   */
+  private expandQueueQuotes(messages: QueuedMessage[], queueMessages: Array<any>): Array<any> {
+    const latestMessage = messages[messages.length - 1];
+    if (!latestMessage || !messages.some(m => m.segments?.some(segment => segment.type === 'reply'))) {
+      return queueMessages;
+    }
+
+    const history: Message[] = this.messageHandler.getConversation(latestMessage.userId, latestMessage.groupId);
+    const resolveQuote = (messageId: string) => history.find(item => item.id === messageId)?.content;
+    const segmentsById = new Map(messages.map(m => [m.messageId, m.segments]));
+
+    return queueMessages.map(entry => {
+      const segments = segmentsById.get(entry?.messageId);
+      if (!segments || typeof entry.content !== 'string') {
+        return entry;
+      }
+      return { ...entry, content: expandQuotes(entry.content, segments, resolveQuote) };
+    });
+  }
+
   /**
    * 去重消息：保留队列消息，移除历史对话中的重复消息
    * @param queueMessages 队列消息数组
@@ -244,7 +465,7 @@ export class BatchMessageProcessor implements IMessageProcessor {
     }
 
     const conversation = this.messageHandler.getConversation(latestMessage.userId, latestMessage.groupId);
-    return this.messageHandler.formatConversationContext(conversation, 50);
+    return this.messageHandler.formatConversationContext(conversation, config.summary.recentMessages);
   }
 
   private safeParseJsonArray(raw: string): Array<unknown> {
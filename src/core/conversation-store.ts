@@ -0,0 +1,270 @@
+import fs from 'fs';
+import { join } from 'path';
+import { Message } from './types';
+import { config, ConversationRetention } from '../utils/config';
+import { logger } from '../utils/logger';
+
+export interface StoredConversation {
+  conversationKey: string;
+  messages: Message[];
+}
+
+/**
+ * 会话历史存储，键为群号或私聊QQ号
+ */
+export interface ConversationStore {
+  add(conversationKey: string, message: Message): void;
+  getConversation(conversationKey: string): Message[];
+  getAllConversations(): StoredConversation[];
+  // 不传键时清空所有会话
+  clear(conversationKey?: string): void;
+  markDeleted(conversationKey: string, messageId: string): boolean;
+  // 等待尚未完成的写入
+  flush(): Promise<void>;
+}
+
+// 每行一条的变更记录
+type ConversationJournalRecord =
+  | { type: 'message'; message: Message }
+  | { type: 'deleted'; messageId: string };
+
+/**
+ * 获取会话的保留策略（单独配置优先于默认策略）
+ */
+export function getConversationRetention(conversationKey: string): ConversationRetention {
+  return { ...config.conversations.retention, ...config.conversations.overrides[conversationKey] };
+}
+
+// 按会话键返回保留策略
+export type RetentionResolver = (conversationKey: string) => ConversationRetention;
+
+/**
+ * 内存存储，重启后丢失
+ */
+export class MemoryConversationStore implements ConversationStore {
+  protected conversations: Map<string, Message[]> = new Map();
+
+  constructor(protected readonly getRetention: RetentionResolver = getConversationRetention) {}
+
+  add(conversationKey: string, message: Message): void {
+    let conversation = this.conversations.get(conversationKey);
+    if (!conversation) {
+      conversation = [];
+      this.conversations.set(conversationKey, conversation);
+    }
+
+    conversation.push(message);
+    this.applyRetention(conversationKey, conversation);
+  }
+
+  getConversation(conversationKey: string): Message[] {
+    return this.conversations.get(conversationKey) || [];
+  }
+
+  getAllConversations(): StoredConversation[] {
+    return Array.from(this.conversations.entries())
+      .filter(([, messages]) => messages.length > 0)
+      .map(([conversationKey, messages]) => ({ conversationKey, messages: messages.slice() }));
+  }
+
+  clear(conversationKey?: string): void {
+    if (conversationKey === undefined) {
+      this.conversations.clear();
+    } else {
+      this.conversations.delete(conversationKey);
+    }
+  }
+
+  markDeleted(conversationKey: string, messageId: string): boolean {
+    const message = this.conversations.get(conversationKey)?.find(item => item.id === messageId);
+    if (!message || message.deleted) {
+      return false;
+    }
+
+    message.deleted = true;
+    return true;
+  }
+
+  flush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  // 按条数和时间裁剪最早的消息，返回裁剪数量
+  protected applyRetention(conversationKey: string, conversation: Message[], now: number = Date.now()): number {
+    const { maxMessages, maxAgeDays } = this.getRetention(conversationKey);
+    let removeCount = Math.max(0, conversation.length - Math.max(maxMessages, 1));
+
+    if (maxAgeDays > 0) {
+      const cutoff = now - maxAgeDays * 24 * 60 * 60 * 1000;
+      while (removeCount < conversation.length && conversation[removeCount].timestamp.getTime() < cutoff) {
+        removeCount++;
+      }
+    }
+
+    if (removeCount > 0) {
+      conversation.splice(0, removeCount);
+    }
+    return removeCount;
+  }
+}
+
+/**
+ * 文件存储
+ *
+ * 每个会话一个追加写入的 NDJSON 文件，启动时重放恢复；
+ * 文件行数超过保留消息数的两倍时按当前内容重写，避免无限增长。
+ */
+export class FileConversationStore extends MemoryConversationStore {
+  private lineCounts: Map<string, number> = new Map();
+  // 串行执行写入，保证同一会话的记录按顺序落盘
+  private writeChain: Promise<void> = Promise.resolve();
+
+  // 文件少于该行数时不重写
+  private readonly COMPACT_MIN_LINES = 50;
+
+  constructor(private readonly dir: string, getRetention?: RetentionResolver) {
+    super(getRetention);
+    this.loadFromDisk();
+  }
+
+  add(conversationKey: string, message: Message): void {
+    super.add(conversationKey, message);
+    this.append(conversationKey, { type: 'message', message });
+  }
+
+  markDeleted(conversationKey: string, messageId: string): boolean {
+    if (!super.markDeleted(conversationKey, messageId)) {
+      return false;
+    }
+
+    this.append(conversationKey, { type: 'deleted', messageId });
+    return true;
+  }
+
+  clear(conversationKey?: string): void {
+    const keys = conversationKey === undefined ? Array.from(this.lineCounts.keys()) : [conversationKey];
+    super.clear(conversationKey);
+
+    for (const key of keys) {
+      const filePath = this.getFilePath(key);
+      this.lineCounts.delete(key);
+      this.enqueue(() => fs.promises.rm(filePath, { force: true }));
+    }
+  }
+
+  flush(): Promise<void> {
+    return this.writeChain;
+  }
+
+  private append(conversationKey: string, record: ConversationJournalRecord): void {
+    const lines = (this.lineCounts.get(conversationKey) ?? 0) + 1;
+    if (lines > Math.max(this.getConversation(conversationKey).length * 2, this.COMPACT_MIN_LINES)) {
+      this.compact(conversationKey);
+      return;
+    }
+
+    this.lineCounts.set(conversationKey, lines);
+    const filePath = this.getFilePath(conversationKey);
+    const line = JSON.stringify(record) + '\n';
+    this.enqueue(async () => {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      await fs.promises.appendFile(filePath, line, 'utf8');
+    });
+  }
+
+  // 用当前保留的消息重写会话文件（先写临时文件再替换）
+  private compact(conversationKey: string): void {
+    const messages = this.getConversation(conversationKey);
+    const filePath = this.getFilePath(conversationKey);
+    const content = messages
+      .map(message => JSON.stringify({ type: 'message', message } as ConversationJournalRecord) + '\n')
+      .join('');
+
+    this.lineCounts.set(conversationKey, messages.length);
+    this.enqueue(async () => {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      await fs.promises.writeFile(`${filePath}.tmp`, content, 'utf8');
+      await fs.promises.rename(`${filePath}.tmp`, filePath);
+    });
+
+    logger.debug('💾 已压缩会话历史文件', { conversationKey, messages: messages.length });
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.writeChain = this.writeChain
+      .then(task)
+      .catch(error => {
+        logger.warn('⚠️ 写入会话历史失败', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+  }
+
+  private getFilePath(conversationKey: string): string {
+    return join(this.dir, `${encodeURIComponent(conversationKey)}.ndjson`);
+  }
+
+  // 启动时重放所有会话文件，并按保留策略裁剪
+  private loadFromDisk(): void {
+    if (!fs.existsSync(this.dir)) {
+      return;
+    }
+
+    let loaded = 0;
+
+    try {
+      const files = fs.readdirSync(this.dir).filter(file => file.endsWith('.ndjson'));
+
+      for (const file of files) {
+        const conversationKey = decodeURIComponent(file.slice(0, -'.ndjson'.length));
+        const lines = fs.readFileSync(join(this.dir, file), 'utf8').split('\n').filter(line => line.trim());
+        const conversation: Message[] = [];
+
+        for (const line of lines) {
+          try {
+            this.replay(conversation, JSON.parse(line) as ConversationJournalRecord);
+          } catch {
+            // 跳过写入中断产生的半行
+          }
+        }
+
+        this.applyRetention(conversationKey, conversation);
+        this.lineCounts.set(conversationKey, lines.length);
+        if (conversation.length > 0) {
+          this.conversations.set(conversationKey, conversation);
+          loaded += conversation.length;
+        }
+      }
+
+      if (loaded > 0) {
+        logger.info(`💾 已从磁盘恢复 ${loaded} 条会话消息`, { conversations: this.conversations.size, dir: this.dir });
+      }
+    } catch (error) {
+      logger.warn('⚠️ 读取会话历史失败', {
+        dir: this.dir,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private replay(conversation: Message[], record: ConversationJournalRecord): void {
+    if (record.type === 'message') {
+      conversation.push({ ...record.message, timestamp: new Date(record.message.timestamp) });
+    } else if (record.type === 'deleted') {
+      const message = conversation.find(item => item.id === record.messageId);
+      if (message) {
+        message.deleted = true;
+      }
+    }
+  }
+}
+
+/**
+ * 按配置创建会话存储
+ */
+export function createConversationStore(): ConversationStore {
+  if (config.conversations.storage === 'memory') {
+    return new MemoryConversationStore();
+  }
+  return new FileConversationStore(config.conversations.dir);
+}
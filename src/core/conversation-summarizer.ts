@@ -0,0 +1,262 @@
+import fs from 'fs';
+import { dirname } from 'path';
+import { Message } from './types';
+import { LLMProvider, createLLMClient } from '../ai/llm-provider';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+export interface ConversationSummary {
+  conversationKey: string;    // 群号或私聊QQ号，与会话历史一致
+  contextId: string;          // 最近一次摘要时的队列上下文ID
+  summary: string;
+  lastMessageId: string;      // 已并入摘要的最后一条消息
+  lastTimestamp: string;
+  summarizedCount: number;    // 累计并入摘要的消息数
+  updatedAt: string;
+}
+
+// 摘要调度任务，由持有 TaskQueue 的服务端注入
+export interface SummaryTaskPayload {
+  conversationKey: string;
+  contextId: string;
+}
+
+export type SummaryScheduler = (payload: SummaryTaskPayload) => Promise<void>;
+
+const SYSTEM_INSTRUCTION = [
+  '你负责为QQ聊天记录维护一份滚动摘要，供聊天机器人回顾较早的对话。',
+  '保留话题走向、结论、各人的观点与约定，以及机器人答应过的事；省略寒暄和无关细节。',
+  '使用第三人称，提到群友时带上昵称，只输出摘要正文。'
+].join('\n');
+
+/**
+ * 会话摘要器
+ *
+ * 最近消息之外累计足够多未摘要的消息后，调用模型把它们并入该会话的滚动摘要，
+ * 摘要整体写入 JSON 文件，重启后恢复。
+ */
+export class ConversationSummarizer {
+  private static instance: ConversationSummarizer;
+  private summaries: Map<string, ConversationSummary> = new Map();
+  // 已调度但尚未完成的会话，避免重复入队
+  private pending: Set<string> = new Set();
+  // 重置后递增，丢弃重置前发起的摘要结果
+  private resetVersion = 0;
+  private llmProvider?: LLMProvider;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  private constructor() {
+    this.loadFromDisk();
+  }
+
+  static getInstance(): ConversationSummarizer {
+    if (!ConversationSummarizer.instance) {
+      ConversationSummarizer.instance = new ConversationSummarizer();
+    }
+    return ConversationSummarizer.instance;
+  }
+
+  get(conversationKey: string): ConversationSummary | undefined {
+    return this.summaries.get(conversationKey);
+  }
+
+  list(): ConversationSummary[] {
+    return Array.from(this.summaries.values())
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * 删除摘要，不传键时删除全部；之后较早的消息会重新摘要
+   */
+  reset(conversationKey?: string): boolean {
+    const existed = conversationKey === undefined ? this.summaries.size > 0 : this.summaries.has(conversationKey);
+
+    if (conversationKey === undefined) {
+      this.summaries.clear();
+    } else {
+      this.summaries.delete(conversationKey);
+    }
+    this.resetVersion++;
+
+    if (existed) {
+      this.persist();
+      logger.info('📝 会话摘要已重置', { conversationKey: conversationKey ?? 'all' });
+    }
+    return existed;
+  }
+
+  /**
+   * 判断会话是否需要摘要；需要时标记为进行中，调用方负责调度 summarize
+   */
+  claim(conversationKey: string, conversation: Message[]): boolean {
+    if (!config.summary.enabled || this.pending.has(conversationKey)) {
+      return false;
+    }
+
+    if (this.getUnsummarized(conversationKey, conversation).length < Math.max(config.summary.triggerMessages, 1)) {
+      return false;
+    }
+
+    this.pending.add(conversationKey);
+    return true;
+  }
+
+  // 调度失败时释放进行中标记，下次再尝试
+  release(conversationKey: string): void {
+    this.pending.delete(conversationKey);
+  }
+
+  /**
+   * 把最近消息之外未摘要的消息并入滚动摘要
+   */
+  async summarize(conversationKey: string, contextId: string, conversation: Message[]): Promise<ConversationSummary | undefined> {
+    try {
+      const messages = this.getUnsummarized(conversationKey, conversation);
+      if (messages.length === 0) {
+        return this.summaries.get(conversationKey);
+      }
+
+      const previous = this.summaries.get(conversationKey);
+      const version = this.resetVersion;
+      const latestMessage = messages[messages.length - 1];
+      const text = await this.getProvider().generateText(
+        this.buildPrompt(previous?.summary, messages),
+        `${SYSTEM_INSTRUCTION}\n摘要不超过${config.summary.maxLength}字。`,
+        {
+          userId: parseInt(latestMessage.userId) || 0,
+          groupId: latestMessage.groupId ? parseInt(latestMessage.groupId) : undefined,
+          messageType: latestMessage.groupId ? 'group' : 'private',
+          contextId
+        }
+      );
+
+      if (version !== this.resetVersion) {
+        logger.info('📝 摘要生成期间会话已重置，丢弃本次结果', { conversationKey });
+        return undefined;
+      }
+      if (!text) {
+        throw new Error('模型返回的摘要为空');
+      }
+
+      const record: ConversationSummary = {
+        conversationKey,
+        contextId,
+        summary: text.slice(0, config.summary.maxLength),
+        lastMessageId: latestMessage.id,
+        lastTimestamp: new Date(latestMessage.timestamp).toISOString(),
+        summarizedCount: (previous?.summarizedCount ?? 0) + messages.length,
+        updatedAt: new Date().toISOString()
+      };
+      this.summaries.set(conversationKey, record);
+      this.persist();
+
+      logger.info('📝 会话摘要已更新', {
+        conversationKey,
+        contextId,
+        newMessages: messages.length,
+        summarizedCount: record.summarizedCount,
+        summaryLength: record.summary.length
+      });
+      return record;
+    } finally {
+      this.pending.delete(conversationKey);
+    }
+  }
+
+  /**
+   * 等待尚未完成的写入
+   */
+  flush(): Promise<void> {
+    return this.writeChain;
+  }
+
+  // 最近消息窗口之前、上次摘要之后的消息（已撤回的不计入）
+  private getUnsummarized(conversationKey: string, conversation: Message[]): Message[] {
+    const older = conversation.slice(0, Math.max(0, conversation.length - config.summary.recentMessages));
+    const previous = this.summaries.get(conversationKey);
+    if (!previous) {
+      return older.filter(message => !message.deleted);
+    }
+
+    // 上次摘要的最后一条消息可能已按保留策略裁掉，此时按时间判断
+    const lastIndex = older.findIndex(message => message.id === previous.lastMessageId);
+    const lastTime = new Date(previous.lastTimestamp).getTime();
+    const remaining = lastIndex >= 0
+      ? older.slice(lastIndex + 1)
+      : older.filter(message => new Date(message.timestamp).getTime() > lastTime);
+
+    return remaining.filter(message => !message.deleted);
+  }
+
+  private buildPrompt(previousSummary: string | undefined, messages: Message[]): string {
+    const lines = messages.map(message =>
+      `[${new Date(message.timestamp).toISOString()}] ${message.userName || `用户${message.userId}`}(${message.userId}): ${message.content}`
+    );
+
+    return [
+      '已有摘要：',
+      previousSummary || '（无）',
+      '',
+      '需要并入摘要的较早消息（按时间升序）：',
+      ...lines,
+      '',
+      '请把这些消息合并进已有摘要，输出更新后的完整摘要。'
+    ].join('\n');
+  }
+
+  private getProvider(): LLMProvider {
+    if (!this.llmProvider) {
+      // 只使用单独配置的便宜模型，不占用主模型及其降级链
+      const tier = config.summary.model;
+      if (!tier) {
+        throw new Error('未配置摘要模型 SUMMARY_MODEL');
+      }
+      this.llmProvider = createLLMClient(tier.provider, tier.model);
+    }
+    return this.llmProvider;
+  }
+
+  private persist(): void {
+    const filePath = config.summary.file;
+    const content = JSON.stringify(Array.from(this.summaries.values()), null, 2);
+
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await fs.promises.mkdir(dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(`${filePath}.tmp`, content, 'utf8');
+        await fs.promises.rename(`${filePath}.tmp`, filePath);
+      })
+      .catch(error => {
+        logger.warn('⚠️ 保存会话摘要失败', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+  }
+
+  private loadFromDisk(): void {
+    const filePath = config.summary.file;
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+
+    try {
+      const records = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      if (!Array.isArray(records)) {
+        throw new Error('摘要文件应为JSON数组');
+      }
+
+      for (const record of records as ConversationSummary[]) {
+        if (record?.conversationKey && record.summary) {
+          this.summaries.set(record.conversationKey, record);
+        }
+      }
+
+      logger.info(`📝 已加载 ${this.summaries.size} 个会话摘要`, { file: filePath });
+    } catch (error) {
+      logger.warn('⚠️ 读取会话摘要失败', {
+        file: filePath,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
@@ -1,12 +1,20 @@
-import { Message, ChatResponse } from './types';
+import { Message, ChatResponse, MessageSegment } from './types';
 import { MessageHandler } from './message-handler';
-import { GeminiClient } from '../ai/gemini-client';
+import { createConversationStore } from './conversation-store';
+import { ConversationSummarizer } from './conversation-summarizer';
+import { HistoryIndex } from './history-index';
+import { MemoryManager } from '../utils/memory-manager';
+import { LLMProvider, createLLMProvider } from '../ai/llm-provider';
 import { MessageQueueManager } from './message-queue-manager';
-import { BatchMessageProcessor } from './batch-message-processor';
+import { BatchMessageProcessor, PromptPreview } from './batch-message-processor';
 import { QueueConfig, QueueEventListener, QueueProcessResult } from './message-queue-types';
 import { logger } from '../utils/logger';
 import { config } from '../utils/config';
 import { BotStateManager } from '../utils/bot-state-manager';
+import { getResponseValidationStats } from '../ai/response-schema';
+import { LLMFallbackChain } from '../ai/llm-fallback-chain';
+import { UsageLedger, UsageTotals } from '../utils/usage-ledger';
+import { BudgetManager, BudgetUsage, GLOBAL_BUDGET_SCOPE } from '../utils/budget-manager';
 
 /**
  * 增强型聊天代理（队列模式）
@@ -16,23 +24,28 @@ import { BotStateManager } from '../utils/bot-state-manager';
 export class EnhancedChatAgent {
   // 传统组件
   private messageHandler: MessageHandler;
-  private geminiClient: GeminiClient;
+  private llmProvider: LLMProvider;
   private botStateManager: BotStateManager;
   
   // 队列组件
   protected messageQueueManager: MessageQueueManager;
-  private batchProcessor: BatchMessageProcessor;
+  protected batchProcessor: BatchMessageProcessor;
   protected queueEventListener: QueueEventListener;
 
   constructor(queueConfig?: Partial<QueueConfig>) {
     
-    // 初始化传统组件
-    this.messageHandler = new MessageHandler();
-    this.geminiClient = new GeminiClient();
+    // 初始化传统组件（与批处理器共用同一份会话历史）
+    const conversationStore = createConversationStore();
+    this.messageHandler = new MessageHandler(conversationStore);
+    if (config.history.enabled) {
+      // 启用历史检索前已有的会话历史补入索引
+      HistoryIndex.getInstance().backfill(conversationStore.getAllConversations());
+    }
+    this.llmProvider = createLLMProvider();
     this.botStateManager = BotStateManager.getInstance();
     
     // 初始化队列组件
-    this.batchProcessor = new BatchMessageProcessor();
+    this.batchProcessor = new BatchMessageProcessor(conversationStore);
     this.queueEventListener = this.createQueueEventListener();
     
     this.messageQueueManager = new MessageQueueManager(
@@ -53,13 +66,13 @@ export class EnhancedChatAgent {
   async initialize(): Promise<boolean> {
     logger.info('Initializing EnhancedChatAgent...');
     
-    const isConnected = await this.geminiClient.testConnection();
+    const isConnected = await this.llmProvider.testConnection();
     if (!isConnected) {
-      logger.warn('⚠️  Gemini API connection failed, but continuing initialization...');
+      logger.warn(`⚠️  LLM API connection failed (${this.llmProvider.name}), but continuing initialization...`);
       logger.warn('💡 Server will start in limited mode (WebUI and logs available)');
       logger.warn('📊 AI chat features may be unavailable until API quota resets');
     } else {
-      logger.info('✅ Gemini API connection successful');
+      logger.info(`✅ LLM API connection successful (${this.llmProvider.name}: ${this.llmProvider.model})`);
     }
     
     logger.info('EnhancedChatAgent initialized successfully (队列模式)');
@@ -79,6 +92,9 @@ export class EnhancedChatAgent {
       messageId?: string;
       timestamp?: Date;
       messageType?: Message['type'];
+      segments?: MessageSegment[];
+      highPriority?: boolean;
+      selfId?: string;
     }
   ): Promise<ChatResponse> {
     const message = this.messageHandler.createMessage(userId, content, groupId, userName);
@@ -94,6 +110,18 @@ export class EnhancedChatAgent {
     if (options?.messageType) {
       message.type = options.messageType;
     }
+
+    if (options?.segments) {
+      message.segments = options.segments;
+    }
+
+    if (options?.highPriority) {
+      message.highPriority = true;
+    }
+
+    if (options?.selfId) {
+      message.selfId = options.selfId;
+    }
     
     logger.debug('Processing message', { 
       userId, 
@@ -193,6 +221,18 @@ export class EnhancedChatAgent {
 
       case command.startsWith('/stamina'):
         return this.handleStaminaCommand(command);
+
+      case command.startsWith('/usage'):
+        return this.handleUsageCommand(command);
+
+      case command.startsWith('/budget'):
+        return this.handleBudgetCommand(message, command);
+
+      case command.startsWith('/image'):
+        return this.handleImageCommand(message, command);
+
+      case command.startsWith('/recall'):
+        return this.handleRecallCommand(message, command);
       
       default:
         return {
@@ -220,7 +260,13 @@ export class EnhancedChatAgent {
       '/queue clear - 清空队列',
       '/stamina - 查看体力状态',
       '/stamina rest - 切换休息模式',
-      '/stamina set <数值> - 设置体力值'
+      '/stamina set <数值> - 设置体力值',
+      '/recall [条数] - 撤回机器人最近的回复',
+      '/usage [week] - 查看今日/近7天Token用量',
+      '/budget [群号|global] - 查看每日预算',
+      '/budget set <群号|global> <tokens|requests> <数值> - 设置每日预算(0为不限)',
+      '/budget reset <群号|global> - 恢复默认预算',
+      '/image [on|off] [群号] - 查看/切换群图片理解'
     ];
 
     return `管理员命令：\n${baseCommands.join('\n')}`;
@@ -245,6 +291,20 @@ export class EnhancedChatAgent {
                        staminaStatus.level === 'low' ? '💛' : '❤️';
     content += `\n${staminaIcon} 体力状态：${staminaStatus.current}/${staminaStatus.max} (${staminaStatus.percentage}%)`;
     content += `\n${staminaStatus.restMode ? '😴 休息模式：开启' : '😊 休息模式：关闭'}`;
+
+    if (this.llmProvider instanceof LLMFallbackChain) {
+      const chain = this.llmProvider.getStatus();
+      const coolingTiers = chain.tiers.filter(tier => !tier.available).length;
+      content += `\n🔗 当前模型：${chain.activeTier.provider}:${chain.activeTier.model}（第${chain.activeTier.index + 1}级/共${chain.tiers.length}级）`;
+      if (coolingTiers > 0) {
+        content += `\n🧊 冷却中的模型：${coolingTiers}个`;
+      }
+    }
+
+    if (config.ai.responseMode === 'json') {
+      const validation = getResponseValidationStats();
+      content += `\n🧾 输出校验：失败${validation.failures}次 / 修复${validation.repaired}次 / 放弃回复${validation.fallbacks}次`;
+    }
     
     return {
       content,
@@ -311,19 +371,47 @@ export class EnhancedChatAgent {
 
   // 以下方法沿用先前的命令处理逻辑
   private getConversationCount(): number {
-    return this.messageHandler['conversations'].size;
+    return this.messageHandler.getConversationCount();
   }
 
   private clearConversation(userId: string, groupId?: string): void {
     const conversationKey = groupId || userId;
-    this.messageHandler['conversations'].delete(conversationKey);
+    this.messageHandler.clearConversation(conversationKey);
+    ConversationSummarizer.getInstance().reset(conversationKey);
+    HistoryIndex.getInstance().clear(conversationKey);
     logger.info('Cleared conversation', { conversationKey });
   }
 
+  /**
+   * 处理用户撤回消息：从待处理队列中移除，并在会话历史中标记为已撤回
+   */
+  protected markMessageRecalled(messageId: string, userId: string, groupId?: string): boolean {
+    const removedFromQueue = this.messageQueueManager.removeMessage(messageId);
+    const markedInHistory = this.batchProcessor.markMessageDeleted(messageId, userId, groupId);
+
+    logger.info('🗑️ 消息已撤回', { messageId, userId, groupId, removedFromQueue, markedInHistory });
+    return removedFromQueue || markedInHistory;
+  }
+
+  /**
+   * 预览该会话下一次请求的提示词（不调用模型）
+   */
+  previewPrompt(contextId: string): PromptPreview {
+    return this.batchProcessor.previewPrompt(contextId);
+  }
+
+  /**
+   * 获取当前使用的大模型提供方
+   */
+  getLLMProvider(): LLMProvider {
+    return this.llmProvider;
+  }
+
   private handleApiKeysCommand(): ChatResponse {
-    const status = this.geminiClient.getApiKeyStatus();
+    const status = this.llmProvider.getApiKeyStatus();
     
     let content = '🔑 API Key状态报告\n\n';
+    content += `🧠 模型提供方：${this.llmProvider.name} (${this.llmProvider.model})\n`;
     content += `📊 总计：${status.totalKeys}个Key\n`;
     content += `✅ 可用：${status.availableKeys}个\n`;
     content += `🚫 阻断：${status.blockedKeys}个\n`;
@@ -360,7 +448,7 @@ export class EnhancedChatAgent {
     }
     
     const keyPreview = parts[1];
-    const success = this.geminiClient.resetApiKeyStatus(keyPreview);
+    const success = this.llmProvider.resetApiKeyStatus(keyPreview);
     
     if (success) {
       return {
@@ -377,9 +465,9 @@ export class EnhancedChatAgent {
 
   private handleSwitchKeyCommand(): ChatResponse {
     try {
-      const oldStatus = this.geminiClient.getApiKeyStatus();
-      this.geminiClient.forceKeySwitch();
-      const newStatus = this.geminiClient.getApiKeyStatus();
+      const oldStatus = this.llmProvider.getApiKeyStatus();
+      this.llmProvider.forceKeySwitch();
+      const newStatus = this.llmProvider.getApiKeyStatus();
       
       return {
         content: `🔄 API Key已强制切换\n从：${oldStatus.currentKey}\n到：${newStatus.currentKey}`,
@@ -462,6 +550,166 @@ export class EnhancedChatAgent {
     };
   }
 
+  /**
+   * 处理用量统计命令
+   */
+  private handleUsageCommand(command: string): ChatResponse {
+    const period = command.split(' ')[1]?.toLowerCase() === 'week' ? 'week' : 'day';
+    const summary = UsageLedger.getInstance().getSummary(period);
+    const formatTotals = (totals: UsageTotals) => {
+      let text = `${totals.totalTokens} tokens / ${totals.calls}次调用`;
+      if (totals.estimatedCost > 0) {
+        text += ` / $${totals.estimatedCost.toFixed(4)}`;
+      }
+      return text;
+    };
+
+    let content = `📊 Token用量（${period === 'week' ? `${summary.from} ~ ${summary.to}` : summary.to}）\n`;
+    content += `🔢 合计：${formatTotals(summary.totals)}\n`;
+    content += `📥 输入 ${summary.totals.promptTokens} / 📤 输出 ${summary.totals.completionTokens} / 💭 思考 ${summary.totals.thinkingTokens}`;
+
+    const cacheCalls = summary.totals.cacheHits + summary.totals.cacheMisses;
+    if (cacheCalls > 0) {
+      const hitRate = Math.round(summary.totals.cacheHits / cacheCalls * 100);
+      content += `\n🧊 缓存命中 ${summary.totals.cacheHits}/${cacheCalls}次 (${hitRate}%)，缓存输入 ${summary.totals.cachedTokens} tokens`;
+    }
+
+    if (summary.byContext.length > 0) {
+      content += '\n\n🏆 用量最高的会话：';
+      for (const item of summary.byContext.slice(0, 5)) {
+        content += `\n• ${item.contextId}：${formatTotals(item)}`;
+      }
+    }
+
+    if (summary.byModel.length > 0) {
+      content += '\n\n🧠 按模型：';
+      for (const item of summary.byModel) {
+        content += `\n• ${item.model}：${formatTotals(item)}`;
+      }
+    }
+
+    if (summary.byKey.length > 1) {
+      content += '\n\n🔑 按API Key：';
+      for (const item of summary.byKey) {
+        content += `\n• ${item.keyPreview}：${formatTotals(item)}`;
+      }
+    }
+
+    return {
+      content,
+      timestamp: new Date()
+    };
+  }
+
+  /**
+   * 处理每日预算命令
+   */
+  private handleBudgetCommand(message: Message, command: string): ChatResponse {
+    const parts = command.split(/\s+/);
+    const subCommand = parts[1];
+    const budgetManager = BudgetManager.getInstance();
+    const isValidScope = (scope?: string): scope is string =>
+      !!scope && (scope === GLOBAL_BUDGET_SCOPE || /^\d+$/.test(scope));
+
+    if (subCommand === 'set') {
+      const [, , scope, field, rawValue] = parts;
+      const value = parseInt(rawValue);
+      if (!isValidScope(scope) || (field !== 'tokens' && field !== 'requests') || isNaN(value) || value < 0) {
+        return {
+          content: '❌ 参数错误\n使用方法：/budget set <群号|global> <tokens|requests> <数值>',
+          timestamp: new Date()
+        };
+      }
+
+      budgetManager.setBudget(scope, field, value);
+      return {
+        content: `✅ 预算已更新\n${this.formatBudgetUsage(budgetManager.getUsage(scope))}`,
+        timestamp: new Date()
+      };
+    }
+
+    if (subCommand === 'reset') {
+      const scope = parts[2];
+      if (!isValidScope(scope)) {
+        return {
+          content: '❌ 参数错误\n使用方法：/budget reset <群号|global>',
+          timestamp: new Date()
+        };
+      }
+
+      const removed = budgetManager.resetBudget(scope);
+      return {
+        content: `${removed ? '✅ 已恢复默认预算' : '⚠️ 该范围没有通过命令设置的预算'}\n${this.formatBudgetUsage(budgetManager.getUsage(scope))}`,
+        timestamp: new Date()
+      };
+    }
+
+    if (isValidScope(subCommand)) {
+      return {
+        content: `💰 每日预算\n${this.formatBudgetUsage(budgetManager.getUsage(subCommand))}`,
+        timestamp: new Date()
+      };
+    }
+
+    const { global, groups } = budgetManager.getAllUsage();
+    let content = `💰 每日预算\n${this.formatBudgetUsage(global)}`;
+
+    const currentGroup = message.groupId && !groups.some(item => item.scope === message.groupId)
+      ? [budgetManager.getUsage(message.groupId)]
+      : [];
+    for (const usage of [...currentGroup, ...groups]) {
+      content += `\n${this.formatBudgetUsage(usage)}`;
+    }
+
+    return {
+      content,
+      timestamp: new Date()
+    };
+  }
+
+  private formatBudgetUsage(usage: BudgetUsage): string {
+    const formatLimit = (used: number, limit: number) => limit > 0 ? `${used}/${limit}` : `${used}/不限`;
+    const label = usage.scope === GLOBAL_BUDGET_SCOPE ? '🌐 全局' : `👥 群${usage.scope}`;
+    const state = usage.ratio >= 1 ? '⛔ 已用完'
+      : usage.ratio >= config.budget.throttleRatio ? '🐢 限流中'
+      : '✅ 正常';
+
+    return `${label}${usage.overridden ? '(命令设置)' : ''}：${formatLimit(usage.usedTokens, usage.budget.tokens)} tokens，` +
+      `${formatLimit(usage.usedRequests, usage.budget.requests)} 次请求，${Math.round(usage.ratio * 100)}% ${state}`;
+  }
+
+  /**
+   * 处理图片理解开关命令，未指定群号时作用于当前群
+   */
+  private handleImageCommand(message: Message, command: string): ChatResponse {
+    const [, action, targetGroup] = command.split(/\s+/);
+    const groupId = targetGroup || message.groupId;
+
+    if (action === 'on' || action === 'off') {
+      if (!groupId || !/^\d+$/.test(groupId)) {
+        return {
+          content: '❌ 请在群聊中使用或指定群号\n使用方法：/image <on|off> [群号]',
+          timestamp: new Date()
+        };
+      }
+
+      this.botStateManager.setImageUnderstanding(groupId, action === 'on');
+      return {
+        content: action === 'on' ? `🖼️ 已开启群${groupId}的图片理解` : `🚫 已关闭群${groupId}的图片理解`,
+        timestamp: new Date()
+      };
+    }
+
+    const enabled = this.botStateManager.isImageUnderstandingEnabled(groupId);
+    const scope = groupId ? `群${groupId}` : '私聊';
+    return {
+      content: `🖼️ ${scope}图片理解：${enabled ? '开启' : '关闭'}\n` +
+        `默认：${config.images.enabled ? '全部开启' : '关闭'}` +
+        (config.images.groups.length > 0 ? `，单独开启的群：${config.images.groups.join(', ')}` : ''),
+      timestamp: new Date()
+    };
+  }
+
   /**
    * 处理体力相关命令
    */
@@ -527,6 +775,16 @@ export class EnhancedChatAgent {
     }
   }
 
+  /**
+   * 撤回机器人最近的回复，具体实现依赖消息通道
+   */
+  protected async handleRecallCommand(message: Message, command: string): Promise<ChatResponse> {
+    return {
+      content: '❌ 当前运行模式不支持撤回消息',
+      timestamp: new Date()
+    };
+  }
+
   private getStaminaLevelEmoji(level: string): string {
     switch (level) {
       case 'high': return '💚';
@@ -545,8 +803,14 @@ export class EnhancedChatAgent {
       await this.messageQueueManager.shutdown();
     }
     
-    // 清理传统组件资源
-    this.messageHandler['conversations'].clear();
+    // 等待会话历史、摘要、长期记忆和用量账本写入磁盘
+    await Promise.all([
+      this.messageHandler.flush(),
+      ConversationSummarizer.getInstance().flush(),
+      HistoryIndex.getInstance().flush(),
+      MemoryManager.getInstance().flush(),
+      UsageLedger.getInstance().flush()
+    ]);
     
     logger.info('EnhancedChatAgent shutdown complete');
   }
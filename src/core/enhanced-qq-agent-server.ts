@@ -1,12 +1,38 @@
 import { EnhancedChatAgent } from './enhanced-agent';
 import { WSServer } from './ws-server';
+import { HttpTransport } from './http-transport';
+import { OneBotTransport } from './onebot-transport';
 import { QQMessageAdapter } from './qq-adapter';
-import { QQMessage } from './qq-types';
+import {
+  QQMessage,
+  OneBotActionResponse,
+  OneBotSendMessageResult,
+  QQGroupIncreaseNotice,
+  QQGroupDecreaseNotice,
+  QQGroupRecallNotice,
+  QQFriendRecallNotice,
+  QQPokeNotice,
+  QQFriendRequest,
+  QQGroupRequest
+} from './qq-types';
+import { QQEventRegistry } from './qq-event-registry';
+import { isActionSuccessful, isRetryableActionFailure, describeActionFailure, ActionOutcomeUnknownError } from './onebot-action';
+import { buildOutgoingSegments } from './outgoing-message';
 import { logger } from '../utils/logger';
 import { config } from '../utils/config';
 import { appendThinkingLog } from '../utils/thinking-logger';
-import { TaskQueue, SendMessageTaskPayload, StoreMemoryTaskPayload } from './task-queue';
-import { ChatResponse, ChatTask, ThinkingTask, ToolCallInfo } from './types';
+import { WhitelistManager } from '../utils/whitelist-manager';
+import {
+  TaskQueue,
+  SendMessageTaskPayload,
+  StoreMemoryTaskPayload,
+  SummarizeConversationTaskPayload,
+  NonRetryableTaskError
+} from './task-queue';
+import { SentMessageTracker, SentMessageRecord } from './sent-message-tracker';
+import { ImageResolver } from './image-resolver';
+import { ChatResponse, ChatTask, Message, ThinkingTask, ToolCallInfo } from './types';
+import { BudgetExhaustedEvent, EarlyReplyEvent } from './message-queue-types';
 
 /**
  * 增强型QQ聊天代理服务器
@@ -14,8 +40,15 @@ import { ChatResponse, ChatTask, ThinkingTask, ToolCallInfo } from './types';
  * 基于队列模式的统一实现，负责对接 NapCat WebSocket 并驱动异步批量回复。
  */
 export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
-  private wsServer: WSServer;
+  private transport: OneBotTransport;
   private readonly taskQueue: TaskQueue;
+  // 会话摘要需要调用模型，单独排队以免阻塞消息发送
+  private readonly summaryQueue: TaskQueue;
+  private readonly sentMessageTracker: SentMessageTracker;
+  private readonly eventRegistry: QQEventRegistry;
+
+  // 单次 /recall 最多撤回的消息数
+  private readonly MAX_RECALL_COUNT = 10;
 
   // 用于跟踪异步回复
   private pendingReplies: Map<string, {
@@ -26,6 +59,13 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
   // 清理过期的 pending replies (30分钟)
   private readonly PENDING_REPLY_TIMEOUT = 30 * 60 * 1000;
 
+  // 流式提前发送的回复目标（按批次消息ID缓存，首条发送后 pending 记录会被移除）
+  private earlyReplyTargets: Map<string, {
+    primaryPending: { messageId: string; qqMessage: QQMessage };
+    associatedMessageIds: string[];
+    timestamp: number;
+  }> = new Map();
+
   constructor() {
     super({
       botName: config.botName,
@@ -34,8 +74,15 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
       maxQueueAgeSeconds: config.messageQueue.maxQueueAgeSeconds
     });
 
-    this.wsServer = new WSServer();
+    this.transport = config.onebot.transport === 'http' ? new HttpTransport() : new WSServer();
     this.taskQueue = new TaskQueue();
+    this.summaryQueue = new TaskQueue();
+    this.sentMessageTracker = new SentMessageTracker();
+    this.eventRegistry = new QQEventRegistry();
+    this.batchProcessor.setImageResolver(new ImageResolver(this.transport));
+    // 模型客户端自身已带重试，摘要任务失败后不再重复入队
+    this.batchProcessor.setSummaryScheduler(payload => this.summaryQueue.enqueue('summarize_conversation', payload, { maxAttempts: 1 }));
+    this.registerEventHandlers();
     this.setupMessageHandling();
     this.setupQueueCallbacks();
     this.registerTaskHandlers();
@@ -60,13 +107,18 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
     return true;
   }
 
-  // 获取WebSocket服务器实例，用于HTTP服务器集成
-  getWSServer(): WSServer {
-    return this.wsServer;
+  // 获取OneBot传输实例（WebSocket或HTTP），用于HTTP服务器集成
+  getTransport(): OneBotTransport {
+    return this.transport;
+  }
+
+  // 获取通知/请求事件注册表，用于注册额外的事件处理器
+  getEventRegistry(): QQEventRegistry {
+    return this.eventRegistry;
   }
 
   private setupMessageHandling(): void {
-    this.wsServer.onMessage(async (qqMessage: QQMessage) => {
+    this.transport.onMessage(async (qqMessage: QQMessage) => {
       try {
         await this.handleQQMessage(qqMessage);
       } catch (error) {
@@ -75,11 +127,24 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
     });
 
     // 监听其他事件（如群成员变动、好友申请等）
-    this.wsServer.onEvent((event) => {
+    this.transport.onEvent(async (event) => {
       logger.debug('Received QQ event', { type: event.post_type, event });
+      await this.eventRegistry.dispatch(event);
     });
   }
 
+  private registerEventHandlers(): void {
+    this.eventRegistry.register<QQGroupIncreaseNotice>('notice.group_increase', event => this.handleGroupIncrease(event));
+    this.eventRegistry.register<QQGroupDecreaseNotice>('notice.group_decrease', event => {
+      logger.info(`👋 群成员减少 - 群:${event.group_id} 用户:${event.user_id} 类型:${event.sub_type}`);
+    });
+    this.eventRegistry.register<QQGroupRecallNotice>('notice.group_recall', event => this.handleRecallNotice(event));
+    this.eventRegistry.register<QQFriendRecallNotice>('notice.friend_recall', event => this.handleRecallNotice(event));
+    this.eventRegistry.register<QQPokeNotice>('notice.notify.poke', event => this.handlePoke(event));
+    this.eventRegistry.register<QQFriendRequest>('request.friend', event => this.handleFriendRequest(event));
+    this.eventRegistry.register<QQGroupRequest>('request.group.invite', event => this.handleGroupInvite(event));
+  }
+
   private setupQueueCallbacks(): void {
     // 重写父类的队列事件监听器以支持回传
     const originalListener = this.createQueueEventListener();
@@ -93,7 +158,9 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
 
         // 处理队列结果回传
         await this.handleQueueFlushResult(result);
-      }
+      },
+      onReplyReady: (event: EarlyReplyEvent) => this.handleEarlyReply(event),
+      onBudgetExhausted: (event: BudgetExhaustedEvent) => this.handleBudgetExhausted(event)
     };
 
     // 更新队列管理器的事件监听器
@@ -108,34 +175,81 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
       const { target, message, metadata } = payload;
       const qqMessage = metadata?.qqMessage as QQMessage | undefined;
       const pendingMessageId = metadata?.pendingMessageId as string | undefined;
+      const contextId = metadata?.contextId as string | undefined;
+      const associatedMessageIds = metadata?.associatedMessageIds as string[] | undefined;
+
+      let response: OneBotActionResponse<OneBotSendMessageResult>;
+      const action = target.groupId ? 'send_group_msg' : 'send_private_msg';
 
-      let success = false;
+      // 模型文本只作为 text 段发送，at/reply 由这里按 target 添加
+      const segments = buildOutgoingSegments(message, {
+        atUser: target.groupId ? target.atUser : undefined,
+        replyTo: target.replyTo
+      });
+
+      // 多账号时从接收消息的账号发出
+      const sendOptions = { selfId: target.selfId };
+
+      if (!target.groupId && !target.userId) {
+        throw new NonRetryableTaskError('Invalid message target');
+      }
 
       try {
-        if (target.groupId) {
-          success = await this.wsServer.sendGroupMessage(target.groupId, message, target.atUser);
-        } else if (target.userId) {
-          success = await this.wsServer.sendPrivateMessage(target.userId, message);
-        } else {
-          throw new Error('Invalid message target');
-        }
+        response = target.groupId
+          ? await this.transport.sendGroupMessage(target.groupId, segments, sendOptions)
+          : await this.transport.sendPrivateMessage(target.userId!, segments, sendOptions);
       } catch (error) {
-        throw error instanceof Error ? error : new Error(String(error));
+        // 请求已发出但结果未知，消息可能已送达，重试会导致重复发送
+        if (error instanceof ActionOutcomeUnknownError) {
+          throw new NonRetryableTaskError(error.message);
+        }
+        throw error;
       }
 
-      if (!success) {
-        throw new Error('Failed to deliver message via WebSocket server');
+      if (!isActionSuccessful(response)) {
+        const failure = describeActionFailure(action, response);
+        if (!isRetryableActionFailure(response)) {
+          throw new NonRetryableTaskError(failure);
+        }
+        throw new Error(failure);
       }
 
       if (pendingMessageId) {
         this.removePendingReply(pendingMessageId);
       }
 
+      const sentMessageId = response.data?.message_id;
+      if (typeof sentMessageId === 'number') {
+        this.sentMessageTracker.record({
+          messageId: sentMessageId,
+          groupId: target.groupId,
+          userId: target.groupId ? undefined : target.userId,
+          selfId: target.selfId,
+          contextId,
+          pendingMessageIds: associatedMessageIds ?? (pendingMessageId ? [pendingMessageId] : []),
+          text: message,
+          source: contextId ? 'batch' : 'command'
+        });
+      }
+
+      // 只有模型回复进入会话历史，命令回复不记录
+      if (contextId) {
+        this.batchProcessor.recordDeliveredReply({
+          messageId: typeof sentMessageId === 'number' ? String(sentMessageId) : undefined,
+          groupId: target.groupId ? String(target.groupId) : undefined,
+          userId: target.userId !== undefined ? String(target.userId) : undefined,
+          segments,
+          selfId: target.selfId !== undefined ? String(target.selfId) : undefined
+        });
+      }
+
       logger.info('✅ 消息发送完成', {
         target,
         message: message,
         messageLength: message.length,
         qqMessageId: qqMessage?.message_id,
+        sentMessageId,
+        contextId,
         taskId: task.id,
         attempts: task.attempts
       });
@@ -163,6 +277,84 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
         });
       }
     });
+
+    this.summaryQueue.registerHandler('summarize_conversation', async task => {
+      const payload = task.payload as SummarizeConversationTaskPayload;
+      await this.batchProcessor.summarizeConversation(payload);
+    });
+  }
+
+  /**
+   * 流式生成过程中提前发送单条回复
+   */
+  private async handleEarlyReply(event: EarlyReplyEvent): Promise<void> {
+    const batchKey = event.messageIds.join(',');
+    let target = this.earlyReplyTargets.get(batchKey);
+
+    if (!target) {
+      const pendingReplies = this.getPendingRepliesForMessages(event.messageIds);
+      const primaryPending = pendingReplies[pendingReplies.length - 1];
+      if (!primaryPending) {
+        throw new Error('找不到对应的待处理回复');
+      }
+
+      target = {
+        primaryPending,
+        associatedMessageIds: pendingReplies.map(item => item.messageId),
+        timestamp: Date.now()
+      };
+      this.earlyReplyTargets.set(batchKey, target);
+    }
+
+    // 引用回复只作用于第一条消息
+    const toolCalls = event.reply.index === 0
+      ? event.reply.toolCalls
+      : event.reply.toolCalls.filter(call => call.name !== 'quote_message');
+
+    const replyText = QQMessageAdapter.formatReply(
+      { content: event.reply.content, timestamp: new Date() },
+      target.primaryPending.qqMessage
+    );
+
+    await this.sendReply(target.primaryPending.qqMessage, replyText, target.primaryPending.messageId, toolCalls, {
+      contextId: event.contextId,
+      associatedMessageIds: target.associatedMessageIds
+    });
+  }
+
+  /**
+   * 当日预算用完：释放这批消息的待处理回复，首次触发时发送一次提示
+   */
+  private async handleBudgetExhausted(event: BudgetExhaustedEvent): Promise<void> {
+    const pendingReplies = this.getPendingRepliesForMessages(event.messageIds);
+    const primaryPending = pendingReplies[pendingReplies.length - 1];
+
+    for (const pending of pendingReplies) {
+      if (!event.notice || pending !== primaryPending) {
+        this.removePendingReply(pending.messageId);
+      }
+    }
+
+    if (!event.notice || !primaryPending) {
+      return;
+    }
+
+    logger.info('💤 发送预算用完提示', {
+      contextId: event.contextId,
+      notice: event.notice
+    });
+
+    try {
+      await this.sendReply(primaryPending.qqMessage, event.notice, primaryPending.messageId, undefined, {
+        contextId: event.contextId,
+        associatedMessageIds: pendingReplies.map(item => item.messageId)
+      });
+    } catch (error) {
+      logger.warn('⚠️ 预算用完提示发送失败', {
+        contextId: event.contextId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
   }
 
   /**
@@ -170,6 +362,7 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
    */
   private async handleQueueFlushResult(result: any): Promise<void> {
     if (!result.processed || !result.response || result.response.skipReply) {
+      this.takeEarlyReplyTarget(result.response?.messageIds ?? []);
       logger.debug('📦 队列处理完成但无需发送回复', {
         processed: result.processed,
         skipReply: result.response?.skipReply || false,
@@ -178,14 +371,22 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
       return;
     }
 
-    const response = result.response as ChatResponse;
-    const chatTasks = this.normalizeChatTasks(response);
-
     // 从批处理结果中提取消息ID（需要从BatchMessageProcessor传递）
     const messageIds = this.extractMessageIdsFromResult(result);
+    const earlyTarget = this.takeEarlyReplyTarget(messageIds);
+
+    const dispatchedReplies = result.response.dispatchedReplies ?? [];
+    // 已提前发送过回复时，剩余回复不再重复引用
+    const response: ChatResponse = dispatchedReplies.length > 0
+      ? { ...result.response, toolCalls: result.response.toolCalls?.filter((call: ToolCallInfo) => call.name !== 'quote_message') }
+      : result.response;
+    const chatTasks = this.excludeDispatchedReplies(this.normalizeChatTasks(response), dispatchedReplies);
 
-    // 获取对应的pending replies
+    // 获取对应的pending replies；提前发送后主消息的 pending 记录可能已被移除
     const pendingReplies = this.getPendingRepliesForMessages(messageIds);
+    if (earlyTarget && !pendingReplies.some(item => item.messageId === earlyTarget.primaryPending.messageId)) {
+      pendingReplies.push(earlyTarget.primaryPending);
+    }
 
     if (pendingReplies.length === 0) {
       logger.warn('📦 队列处理完成但找不到对应的待处理回复', {
@@ -214,6 +415,7 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
       messageCount: pendingReplies.length,
       replyCount: replyTasks.length,
       replyMessageCount,
+      dispatchedEarly: dispatchedReplies.length,
       tokensUsed: response.tokensUsed || 0,
       messages: result.messages
     });
@@ -221,6 +423,14 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
     await this.enqueueChatTasks(chatTasks, pendingReplies, response, result.contextId);
   }
 
+  // 取出并移除该批次的提前发送目标
+  private takeEarlyReplyTarget(messageIds: string[]) {
+    const batchKey = messageIds.join(',');
+    const target = this.earlyReplyTargets.get(batchKey);
+    this.earlyReplyTargets.delete(batchKey);
+    return target;
+  }
+
   /**
    * 从批处理结果中提取消息ID
    */
@@ -289,6 +499,32 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
     return tasks;
   }
 
+  // 移除流式生成时已提前发送的回复，思维链任务保持不变
+  private excludeDispatchedReplies(tasks: ChatTask[], dispatchedReplies: string[]): ChatTask[] {
+    if (dispatchedReplies.length === 0) {
+      return tasks;
+    }
+
+    const remaining = [...dispatchedReplies];
+    return tasks
+      .map(task => {
+        if (task.type !== 'reply') {
+          return task;
+        }
+
+        const content = task.content.filter(reply => {
+          const index = remaining.indexOf(reply.trim());
+          if (index === -1) {
+            return true;
+          }
+          remaining.splice(index, 1);
+          return false;
+        });
+        return content.length > 0 ? { type: 'reply' as const, content } : null;
+      })
+      .filter((task): task is ChatTask => task !== null);
+  }
+
   private async enqueueChatTasks(
     tasks: ChatTask[],
     pendingReplies: Array<{ messageId: string; qqMessage: QQMessage }>,
@@ -314,7 +550,12 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
         continue;
       }
 
-      for (const replyContent of task.content) {
+      for (const [index, replyContent] of task.content.entries()) {
+        // 引用回复只作用于第一条消息，避免多条回复重复引用同一消息
+        const replyToolCalls = index === 0
+          ? response.toolCalls
+          : response.toolCalls?.filter(call => call.name !== 'quote_message');
+
         try {
           const replyPayload: ChatResponse = {
             content: replyContent,
@@ -324,7 +565,10 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
           };
 
           const replyText = QQMessageAdapter.formatReply(replyPayload, primaryPending.qqMessage);
-          await this.sendReply(primaryPending.qqMessage, replyText, primaryPending.messageId, response.toolCalls);
+          await this.sendReply(primaryPending.qqMessage, replyText, primaryPending.messageId, replyToolCalls, {
+            contextId,
+            associatedMessageIds
+          });
         } catch (error) {
           logger.error(`❌ 队列回复发送失败 - ID:${primaryPending.qqMessage.message_id}`, error);
           await this.notifyAdminError(primaryPending.qqMessage, error);
@@ -414,7 +658,9 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
         {
           messageId: message.id,
           timestamp: message.timestamp,
-          messageType: message.type
+          messageType: message.type,
+          segments: message.segments,
+          selfId: message.selfId
         }
       );
 
@@ -446,6 +692,183 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
     }
   }
 
+  /**
+   * 新成员入群：通过队列让机器人按人设欢迎
+   */
+  private async handleGroupIncrease(event: QQGroupIncreaseNotice): Promise<void> {
+    if (!config.events.welcomeNewMembers || event.user_id === event.self_id) {
+      return;
+    }
+
+    if (!WhitelistManager.getInstance().isGroupAllowed(event.group_id, event.self_id)) {
+      return;
+    }
+
+    logger.info(`🎉 新成员入群 - 群:${event.group_id} 用户:${event.user_id}`);
+    await this.enqueueEventMessage({
+      kind: 'welcome',
+      userId: event.user_id,
+      groupId: event.group_id,
+      selfId: event.self_id,
+      time: event.time,
+      content: `[入群通知] 新成员 用户${event.user_id} 加入了群聊，请按你的人设欢迎TA`
+    });
+  }
+
+  /**
+   * 消息撤回：从队列和会话历史中移除用户消息，或标记机器人消息已撤回
+   */
+  private handleRecallNotice(event: QQGroupRecallNotice | QQFriendRecallNotice): void {
+    if (event.user_id === event.self_id) {
+      this.sentMessageTracker.markRecalled(event.message_id);
+      return;
+    }
+
+    const messageId = String(event.message_id);
+    const groupId = event.notice_type === 'group_recall' ? String(event.group_id) : undefined;
+
+    if (this.markMessageRecalled(messageId, String(event.user_id), groupId)) {
+      this.removePendingReply(messageId);
+    }
+  }
+
+  /**
+   * 戳一戳机器人：作为高优先级消息立即触发回复
+   */
+  private async handlePoke(event: QQPokeNotice): Promise<void> {
+    if (!config.events.pokeTrigger || event.target_id !== event.self_id || event.user_id === event.self_id) {
+      return;
+    }
+
+    const whitelist = WhitelistManager.getInstance();
+    const allowed = event.group_id
+      ? whitelist.isGroupAllowed(event.group_id, event.self_id)
+      : whitelist.isPrivateMessageAllowed(event.user_id);
+    if (!allowed) {
+      return;
+    }
+
+    logger.info(`👉 收到戳一戳 - 用户:${event.user_id}${event.group_id ? ` 群:${event.group_id}` : ''}`);
+    await this.enqueueEventMessage({
+      kind: 'poke',
+      userId: event.user_id,
+      groupId: event.group_id,
+      selfId: event.self_id,
+      time: event.time,
+      content: `[戳一戳] 用户${event.user_id} 戳了戳你`,
+      highPriority: true
+    });
+  }
+
+  private async handleFriendRequest(event: QQFriendRequest): Promise<void> {
+    if (config.events.autoApproveFriendRequests) {
+      await this.approveRequest('set_friend_add_request', { flag: event.flag, approve: true }, `好友申请 用户:${event.user_id}`, event.self_id);
+      return;
+    }
+
+    await this.forwardToAdmin(`👋 收到好友申请\n\n` +
+      `👤 用户: ${event.user_id}\n` +
+      `💬 验证信息: ${event.comment || '无'}\n` +
+      `🔑 flag: ${event.flag}`, event.self_id);
+  }
+
+  private async handleGroupInvite(event: QQGroupRequest): Promise<void> {
+    if (config.events.autoApproveGroupInvites) {
+      await this.approveRequest(
+        'set_group_add_request',
+        { flag: event.flag, sub_type: 'invite', approve: true },
+        `入群邀请 群:${event.group_id} 邀请人:${event.user_id}`,
+        event.self_id
+      );
+      return;
+    }
+
+    await this.forwardToAdmin(`📨 收到入群邀请\n\n` +
+      `👥 群号: ${event.group_id}\n` +
+      `👤 邀请人: ${event.user_id}\n` +
+      `🔑 flag: ${event.flag}`, event.self_id);
+  }
+
+  private async approveRequest(
+    action: string,
+    params: Record<string, unknown>,
+    description: string,
+    selfId?: number
+  ): Promise<void> {
+    try {
+      const response = await this.transport.callAction(action, params, { selfId });
+      if (isActionSuccessful(response)) {
+        logger.info(`✅ 已自动同意${description}`);
+      } else {
+        logger.warn(`⚠️ 自动同意失败: ${describeActionFailure(action, response)}`);
+      }
+    } catch (error) {
+      logger.error(`❌ 自动同意${description}失败`, error);
+    }
+  }
+
+  private async forwardToAdmin(message: string, selfId?: number): Promise<void> {
+    const adminUserId = this.getAdminUserId();
+
+    try {
+      const response = await this.transport.sendPrivateMessage(adminUserId, message, { selfId });
+      if (!isActionSuccessful(response)) {
+        logger.warn(`⚠️ 向管理员(${adminUserId})转发事件失败`);
+      }
+    } catch (error) {
+      logger.error('向管理员转发事件失败', error);
+    }
+  }
+
+  /**
+   * 将通知事件包装为合成消息送入队列，复用人设与批量回复流程
+   */
+  private async enqueueEventMessage(event: {
+    kind: string;
+    userId: number;
+    groupId?: number;
+    selfId?: number;
+    time: number;
+    content: string;
+    highPriority?: boolean;
+  }): Promise<void> {
+    const messageId = `${event.kind}_${event.time}_${event.userId}`;
+    const qqMessage: QQMessage = {
+      post_type: 'message',
+      message_type: event.groupId ? 'group' : 'private',
+      message_id: 0,
+      user_id: event.userId,
+      message: event.content,
+      raw_message: event.content,
+      font: 0,
+      sender: { user_id: event.userId, nickname: `用户${event.userId}` },
+      time: event.time,
+      group_id: event.groupId,
+      self_id: event.selfId
+    };
+
+    this.addToPendingReplies(messageId, qqMessage);
+
+    try {
+      await this.processMessage(
+        String(event.userId),
+        event.content,
+        event.groupId ? String(event.groupId) : undefined,
+        qqMessage.sender.nickname,
+        {
+          messageId,
+          timestamp: new Date(event.time * 1000),
+          messageType: 'text',
+          highPriority: event.highPriority,
+          selfId: qqMessage.self_id !== undefined ? String(qqMessage.self_id) : undefined
+        }
+      );
+    } catch (error) {
+      logger.error(`❌ 事件消息处理失败 - ${messageId}`, error);
+      this.removePendingReply(messageId);
+    }
+  }
+
   /**
    * 将消息添加到待处理回复队列
    */
@@ -501,6 +924,13 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
       logger.warn(`⏰ 清理过期的待处理回复 - ID:${key}`);
     }
 
+    // 处理失败的批次不会走到 handleQueueFlushResult，这里一并清理提前发送目标
+    for (const [batchKey, target] of this.earlyReplyTargets.entries()) {
+      if (now - target.timestamp > this.PENDING_REPLY_TIMEOUT) {
+        this.earlyReplyTargets.delete(batchKey);
+      }
+    }
+
     if (expiredKeys.length > 0) {
       logger.info(`🧹 清理了 ${expiredKeys.length} 个过期的待处理回复`);
     }
@@ -525,7 +955,13 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
     return results;
   }
 
-  private async sendReply(qqMessage: QQMessage, replyText: string, pendingMessageId: string, toolCalls?: ToolCallInfo[]): Promise<void> {
+  private async sendReply(
+    qqMessage: QQMessage,
+    replyText: string,
+    pendingMessageId: string,
+    toolCalls?: ToolCallInfo[],
+    batchInfo?: { contextId?: string; associatedMessageIds?: string[] }
+  ): Promise<void> {
     const isGroup = qqMessage.message_type === 'group';
 
     // 从工具调用中提取@用户信息
@@ -541,17 +977,34 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
       }
     }
 
+    // 从工具调用中提取引用回复的消息ID
+    let replyTo: number | undefined;
+    const quoteTool = toolCalls?.find(call => call.name === 'quote_message' && call.result?.action === 'quote');
+    if (quoteTool && quoteTool.result?.messageId) {
+      replyTo = quoteTool.result.messageId;
+      logger.info('🔧 从工具调用中提取引用回复', {
+        messageId: replyTo,
+        reason: quoteTool.result.reason
+      });
+    }
+
     const payload: SendMessageTaskPayload = {
       target: isGroup && qqMessage.group_id ? {
         groupId: qqMessage.group_id,
-        atUser
+        atUser,
+        replyTo,
+        selfId: qqMessage.self_id
       } : {
-        userId: qqMessage.user_id
+        userId: qqMessage.user_id,
+        replyTo,
+        selfId: qqMessage.self_id
       },
       message: replyText,
       metadata: {
         qqMessage,
-        pendingMessageId
+        pendingMessageId,
+        contextId: batchInfo?.contextId,
+        associatedMessageIds: batchInfo?.associatedMessageIds
       }
     };
 
@@ -609,8 +1062,12 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
     }
   }
 
+  private getAdminUserId(): number {
+    return parseInt(process.env.ADMIN_USER_ID || '2945791077');
+  }
+
   private async notifyAdminError(qqMessage: QQMessage, error: any): Promise<void> {
-    const adminUserId = parseInt(process.env.ADMIN_USER_ID || '2945791077');
+    const adminUserId = this.getAdminUserId();
 
     // 构建错误详情消息
     const userDisplayName = qqMessage.sender?.nickname || `用户${qqMessage.user_id}`;
@@ -629,11 +1086,11 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
       `🔍 错误详情:\n${error?.stack || '无堆栈信息'}`;
 
     try {
-      const success = await this.wsServer.sendPrivateMessage(adminUserId, errorMessage);
-      if (success) {
+      const response = await this.transport.sendPrivateMessage(adminUserId, errorMessage, { selfId: qqMessage.self_id });
+      if (isActionSuccessful(response)) {
         logger.info(`📨 已向管理员(${adminUserId})发送错误报告`);
       } else {
-        logger.warn(`⚠️  向管理员发送错误报告失败 - 连接状态:${this.wsServer.isConnected()}`);
+        logger.warn(`⚠️  向管理员发送错误报告失败 - 连接状态:${this.transport.isConnected()}`);
       }
     } catch (notifyError) {
       logger.error('向管理员发送错误通知失败', notifyError);
@@ -642,10 +1099,10 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
 
   // 获取连接状态
   getConnectionStatus(): { websocket: boolean; ai: boolean; connections: any } {
-    const connectionInfo = this.wsServer.getConnectionInfo();
+    const connectionInfo = this.transport.getConnectionInfo();
 
     return {
-      websocket: this.wsServer.isConnected(),
+      websocket: this.transport.isConnected(),
       ai: true, // 假设AI连接正常，实际可以添加更详细的检查
       connections: connectionInfo
     };
@@ -655,9 +1112,9 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
   async sendMessage(target: { userId?: number; groupId?: number }, message: string): Promise<boolean> {
     try {
       if (target.groupId) {
-        return await this.wsServer.sendGroupMessage(target.groupId, message);
+        return isActionSuccessful(await this.transport.sendGroupMessage(target.groupId, message));
       } else if (target.userId) {
-        return await this.wsServer.sendPrivateMessage(target.userId, message);
+        return isActionSuccessful(await this.transport.sendPrivateMessage(target.userId, message));
       }
       return false;
     } catch (error) {
@@ -666,12 +1123,92 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
     }
   }
 
+  /**
+   * 通过 OneBot delete_msg 撤回指定消息
+   */
+  async recallMessage(messageId: number): Promise<{ success: boolean; error?: string; record?: SentMessageRecord }> {
+    try {
+      // 撤回需由发送该消息的账号执行
+      const selfId = this.sentMessageTracker.find(messageId)?.selfId;
+      const response = await this.transport.callAction('delete_msg', { message_id: messageId }, { selfId });
+
+      if (!isActionSuccessful(response)) {
+        const failure = describeActionFailure('delete_msg', response);
+        logger.warn('⚠️ 消息撤回失败', { messageId, retcode: response.retcode });
+        return { success: false, error: failure };
+      }
+
+      this.sentMessageTracker.markRecalled(messageId);
+      const record = this.sentMessageTracker.find(messageId);
+
+      logger.info('↩️ 消息已撤回', {
+        messageId,
+        contextId: record?.contextId,
+        pendingMessageIds: record?.pendingMessageIds
+      });
+
+      return { success: true, record };
+    } catch (error) {
+      logger.error('撤回消息失败', { messageId, error: error instanceof Error ? error.message : String(error) });
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * 撤回当前会话中机器人最近的n条回复
+   */
+  protected async handleRecallCommand(message: Message, command: string): Promise<ChatResponse> {
+    const requested = parseInt(command.split(' ')[1] ?? '1', 10);
+
+    if (Number.isNaN(requested) || requested <= 0) {
+      return {
+        content: `❌ 使用方法：/recall [条数]，条数范围 1-${this.MAX_RECALL_COUNT}`,
+        timestamp: new Date()
+      };
+    }
+
+    const count = Math.min(requested, this.MAX_RECALL_COUNT);
+    const target = message.groupId
+      ? { groupId: parseInt(message.groupId, 10) }
+      : { userId: parseInt(message.userId, 10) };
+    const records = this.sentMessageTracker.getRecent(target, count, { source: 'batch' });
+
+    if (records.length === 0) {
+      return {
+        content: '⚠️ 没有找到可撤回的机器人回复',
+        timestamp: new Date()
+      };
+    }
+
+    let recalled = 0;
+    const failures: string[] = [];
+
+    for (const record of records) {
+      const result = await this.recallMessage(record.messageId);
+      if (result.success) {
+        recalled++;
+      } else {
+        failures.push(`#${record.messageId}: ${result.error}`);
+      }
+    }
+
+    let content = `↩️ 已撤回 ${recalled}/${records.length} 条机器人回复`;
+    if (failures.length > 0) {
+      content += `\n${failures.join('\n')}`;
+    }
+
+    return {
+      content,
+      timestamp: new Date()
+    };
+  }
+
   // 广播消息到所有连接（管理功能）
   async broadcastToAllConnections(message: string): Promise<boolean> {
     logger.info('Broadcasting message to all connections', { messageLength: message.length });
     // 这里可以实现向所有活跃的群聊发送消息的逻辑
     // 暂时返回连接状态
-    return this.wsServer.isConnected();
+    return this.transport.isConnected();
   }
 
   // 优雅关闭
@@ -679,12 +1216,14 @@ export class EnhancedQQChatAgentServer extends EnhancedChatAgent {
     logger.info('Shutting down Enhanced QQ Chat Agent Server...');
 
     try {
-      await this.taskQueue.shutdown();
-      await this.wsServer.close();
+      await Promise.all([this.taskQueue.shutdown(), this.summaryQueue.shutdown()]);
+      await this.transport.close();
       await super.shutdown();
 
       // 清理待处理的回复
       this.pendingReplies.clear();
+      this.sentMessageTracker.clear();
+      this.eventRegistry.clear();
 
       logger.info('Enhanced QQ Chat Agent Server shutdown complete');
     } catch (error) {
@@ -0,0 +1,243 @@
+import { Message } from './types';
+import { ConversationStore, FileConversationStore, MemoryConversationStore, StoredConversation } from './conversation-store';
+import { GeminiEmbedder } from '../ai/gemini-embedder';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+export interface HistorySearchOptions {
+  limit?: number;
+  // 只检索最近若干天的消息
+  withinDays?: number;
+}
+
+export interface HistorySearchResult {
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  time: string;
+  content: string;
+  score: number;
+}
+
+// 单条消息的词频统计
+interface TermStats {
+  terms: Map<string, number>;
+  length: number;
+}
+
+/**
+ * 中文按相邻两字切分，英文和数字按单词切分
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const runs = text.toLowerCase().match(/[\u4e00-\u9fff]+|[a-z0-9]+/g) ?? [];
+
+  for (const run of runs) {
+    if (!/[\u4e00-\u9fff]/.test(run) || run.length === 1) {
+      tokens.push(run);
+      continue;
+    }
+    for (let i = 0; i < run.length - 1; i++) {
+      tokens.push(run.slice(i, i + 2));
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * 会话历史检索索引
+ *
+ * 单独归档较长时间的会话消息（与会话历史相同的存储实现，保留策略更长），
+ * 检索时用 BM25 对关键词打分；配置为 gemini 时再与向量相似度加权混合，向量只缓存在内存中。
+ */
+export class HistoryIndex {
+  private static instance: HistoryIndex;
+  private readonly store: ConversationStore;
+  // 以消息对象为键，消息被保留策略裁掉后随之释放
+  private termStats: WeakMap<Message, TermStats> = new WeakMap();
+  private embeddings: WeakMap<Message, number[]> = new WeakMap();
+  private embedder?: GeminiEmbedder;
+
+  private readonly BM25_K1 = 1.2;
+  private readonly BM25_B = 0.75;
+  // 单次检索最多补算的消息向量数，超出部分只按关键词打分
+  private readonly MAX_EMBED_PER_SEARCH = 500;
+  private readonly MAX_RESULT_CONTENT_LENGTH = 200;
+
+  private constructor() {
+    const getRetention = () => config.history.retention;
+    this.store = config.conversations.storage === 'memory'
+      ? new MemoryConversationStore(getRetention)
+      : new FileConversationStore(config.history.dir, getRetention);
+  }
+
+  static getInstance(): HistoryIndex {
+    if (!HistoryIndex.instance) {
+      HistoryIndex.instance = new HistoryIndex();
+    }
+    return HistoryIndex.instance;
+  }
+
+  add(conversationKey: string, message: Message): void {
+    this.store.add(conversationKey, { ...message });
+  }
+
+  markDeleted(conversationKey: string, messageId: string): boolean {
+    return this.store.markDeleted(conversationKey, messageId);
+  }
+
+  clear(conversationKey?: string): void {
+    this.store.clear(conversationKey);
+  }
+
+  /**
+   * 把会话历史中尚未归档的消息补入索引（启用检索前已有的历史）
+   */
+  backfill(conversations: StoredConversation[]): void {
+    let added = 0;
+
+    for (const { conversationKey, messages } of conversations) {
+      const indexed = new Set(this.store.getConversation(conversationKey).map(message => message.id));
+      for (const message of messages) {
+        if (!indexed.has(message.id)) {
+          this.add(conversationKey, message);
+          added++;
+        }
+      }
+    }
+
+    if (added > 0) {
+      logger.info(`🔎 已将 ${added} 条会话历史补入检索索引`);
+    }
+  }
+
+  /**
+   * 检索会话中与查询相关的消息，跳过已在上下文中的最近消息
+   */
+  async search(conversationKey: string, query: string, options: HistorySearchOptions = {}): Promise<HistorySearchResult[]> {
+    const limit = Math.max(1, options.limit ?? config.history.maxResults);
+    const cutoff = options.withinDays ? Date.now() - options.withinDays * 24 * 60 * 60 * 1000 : 0;
+    const archived = this.store.getConversation(conversationKey);
+    const candidates = archived
+      .slice(0, Math.max(0, archived.length - config.summary.recentMessages))
+      .filter(message => !message.deleted && message.content.trim())
+      .filter(message => message.timestamp.getTime() >= cutoff);
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    let scores = this.normalize(this.scoreBm25(candidates, tokenize(query)));
+
+    if (config.history.retriever === 'gemini') {
+      try {
+        const similarities = await this.scoreEmbeddings(candidates, query);
+        scores = scores.map((score, i) => 0.5 * score + 0.5 * Math.max(similarities[i], 0));
+      } catch (error) {
+        logger.warn('⚠️ 向量检索失败，改用关键词检索', {
+          conversationKey,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    const results = candidates
+      .map((message, i) => ({ message, score: scores[i] }))
+      .filter(item => item.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ message, score }) => ({
+        messageId: message.id,
+        senderId: message.userId,
+        senderName: message.userName || `用户${message.userId}`,
+        time: message.timestamp.toISOString(),
+        content: message.content.slice(0, this.MAX_RESULT_CONTENT_LENGTH),
+        score: Math.round(score * 1000) / 1000
+      }));
+
+    logger.info('🔎 历史检索完成', {
+      conversationKey,
+      query,
+      retriever: config.history.retriever,
+      candidates: candidates.length,
+      results: results.length
+    });
+    return results;
+  }
+
+  /**
+   * 等待尚未完成的写入
+   */
+  flush(): Promise<void> {
+    return this.store.flush();
+  }
+
+  private scoreBm25(messages: Message[], queryTerms: string[]): number[] {
+    const stats = messages.map(message => this.getTermStats(message));
+    const averageLength = stats.reduce((sum, item) => sum + item.length, 0) / stats.length || 1;
+    const terms = Array.from(new Set(queryTerms));
+
+    const idf = new Map(terms.map(term => {
+      const documentFrequency = stats.filter(item => item.terms.has(term)).length;
+      return [term, Math.log(1 + (stats.length - documentFrequency + 0.5) / (documentFrequency + 0.5))];
+    }));
+
+    return stats.map(item => terms.reduce((score, term) => {
+      const frequency = item.terms.get(term) ?? 0;
+      if (frequency === 0) return score;
+
+      const lengthNorm = 1 - this.BM25_B + this.BM25_B * (item.length / averageLength);
+      return score + idf.get(term)! * (frequency * (this.BM25_K1 + 1)) / (frequency + this.BM25_K1 * lengthNorm);
+    }, 0));
+  }
+
+  private getTermStats(message: Message): TermStats {
+    let stats = this.termStats.get(message);
+    if (!stats) {
+      const tokens = tokenize(message.content);
+      const terms = new Map<string, number>();
+      tokens.forEach(token => terms.set(token, (terms.get(token) ?? 0) + 1));
+      stats = { terms, length: tokens.length };
+      this.termStats.set(message, stats);
+    }
+    return stats;
+  }
+
+  // 补算缺少向量的消息（优先最近的），返回各消息与查询的余弦相似度
+  private async scoreEmbeddings(messages: Message[], query: string): Promise<number[]> {
+    if (!this.embedder) {
+      this.embedder = new GeminiEmbedder();
+    }
+    const embedder = this.embedder;
+    const missing = messages.filter(message => !this.embeddings.has(message)).slice(-this.MAX_EMBED_PER_SEARCH);
+
+    if (missing.length > 0) {
+      const vectors = await embedder.embed(missing.map(message => message.content), 'RETRIEVAL_DOCUMENT');
+      missing.forEach((message, i) => this.embeddings.set(message, vectors[i]));
+    }
+
+    const [queryVector] = await embedder.embed([query], 'RETRIEVAL_QUERY');
+    return messages.map(message => {
+      const vector = this.embeddings.get(message);
+      return vector ? this.cosine(queryVector, vector) : 0;
+    });
+  }
+
+  private cosine(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
+  private normalize(scores: number[]): number[] {
+    const max = Math.max(...scores);
+    return max > 0 ? scores.map(score => score / max) : scores;
+  }
+}
@@ -0,0 +1,168 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { FastifyInstance } from 'fastify';
+import { OneBotActionResponse, WSEvent } from './qq-types';
+import { OneBotTransport, ActionCallOptions } from './onebot-transport';
+import { ActionOutcomeUnknownError } from './onebot-action';
+import { logger } from '../utils/logger';
+import { config } from '../utils/config';
+
+/**
+ * OneBot HTTP 传输
+ *
+ * 通过 HTTP API 调用动作，通过 HTTP-POST 上报接收事件。
+ * 事件上报路由需要在 Fastify 监听前通过 registerRoutes 注册。
+ */
+export class HttpTransport extends OneBotTransport {
+  private pendingActions = 0;
+  private lastEventAt: number | null = null;
+  private lastActionAt: number | null = null;
+  private rejectedEvents = 0;
+
+  // 超过该时间没有收到事件或动作响应则视为断开（OneBot默认心跳间隔为30秒）
+  private readonly CONTACT_TIMEOUT_MS = 90 * 1000;
+
+  start(): void {
+    logger.info(`🚀 OneBot HTTP传输启动`, {
+      apiUrl: config.onebot.httpApiUrl,
+      eventPath: config.onebot.httpEventPath,
+      signatureCheck: !!config.security.webhookSecret
+    });
+  }
+
+  // 注册事件上报路由，保留原始请求体用于签名校验
+  registerRoutes(fastify: FastifyInstance): void {
+    fastify.register(async instance => {
+      instance.addContentTypeParser('application/json', { parseAs: 'string' }, (_request, body, done) => {
+        done(null, body);
+      });
+
+      instance.post(config.onebot.httpEventPath, async (request, reply) => {
+        const rawBody = typeof request.body === 'string' ? request.body : '';
+        const signature = request.headers['x-signature'];
+        const result = this.handleEventPost(rawBody, Array.isArray(signature) ? signature[0] : signature);
+
+        if (result.error) {
+          reply.code(result.status);
+          return { error: result.error };
+        }
+
+        reply.code(204);
+        return reply.send();
+      });
+    });
+  }
+
+  /**
+   * 处理一次事件上报，返回应答的HTTP状态码
+   */
+  handleEventPost(rawBody: string, signature?: string): { status: number; error?: string } {
+    if (!this.verifySignature(rawBody, signature)) {
+      this.rejectedEvents++;
+      logger.warn('🚫 OneBot事件上报签名校验失败', { hasSignature: !!signature });
+      return { status: 401, error: 'Invalid signature' };
+    }
+
+    let event: WSEvent;
+    try {
+      event = JSON.parse(rawBody);
+    } catch {
+      return { status: 400, error: 'Invalid JSON body' };
+    }
+
+    if (!event || typeof event.post_type !== 'string') {
+      return { status: 400, error: 'Missing post_type' };
+    }
+
+    this.lastEventAt = Date.now();
+    this.dispatchEvent(event, 'http');
+    return { status: 204 };
+  }
+
+  // 校验 X-Signature: sha1=<HMAC-SHA1(secret, body)>，未配置密钥时不校验
+  private verifySignature(rawBody: string, signature?: string): boolean {
+    const secret = config.security.webhookSecret;
+    if (!secret) {
+      return true;
+    }
+
+    if (!signature) {
+      return false;
+    }
+
+    const expected = `sha1=${createHmac('sha1', secret).update(rawBody).digest('hex')}`;
+    const expectedBuffer = Buffer.from(expected);
+    const actualBuffer = Buffer.from(signature);
+    return expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer);
+  }
+
+  // HTTP API 只对应一个账号，options.selfId 不参与路由
+  async callAction<T = any>(
+    action: string,
+    params: Record<string, unknown> = {},
+    options: ActionCallOptions = {}
+  ): Promise<OneBotActionResponse<T>> {
+    const timeoutMs = options.timeoutMs ?? config.websocket.actionTimeoutMs;
+    const url = `${config.onebot.httpApiUrl.replace(/\/+$/, '')}/${action}`;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.onebot.httpAccessToken) {
+      headers.Authorization = `Bearer ${config.onebot.httpAccessToken}`;
+    }
+
+    this.pendingActions++;
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(params),
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+      this.lastActionAt = Date.now();
+
+      const body = await response.json().catch(() => null) as OneBotActionResponse<T> | null;
+      if (body && typeof body.retcode === 'number') {
+        return body;
+      }
+
+      return {
+        status: 'failed',
+        retcode: response.status,
+        data: null as T,
+        message: response.statusText || 'Invalid OneBot HTTP response'
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        logger.warn(`⏰ OneBot动作响应超时`, { action, timeoutMs });
+        throw new ActionOutcomeUnknownError(`OneBot action ${action} timed out after ${timeoutMs}ms`);
+      }
+      throw new Error(`OneBot HTTP action ${action} failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.pendingActions--;
+    }
+  }
+
+  isConnected(): boolean {
+    const lastContact = Math.max(this.lastEventAt ?? 0, this.lastActionAt ?? 0);
+    return lastContact > 0 && Date.now() - lastContact < this.CONTACT_TIMEOUT_MS;
+  }
+
+  getConnectionInfo() {
+    return {
+      mode: 'http',
+      connectedCount: this.isConnected() ? 1 : 0,
+      pendingActions: this.pendingActions,
+      connections: [],
+      http: {
+        apiUrl: config.onebot.httpApiUrl,
+        eventPath: config.onebot.httpEventPath,
+        lastEventAt: this.lastEventAt ? new Date(this.lastEventAt).toISOString() : null,
+        lastActionAt: this.lastActionAt ? new Date(this.lastActionAt).toISOString() : null,
+        rejectedEvents: this.rejectedEvents
+      }
+    };
+  }
+
+  async close(): Promise<void> {
+    this.clearHandlers();
+    logger.info('🔌 OneBot HTTP传输已关闭');
+  }
+}
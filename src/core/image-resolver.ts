@@ -0,0 +1,297 @@
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { fileURLToPath } from 'url';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+import { ImageAttachment, MessageSegment } from './types';
+import { QueuedMessage } from './message-queue-types';
+import { describeActionFailure, isActionSuccessful } from './onebot-action';
+import type { OneBotTransport } from './onebot-transport';
+
+interface CachedImage {
+  hash: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+// NapCat get_image 的返回数据
+interface GetImageResult {
+  file?: string;
+  url?: string;
+  file_size?: string | number;
+  base64?: string;
+}
+
+// 支持的图片格式（按文件头识别，不信任扩展名）
+const IMAGE_SIGNATURES: Array<{ mimeType: string; matches: (data: Buffer) => boolean }> = [
+  { mimeType: 'image/png', matches: data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { mimeType: 'image/jpeg', matches: data => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff },
+  { mimeType: 'image/gif', matches: data => data.subarray(0, 4).toString('ascii') === 'GIF8' },
+  { mimeType: 'image/webp', matches: data => data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP' }
+];
+
+export function detectImageMimeType(data: Buffer): string | undefined {
+  return IMAGE_SIGNATURES.find(signature => signature.matches(data))?.mimeType;
+}
+
+/**
+ * 图片解析器
+ *
+ * 把消息中的图片段下载为内联图片：依次尝试本地文件、图片URL和 NapCat 的 get_image 动作，
+ * 按内容哈希缓存，缓存总大小超过上限时淘汰最久未使用的图片。
+ */
+export class ImageResolver {
+  // 内容哈希 -> 图片（Map 按插入顺序，重新插入即视为最近使用）
+  private readonly cache: Map<string, CachedImage> = new Map();
+  // 图片来源（file/url）-> 内容哈希，避免同一张表情包反复下载
+  private readonly sourceIndex: Map<string, string> = new Map();
+  private cacheBytes = 0;
+
+  constructor(private readonly transport?: Pick<OneBotTransport, 'callAction'>) {}
+
+  /**
+   * 解析一批消息中的图片，只保留最新的 maxPerBatch 张，失败的图片跳过
+   */
+  async resolve(messages: QueuedMessage[]): Promise<ImageAttachment[]> {
+    const candidates = messages
+      .flatMap(message => (message.segments ?? [])
+        .filter(segment => segment.type === 'image')
+        .map(segment => ({ message, segment })))
+      .slice(-Math.max(0, config.images.maxPerBatch));
+
+    const attachments: ImageAttachment[] = [];
+    for (const { message, segment } of candidates) {
+      try {
+        const image = await this.resolveSegment(segment, message.selfId);
+        if (image) {
+          attachments.push({
+            messageId: message.messageId,
+            mimeType: image.mimeType,
+            data: image.data.toString('base64'),
+            hash: image.hash
+          });
+        }
+      } catch (error) {
+        logger.warn('⚠️ 图片获取失败，已跳过', {
+          messageId: message.messageId,
+          file: segment.data?.file,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    if (attachments.length > 0) {
+      logger.info(`🖼️ 本批次附带 ${attachments.length} 张图片`, {
+        messageIds: attachments.map(item => item.messageId),
+        bytes: attachments.reduce((sum, item) => sum + Math.floor(item.data.length * 3 / 4), 0)
+      });
+    }
+
+    return attachments;
+  }
+
+  getCacheStats(): { entries: number; bytes: number } {
+    return { entries: this.cache.size, bytes: this.cacheBytes };
+  }
+
+  private async resolveSegment(segment: MessageSegment, selfId?: string): Promise<CachedImage | undefined> {
+    const data = segment.data ?? {};
+    if (Number(data.file_size) > config.images.maxBytes) {
+      throw new Error(`图片过大 (${data.file_size} bytes)`);
+    }
+
+    const sources = [data.path, data.url, data.file].filter((source): source is string => !!source);
+    for (const source of sources) {
+      const cached = this.getCachedBySource(source);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const content = await this.loadContent(data, selfId);
+    if (!content) {
+      return undefined;
+    }
+
+    const mimeType = detectImageMimeType(content);
+    if (!mimeType) {
+      throw new Error('不支持的图片格式');
+    }
+
+    const image = this.store(content, mimeType);
+    sources.forEach(source => this.sourceIndex.set(source, image.hash));
+    return image;
+  }
+
+  // 按 本地文件 -> URL -> get_image 的顺序读取图片内容
+  private async loadContent(data: Record<string, string | undefined>, selfId?: string): Promise<Buffer | undefined> {
+    for (const candidate of [data.path, data.file]) {
+      const localPath = this.toLocalPath(candidate);
+      if (localPath) {
+        return this.readLocalFile(localPath);
+      }
+    }
+
+    if (data.url && /^https?:\/\//i.test(data.url)) {
+      try {
+        return await this.download(data.url);
+      } catch (error) {
+        // URL 可能已过期，继续尝试 get_image
+        if (!this.transport || !data.file) {
+          throw error;
+        }
+        logger.debug('🖼️ 图片URL下载失败，改用 get_image', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    if (this.transport && data.file) {
+      return this.fetchViaGetImage(data.file, selfId);
+    }
+
+    return undefined;
+  }
+
+  private async fetchViaGetImage(file: string, selfId?: string): Promise<Buffer | undefined> {
+    const response = await this.transport!.callAction<GetImageResult>('get_image', { file }, { selfId });
+    const result = response.data;
+    if (!isActionSuccessful(response) || !result) {
+      throw new Error(describeActionFailure('get_image', response));
+    }
+
+    if (Number(result.file_size) > config.images.maxBytes) {
+      throw new Error(`图片过大 (${result.file_size} bytes)`);
+    }
+
+    if (result.base64) {
+      return this.checkSize(Buffer.from(result.base64, 'base64'));
+    }
+
+    const localPath = this.toLocalPath(result.file);
+    if (localPath) {
+      return this.readLocalFile(localPath);
+    }
+
+    if (result.url && /^https?:\/\//i.test(result.url)) {
+      return this.download(result.url);
+    }
+
+    return undefined;
+  }
+
+  // 下载图片，超过大小上限或超时即中止
+  private async download(url: string): Promise<Buffer> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.images.fetchTimeoutMs);
+
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const contentLength = Number(response.headers.get('content-length'));
+      if (contentLength > config.images.maxBytes) {
+        throw new Error(`图片过大 (${contentLength} bytes)`);
+      }
+
+      if (!response.body) {
+        return this.checkSize(Buffer.from(await response.arrayBuffer()));
+      }
+
+      const chunks: Buffer[] = [];
+      let received = 0;
+      const reader = response.body.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        received += value.length;
+        if (received > config.images.maxBytes) {
+          controller.abort();
+          throw new Error(`图片过大 (超过 ${config.images.maxBytes} bytes)`);
+        }
+        chunks.push(Buffer.from(value));
+      }
+
+      return Buffer.concat(chunks);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async readLocalFile(localPath: string): Promise<Buffer> {
+    const stat = await fs.promises.stat(localPath);
+    if (stat.size > config.images.maxBytes) {
+      throw new Error(`图片过大 (${stat.size} bytes)`);
+    }
+    return fs.promises.readFile(localPath);
+  }
+
+  // file:// URL 或存在的绝对路径才当作本地文件（NapCat 的 file 字段通常只是文件名）
+  private toLocalPath(value?: string): string | undefined {
+    if (!value) return undefined;
+    if (value.startsWith('file://')) {
+      try {
+        return fileURLToPath(value);
+      } catch {
+        return undefined;
+      }
+    }
+    return value.startsWith('/') && fs.existsSync(value) ? value : undefined;
+  }
+
+  private checkSize(data: Buffer): Buffer {
+    if (data.length > config.images.maxBytes) {
+      throw new Error(`图片过大 (${data.length} bytes)`);
+    }
+    return data;
+  }
+
+  private getCachedBySource(source: string): CachedImage | undefined {
+    const hash = this.sourceIndex.get(source);
+    const image = hash ? this.cache.get(hash) : undefined;
+    if (!image) {
+      if (hash) this.sourceIndex.delete(source);
+      return undefined;
+    }
+
+    // 刷新为最近使用
+    this.cache.delete(hash!);
+    this.cache.set(hash!, image);
+    return image;
+  }
+
+  private store(data: Buffer, mimeType: string): CachedImage {
+    const hash = createHash('sha256').update(data).digest('hex');
+    const existing = this.cache.get(hash);
+    if (existing) {
+      this.cache.delete(hash);
+      this.cache.set(hash, existing);
+      return existing;
+    }
+
+    const image: CachedImage = { hash, mimeType, data };
+    if (data.length > config.images.cacheMaxBytes) {
+      return image;
+    }
+
+    this.cache.set(hash, image);
+    this.cacheBytes += data.length;
+
+    for (const [oldestHash, oldest] of this.cache) {
+      if (this.cacheBytes <= config.images.cacheMaxBytes) break;
+      this.cache.delete(oldestHash);
+      this.cacheBytes -= oldest.data.length;
+    }
+
+    // 清理指向已淘汰图片的来源索引
+    if (this.sourceIndex.size > this.cache.size * 4) {
+      for (const [source, sourceHash] of this.sourceIndex) {
+        if (!this.cache.has(sourceHash)) this.sourceIndex.delete(source);
+      }
+    }
+
+    return image;
+  }
+}
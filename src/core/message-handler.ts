@@ -1,6 +1,7 @@
 import { Message, ChatResponse } from './types';
 import { logger } from '../utils/logger';
 import { config } from '../utils/config';
+import { ConversationStore, MemoryConversationStore } from './conversation-store';
 
 type ConversationRole = 'user' | 'assistant';
 
@@ -14,7 +15,7 @@ interface ConversationHistoryEntry {
 }
 
 export class MessageHandler {
-  private conversations: Map<string, Message[]> = new Map();
+  constructor(private readonly store: ConversationStore = new MemoryConversationStore()) {}
 
   addMessage(message: Message): void {
     const conversationKey = message.groupId || message.conversationId || message.userId;
@@ -22,25 +23,46 @@ export class MessageHandler {
     if (!message.conversationId) {
       message.conversationId = conversationKey;
     }
-    
-    if (!this.conversations.has(conversationKey)) {
-      this.conversations.set(conversationKey, []);
-    }
-    
-    const conversation = this.conversations.get(conversationKey)!;
-    conversation.push(message);
-    
-    // 保持最近100条消息
-    if (conversation.length > 100) {
-      conversation.shift();
-    }
+
+    // 保留条数与时间由存储按会话的保留策略裁剪
+    this.store.add(conversationKey, message);
     
     logger.debug(`Added message to conversation ${conversationKey}`, { messageId: message.id });
   }
 
+  /**
+   * 将会话中的消息标记为已撤回，已撤回的消息不再出现在上下文中
+   */
+  markMessageDeleted(conversationKey: string, messageId: string): boolean {
+    if (!this.store.markDeleted(conversationKey, messageId)) {
+      return false;
+    }
+
+    logger.debug(`Marked message as deleted in conversation ${conversationKey}`, { messageId });
+    return true;
+  }
+
   getConversation(userId: string, groupId?: string): Message[] {
     const conversationKey = groupId || userId;
-    return this.conversations.get(conversationKey) || [];
+    return this.store.getConversation(conversationKey);
+  }
+
+  /**
+   * 清除会话历史，不传键时清除全部
+   */
+  clearConversation(conversationKey?: string): void {
+    this.store.clear(conversationKey);
+  }
+
+  getConversationCount(): number {
+    return this.store.getAllConversations().length;
+  }
+
+  /**
+   * 等待会话历史写入完成（关闭前调用）
+   */
+  flush(): Promise<void> {
+    return this.store.flush();
   }
 
   formatConversationContext(
@@ -55,6 +77,7 @@ export class MessageHandler {
     const recentMessages = messages.slice(-maxMessages);
 
     const historyEntries: ConversationHistoryEntry[] = recentMessages
+      .filter(msg => !msg.deleted)
       .filter(msg => (excludeUserId ? msg.userId !== excludeUserId : true))
       .map(msg => ({
         messageId: msg.id,
@@ -97,15 +120,13 @@ export class MessageHandler {
   getAllConversations(): Array<{ userId: string, groupId?: string, messages: Message[] }> {
     const allConversations: Array<{ userId: string, groupId?: string, messages: Message[] }> = [];
     
-    for (const [conversationKey, messages] of this.conversations) {
-      if (messages.length === 0) continue;
-      
+    for (const { messages } of this.store.getAllConversations()) {
       // 从消息中获取用户信息
       const firstMessage = messages[0];
       const conversation = {
         userId: firstMessage.userId,
         groupId: firstMessage.groupId,
-        messages: messages.slice() // 复制数组避免外部修改
+        messages
       };
       
       allConversations.push(conversation);
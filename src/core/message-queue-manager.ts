@@ -1,6 +1,7 @@
 import { logger } from '../utils/logger';
 import { config } from '../utils/config';
-import { staminaManager, StaminaStatus } from '../utils/stamina-manager';
+import { staminaManager, getStaminaManager, StaminaStatus } from '../utils/stamina-manager';
+import { BudgetManager } from '../utils/budget-manager';
 import {
   QueuedMessage,
   QueueConfig,
@@ -12,6 +13,7 @@ import {
   QueueMessageLog
 } from './message-queue-types';
 import { Message } from './types';
+import { hasRichSegments, renderSegments } from './message-segments';
 
 /**
  * 智能消息队列管理器
@@ -92,6 +94,21 @@ export class MessageQueueManager {
     await this.checkAndTriggerFlush(contextId, queueState);
   }
 
+  /**
+   * 从待处理队列中移除指定消息（如消息已被撤回）
+   */
+  public removeMessage(messageId: string): boolean {
+    for (const [contextId, state] of this.queues) {
+      const index = state.messages.findIndex(message => message.messageId === messageId);
+      if (index >= 0) {
+        state.messages.splice(index, 1);
+        logger.debug('🗑️ 已从队列移除消息', { contextId, messageId });
+        return true;
+      }
+    }
+    return false;
+  }
+
   /**
    * 获取队列状态
    */
@@ -194,7 +211,9 @@ export class MessageQueueManager {
       messageId: message.id,
       isHighPriority: this.isHighPriorityMessage(message),
       contextId,
-      receivedAt: Date.now()
+      receivedAt: Date.now(),
+      segments: message.segments,
+      selfId: message.selfId
     };
   }
 
@@ -210,6 +229,7 @@ export class MessageQueueManager {
     // 2. 包含机器人名称
     // 3. 命令类型消息
     return (
+      message.highPriority === true ||
       content.includes(`@${botName}`) ||
       content.includes(botName) ||
       message.type === 'command'
@@ -217,15 +237,18 @@ export class MessageQueueManager {
   }
 
   private getContextId(message: Message): string {
+    // 多账号时同一群的消息按接收账号分队列，各账号独立回复；单账号时与其他模块的上下文ID保持一致
+    const accountSuffix = message.selfId && config.accounts.length > 1 ? `@${message.selfId}` : '';
+
     if (message.groupId) {
-      return `group_${message.groupId}`;
+      return `group_${message.groupId}${accountSuffix}`;
     }
 
     if (message.conversationId) {
-      return `conv_${message.conversationId}`;
+      return `conv_${message.conversationId}${accountSuffix}`;
     }
 
-    return `private_${message.userId}`;
+    return `private_${message.userId}${accountSuffix}`;
   }
 
   private getOrCreateQueue(contextId: string): QueueState {
@@ -303,9 +326,10 @@ export class MessageQueueManager {
       };
     }
 
-    // 体力检查 - 决定是否应该处理队列
-    const staminaStatus = staminaManager.getStatus();
-    if (!staminaManager.canReply()) {
+    // 体力检查 - 决定是否应该处理队列（多账号时使用该账号的体力）
+    const accountStamina = getStaminaManager(queueState.messages[0].selfId);
+    const staminaStatus = accountStamina.getStatus();
+    if (!accountStamina.canReply()) {
       logger.info('⚡ 体力不足，跳过队列处理', {
         contextId,
         reason,
@@ -333,6 +357,36 @@ export class MessageQueueManager {
       };
     }
 
+    // 预算检查 - 当日预算用完后该会话保持沉默
+    const budget = BudgetManager.getInstance().check(queueState.messages[0].groupId);
+    if (budget.state === 'exhausted') {
+      const clearedMessages = [...queueState.messages];
+      queueState.messages = [];
+
+      logger.warn('💸 今日预算已用完，跳过队列处理', {
+        contextId,
+        reason,
+        ratio: Number(budget.ratio.toFixed(2)),
+        global: budget.global,
+        group: budget.group,
+        clearedCount: clearedMessages.length
+      });
+
+      await this.eventListener?.onBudgetExhausted?.({
+        contextId,
+        messageIds: clearedMessages.map(message => message.messageId),
+        notice: BudgetManager.getInstance().claimExhaustedNotice(contextId) ? config.budget.exhaustedNotice : undefined
+      });
+
+      return {
+        processed: false,
+        messageCount: clearedMessages.length,
+        reason: 'budget_exhausted',
+        messages: this.createMessageLogs(clearedMessages),
+        contextId
+      };
+    }
+
     if (queueState.isProcessing) {
       logger.warn('⚠️ 队列正在处理中，跳过本次触发', {
         contextId,
@@ -365,12 +419,18 @@ export class MessageQueueManager {
 
     try {
       const context = this.formatMessagesContext(messagesToProcess);
-      const response = await this.messageProcessor.processMessages(messagesToProcess, context);
+      const response = await this.messageProcessor.processMessages(messagesToProcess, context, {
+        onReplyReady: reply => this.eventListener?.onReplyReady?.({
+          contextId,
+          messageIds: messagesToProcess.map(message => message.messageId),
+          reply
+        })
+      });
 
       // 成功处理消息后消耗体力（传递消息数量作为强度）
-      const staminaConsumed = staminaManager.consumeStamina(messageCount);
+      const staminaConsumed = accountStamina.consumeStamina(messageCount);
       if (staminaConsumed) {
-        const status = staminaManager.getStatus();
+        const status = accountStamina.getStatus();
         const levelEmoji = status.level === 'high' ? '💚' :
                           status.level === 'medium' ? '💛' :
                           status.level === 'low' ? '🧡' : '❤️';
@@ -461,20 +521,31 @@ export class MessageQueueManager {
       return;
     }
 
+    // 接近当日预算时拉长静默时间，让更多消息合并成一次调用
+    const budget = BudgetManager.getInstance().check(queueState.messages[0]?.groupId);
+    const silenceSeconds = this.queueConfig.silenceSeconds * budget.silenceMultiplier;
+    if (budget.state === 'throttled') {
+      logger.debug('🐢 接近当日预算，延长静默时间', {
+        contextId,
+        ratio: Number(budget.ratio.toFixed(2)),
+        silenceSeconds
+      });
+    }
+
     queueState.silenceTimer = setTimeout(async () => {
       const currentState = this.queues.get(contextId);
       if (!currentState || currentState.messages.length === 0) {
         return;
       }
 
-      logger.debug(`⏰ 静默时间到达 (${this.queueConfig.silenceSeconds}s)，触发队列处理`, {
+      logger.debug(`⏰ 静默时间到达 (${silenceSeconds}s)，触发队列处理`, {
         contextId,
         messageCount: currentState.messages.length,
         messages: this.createMessageLogs(currentState.messages)
       });
 
       await this.flushQueue(contextId, 'silence_trigger');
-    }, this.queueConfig.silenceSeconds * 1000);
+    }, silenceSeconds * 1000);
   }
 
   /**
@@ -498,11 +569,16 @@ export class MessageQueueManager {
 
     const historyEntries = messages.map(msg => ({
       messageId: msg.messageId,
-      content: msg.content,
+      content: msg.content || renderSegments(msg.segments),
       senderName: msg.userName || `用户${msg.userId}`,
       senderId: msg.userId,
       timestamp: new Date(msg.timestamp * 1000).toISOString(),
-      role: this.determineRole(msg.userId)
+      role: this.determineRole(msg.userId),
+      ...(hasRichSegments(msg.segments) && {
+        segments: msg.segments!
+          .filter(segment => segment.type !== 'text')
+          .map(segment => ({ type: segment.type, text: segment.text }))
+      })
     }));
 
     return JSON.stringify(historyEntries, null, 2);
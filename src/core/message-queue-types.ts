@@ -1,4 +1,4 @@
-import { Message, ChatResponse } from './types';
+import { Message, ChatResponse, EarlyReply, MessageSegment } from './types';
 
 /**
  * 消息队列中的消息项
@@ -13,6 +13,8 @@ export interface QueuedMessage {
   isHighPriority: boolean;
   contextId: string;
   receivedAt: number; // Enqueued timestamp in ms
+  segments?: MessageSegment[]; // 结构化消息段（图片、表情、回复等）
+  selfId?: string; // 接收该消息的机器人账号
 }
 
 /**
@@ -38,7 +40,8 @@ export type FlushReason =
   | 'max_size_trigger'         // 队列大小达到上限
   | 'max_age_trigger'          // 队列消息过老
   | 'manual_trigger'           // 手动触发
-  | 'stamina_insufficient';    // 体力不足跳过处理
+  | 'stamina_insufficient'     // 体力不足跳过处理
+  | 'budget_exhausted';        // 当日预算用完跳过处理
 
 /**
  * 队列状态信息
@@ -66,11 +69,38 @@ export interface QueueProcessResult {
   contextId?: string;
 }
 
+/**
+ * 处理过程中的回调
+ */
+export interface ProcessHandlers {
+  /** 流式生成时单条回复完成，可提前发送 */
+  onReplyReady?(reply: EarlyReply): Promise<void> | void;
+}
+
 /**
  * 下游处理器接口
  */
 export interface IMessageProcessor {
-  processMessages(messages: QueuedMessage[], context: string): Promise<ChatResponse>;
+  processMessages(messages: QueuedMessage[], context: string, handlers?: ProcessHandlers): Promise<ChatResponse>;
+}
+
+/**
+ * 提前发送回复事件
+ */
+export interface EarlyReplyEvent {
+  contextId: string;
+  messageIds: string[];
+  reply: EarlyReply;
+}
+
+/**
+ * 预算用完事件
+ */
+export interface BudgetExhaustedEvent {
+  contextId: string;
+  messageIds: string[];
+  /** 每个会话每天首次触发时附带的提示 */
+  notice?: string;
 }
 
 /**
@@ -79,6 +109,8 @@ export interface IMessageProcessor {
 export interface QueueEventListener {
   onMessageQueued?(message: QueuedMessage): void;
   onQueueFlushed?(result: QueueProcessResult): void;
+  onReplyReady?(event: EarlyReplyEvent): Promise<void> | void;
+  onBudgetExhausted?(event: BudgetExhaustedEvent): Promise<void> | void;
   onQueueError?(error: Error, context: string): void;
 }
 
@@ -0,0 +1,262 @@
+import { QQMessageSegment } from './qq-types';
+import { MessageSegment } from './types';
+
+// 常用QQ系统表情ID与名称的对应关系
+const FACE_NAMES: Record<string, string> = {
+  '0': '惊讶', '1': '撇嘴', '2': '色', '3': '发呆', '4': '得意', '5': '流泪',
+  '6': '害羞', '7': '闭嘴', '8': '睡', '9': '大哭', '10': '尴尬', '11': '发怒',
+  '12': '调皮', '13': '呲牙', '14': '微笑', '15': '难过', '16': '酷', '18': '抓狂',
+  '19': '吐', '20': '偷笑', '21': '可爱', '22': '白眼', '23': '傲慢', '24': '饥饿',
+  '25': '困', '26': '惊恐', '27': '流汗', '28': '憨笑', '29': '悠闲', '30': '奋斗',
+  '31': '咒骂', '32': '疑问', '33': '嘘', '34': '晕', '35': '折磨', '36': '衰',
+  '37': '骷髅', '38': '敲打', '39': '再见', '41': '发抖', '42': '爱情', '43': '跳跳',
+  '46': '猪头', '49': '拥抱', '53': '蛋糕', '56': '刀', '59': '便便', '60': '咖啡',
+  '63': '玫瑰', '64': '凋谢', '66': '爱心', '67': '心碎', '74': '太阳', '75': '月亮',
+  '76': '赞', '77': '踩', '78': '握手', '79': '胜利', '85': '飞吻', '89': '西瓜',
+  '96': '冷汗', '97': '擦汗', '98': '抠鼻', '99': '鼓掌', '100': '糗大了', '101': '坏笑',
+  '102': '左哼哼', '103': '右哼哼', '104': '哈欠', '105': '鄙视', '106': '委屈', '107': '快哭了',
+  '108': '阴险', '109': '亲亲', '110': '吓', '111': '可怜', '112': '菜刀', '113': '啤酒',
+  '116': '示爱', '118': '抱拳', '120': '拳头', '121': '差劲', '122': '爱你', '123': 'NO',
+  '124': 'OK', '129': '挥手', '144': '喝彩', '146': '爆筋', '147': '棒棒糖', '169': '手枪',
+  '171': '茶', '172': '眨眼睛', '173': '泪奔', '174': '无奈', '175': '卖萌', '176': '小纠结',
+  '177': '喷血', '178': '斜眼笑', '179': 'doge', '180': '惊喜', '181': '骚扰', '182': '笑哭',
+  '183': '我最美', '212': '托腮', '262': '脑阔疼', '263': '沧桑', '264': '捂脸', '265': '辣眼睛',
+  '266': '哦哟', '267': '头秃', '268': '问号脸', '269': '暗中观察', '270': 'emm', '271': '吃瓜',
+  '272': '呵呵哒', '273': '我酸了', '277': '汪汪', '281': '无眼笑', '282': '敬礼', '284': '面无表情',
+  '285': '摸鱼', '287': '哦', '289': '睁眼', '293': '摸锦鲤', '294': '期待', '297': '拜谢',
+  '298': '元宝', '299': '牛啊', '305': '右亲亲', '306': '牛气冲天', '307': '喵喵', '314': '仔细分析',
+  '315': '加油', '318': '崇拜', '319': '比心', '320': '庆祝', '322': '拒绝', '324': '吃糖',
+  '326': '生气'
+};
+
+const QUOTE_PREVIEW_LENGTH = 30;
+
+/**
+ * 将OneBot消息（消息段数组或CQ码字符串）解析为结构化消息段
+ */
+export function parseQQSegments(message: string | QQMessageSegment[] | undefined, rawMessage?: string): MessageSegment[] {
+  if (Array.isArray(message)) {
+    return message.map(segment => toMessageSegment(segment.type, normalizeData(segment.data)));
+  }
+
+  const text = typeof message === 'string' ? message : rawMessage || '';
+  return parseCQString(text);
+}
+
+/**
+ * 将消息段渲染为模型可读的文本
+ */
+export function renderSegments(segments: MessageSegment[] | undefined): string {
+  if (!segments || segments.length === 0) {
+    return '';
+  }
+
+  return segments
+    .map(segment => segment.type === 'reply' ? `${segment.text} ` : segment.text)
+    .join('')
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+}
+
+/**
+ * 将内容中的 [回复 #id] 占位符展开为 [回复 #id: 原文预览]
+ *
+ * @param quoteResolver 根据被回复的消息ID返回原文，找不到时保留原占位符
+ */
+export function expandQuotes(
+  content: string,
+  segments: MessageSegment[] | undefined,
+  quoteResolver: (messageId: string) => string | undefined
+): string {
+  if (!segments) {
+    return content;
+  }
+
+  let expanded = content;
+  for (const segment of segments) {
+    if (segment.type !== 'reply' || !segment.data?.id) {
+      continue;
+    }
+
+    const quoted = quoteResolver(segment.data.id);
+    if (!quoted) {
+      continue;
+    }
+
+    const preview = quoted.length > QUOTE_PREVIEW_LENGTH
+      ? `${quoted.substring(0, QUOTE_PREVIEW_LENGTH)}...`
+      : quoted;
+    expanded = expanded.replace(segment.text, `[回复 #${segment.data.id}: ${preview}]`);
+  }
+
+  return expanded;
+}
+
+/**
+ * 是否包含文本与@之外的富媒体消息段
+ */
+export function hasRichSegments(segments: MessageSegment[] | undefined): boolean {
+  return !!segments && segments.some(segment => segment.type !== 'text' && segment.type !== 'at');
+}
+
+/**
+ * 获取表情名称
+ */
+export function getFaceName(id: string): string | undefined {
+  return FACE_NAMES[id];
+}
+
+function toMessageSegment(type: string, data: Record<string, string | undefined>): MessageSegment {
+  switch (type) {
+    case 'text':
+      return { type: 'text', text: data.text || '' };
+
+    case 'at':
+      return {
+        type: 'at',
+        text: data.qq === 'all' ? '@全体成员' : `@${data.qq}`,
+        data: { qq: data.qq, name: data.name }
+      };
+
+    case 'image': {
+      const isSticker = data.sub_type === '1' || data.subType === '1';
+      return {
+        type: 'image',
+        text: isSticker ? '[动画表情]' : '[图片]',
+        data: { file: data.file, url: data.url, path: data.path, file_size: data.file_size, summary: data.summary }
+      };
+    }
+
+    case 'face': {
+      const name = data.id !== undefined ? FACE_NAMES[data.id] : undefined;
+      return {
+        type: 'face',
+        text: `[表情:${name || data.id || '未知'}]`,
+        data: { id: data.id }
+      };
+    }
+
+    case 'mface':
+      return {
+        type: 'face',
+        text: `[表情:${stripBrackets(data.summary) || '商城表情'}]`,
+        data: { id: data.emoji_id, url: data.url }
+      };
+
+    case 'reply':
+      return {
+        type: 'reply',
+        text: `[回复 #${data.id}]`,
+        data: { id: data.id }
+      };
+
+    case 'forward':
+      return {
+        type: 'forward',
+        text: '[合并转发]',
+        data: { id: data.id }
+      };
+
+    case 'file': {
+      const name = data.name || data.file;
+      return {
+        type: 'file',
+        text: name ? `[文件 ${name}]` : '[文件]',
+        data: { file: data.file, name: data.name, url: data.url, file_size: data.file_size }
+      };
+    }
+
+    case 'record':
+      return { type: 'record', text: '[语音]', data: { file: data.file, url: data.url } };
+
+    case 'video':
+      return { type: 'video', text: '[视频]', data: { file: data.file, url: data.url } };
+
+    default:
+      return { type: 'other', text: describeOtherSegment(type, data), data: { type } };
+  }
+}
+
+function describeOtherSegment(type: string, data: Record<string, string | undefined>): string {
+  switch (type) {
+    case 'json':
+    case 'xml':
+      return '[卡片消息]';
+    case 'share':
+      return data.title ? `[链接 ${data.title}]` : '[链接]';
+    case 'music':
+      return '[音乐分享]';
+    case 'location':
+      return data.title ? `[位置 ${data.title}]` : '[位置]';
+    case 'poke':
+      return '[戳一戳]';
+    case 'dice':
+      return data.result ? `[骰子:${data.result}]` : '[骰子]';
+    case 'rps':
+      return '[猜拳]';
+    case 'markdown':
+      return data.content || '';
+    default:
+      return `[${type}]`;
+  }
+}
+
+function stripBrackets(text?: string): string | undefined {
+  return text?.replace(/^\[|\]$/g, '');
+}
+
+function normalizeData(data: any): Record<string, string | undefined> {
+  const normalized: Record<string, string | undefined> = {};
+  if (!data || typeof data !== 'object') {
+    return normalized;
+  }
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    normalized[key] = typeof value === 'string' ? value : String(value);
+  }
+  return normalized;
+}
+
+/**
+ * 解析CQ码字符串，如 "你好[CQ:face,id=14]"
+ */
+function parseCQString(text: string): MessageSegment[] {
+  const segments: MessageSegment[] = [];
+  const pattern = /\[CQ:([a-zA-Z0-9_.-]+)((?:,[^,\]]*)*)\]/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', text: unescapeCQText(text.slice(lastIndex, match.index)) });
+    }
+
+    const data: Record<string, string | undefined> = {};
+    for (const pair of match[2].split(',').filter(Boolean)) {
+      const separator = pair.indexOf('=');
+      if (separator > 0) {
+        data[pair.slice(0, separator)] = unescapeCQValue(pair.slice(separator + 1));
+      }
+    }
+
+    segments.push(toMessageSegment(match[1], data));
+    lastIndex = pattern.lastIndex;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: unescapeCQText(text.slice(lastIndex)) });
+  }
+
+  return segments;
+}
+
+function unescapeCQText(text: string): string {
+  return text.replace(/&#91;/g, '[').replace(/&#93;/g, ']').replace(/&amp;/g, '&');
+}
+
+function unescapeCQValue(value: string): string {
+  return unescapeCQText(value.replace(/&#44;/g, ','));
+}
@@ -0,0 +1,40 @@
+import { OneBotActionResponse } from './qq-types';
+
+/**
+ * 动作已发出但未收到响应（超时或连接断开），无法确定协议端是否已经执行
+ */
+export class ActionOutcomeUnknownError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ActionOutcomeUnknownError';
+  }
+}
+
+// 参数错误、权限不足、目标不存在等情况重试也无济于事
+const NON_RETRYABLE_RETCODES = new Set([100, 102, 1400, 1403, 1404]);
+
+/**
+ * 判断OneBot动作是否执行成功（async 表示已受理，同样视为成功）
+ */
+export function isActionSuccessful(response: OneBotActionResponse | undefined | null): boolean {
+  if (!response) {
+    return false;
+  }
+
+  return (response.status === 'ok' || response.status === 'async') && (response.retcode === 0 || response.retcode === 1);
+}
+
+/**
+ * 判断失败的OneBot动作是否值得重试
+ */
+export function isRetryableActionFailure(response: OneBotActionResponse): boolean {
+  return !NON_RETRYABLE_RETCODES.has(response.retcode);
+}
+
+/**
+ * 生成便于日志阅读的失败描述
+ */
+export function describeActionFailure(action: string, response: OneBotActionResponse): string {
+  const detail = response.wording || response.message;
+  return `OneBot动作 ${action} 执行失败 (status=${response.status}, retcode=${response.retcode}${detail ? `, ${detail}` : ''})`;
+}
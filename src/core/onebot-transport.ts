@@ -0,0 +1,131 @@
+import { Server as HTTPServer } from 'http';
+import {
+  QQMessage,
+  OneBotSendMessage,
+  OneBotActionResponse,
+  OneBotSendMessageResult,
+  QQOutgoingSegment,
+  WSEvent
+} from './qq-types';
+import { toOutgoingSegments, describeOutgoingSegments } from './outgoing-message';
+import { logger } from '../utils/logger';
+
+export interface ActionCallOptions {
+  timeoutMs?: number;
+  selfId?: number | string;  // 多账号时指定由哪个机器人账号执行动作
+}
+
+/**
+ * OneBot 传输层基类
+ *
+ * 统一事件分发与发消息接口，具体实现（反向/正向WebSocket、HTTP）只需负责
+ * 建立连接、调用动作和把收到的事件交给 dispatchEvent。
+ */
+export abstract class OneBotTransport {
+  protected messageHandlers: ((message: QQMessage) => void)[] = [];
+  protected eventHandlers: ((event: WSEvent) => void)[] = [];
+
+  abstract start(httpServer?: HTTPServer): void;
+
+  abstract close(): Promise<void>;
+
+  /**
+   * 调用OneBot动作并等待响应
+   *
+   * 无法送达或超时未收到响应时会reject；收到响应后无论成功与否都会resolve，
+   * 由调用方根据 status/retcode 判断结果。
+   */
+  abstract callAction<T = any>(
+    action: string,
+    params?: Record<string, unknown>,
+    options?: ActionCallOptions
+  ): Promise<OneBotActionResponse<T>>;
+
+  abstract isConnected(): boolean;
+
+  abstract getConnectionInfo(): { connectedCount: number; pendingActions: number; [key: string]: unknown };
+
+  // 注册消息处理器
+  onMessage(handler: (message: QQMessage) => void): void {
+    this.messageHandlers.push(handler);
+  }
+
+  // 注册事件处理器
+  onEvent(handler: (event: WSEvent) => void): void {
+    this.eventHandlers.push(handler);
+  }
+
+  // 发送私聊消息（字符串按纯文本发送）
+  async sendPrivateMessage(
+    userId: number,
+    message: string | QQOutgoingSegment[],
+    options: ActionCallOptions = {}
+  ): Promise<OneBotActionResponse<OneBotSendMessageResult>> {
+    const segments = toOutgoingSegments(message);
+    const params: OneBotSendMessage['params'] = {
+      user_id: userId,
+      message: segments
+    };
+
+    const preview = describeOutgoingSegments(segments);
+    logger.info(`💬 发送私聊消息`, {
+      userId,
+      selfId: options.selfId,
+      message: preview.length > 200 ? preview.substring(0, 200) + '...' : preview,
+      messageLength: preview.length,
+      segmentTypes: segments.map(segment => segment.type)
+    });
+    return this.callAction<OneBotSendMessageResult>('send_private_msg', params, options);
+  }
+
+  // 发送群消息（字符串按纯文本发送）
+  async sendGroupMessage(
+    groupId: number,
+    message: string | QQOutgoingSegment[],
+    options: ActionCallOptions = {}
+  ): Promise<OneBotActionResponse<OneBotSendMessageResult>> {
+    const segments = toOutgoingSegments(message);
+    const params: OneBotSendMessage['params'] = {
+      group_id: groupId,
+      message: segments
+    };
+
+    const preview = describeOutgoingSegments(segments);
+    logger.info(`📢 发送群消息`, {
+      groupId,
+      selfId: options.selfId,
+      message: preview.length > 200 ? preview.substring(0, 200) + '...' : preview,
+      messageLength: preview.length,
+      segmentTypes: segments.map(segment => segment.type)
+    });
+
+    return this.callAction<OneBotSendMessageResult>('send_group_msg', params, options);
+  }
+
+  // 将OneBot事件分发给消息处理器和事件处理器
+  protected dispatchEvent(event: WSEvent, source: string): void {
+    if (event.post_type === 'message') {
+      const qqMessage = event as QQMessage;
+      this.messageHandlers.forEach(handler => {
+        try {
+          handler(qqMessage);
+        } catch (error) {
+          logger.error(`消息处理器执行失败 [${source}]`, { error });
+        }
+      });
+    }
+
+    this.eventHandlers.forEach(handler => {
+      try {
+        handler(event);
+      } catch (error) {
+        logger.error(`事件处理器执行失败 [${source}]`, { error });
+      }
+    });
+  }
+
+  protected clearHandlers(): void {
+    this.messageHandlers = [];
+    this.eventHandlers = [];
+  }
+}
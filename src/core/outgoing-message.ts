@@ -0,0 +1,71 @@
+import { QQOutgoingSegment } from './qq-types';
+
+/**
+ * 出站消息构造工具
+ *
+ * 模型生成的文本只会成为 text 段；at/reply/image 段只能由受信任的代码通过这里的构造函数添加。
+ */
+
+export function textSegment(text: string): QQOutgoingSegment {
+  return { type: 'text', data: { text } };
+}
+
+export function atSegment(userId: number | 'all'): QQOutgoingSegment {
+  return { type: 'at', data: { qq: String(userId) } };
+}
+
+export function replySegment(messageId: number): QQOutgoingSegment {
+  return { type: 'reply', data: { id: String(messageId) } };
+}
+
+export function imageSegment(file: string, summary?: string): QQOutgoingSegment {
+  return summary ? { type: 'image', data: { file, summary } } : { type: 'image', data: { file } };
+}
+
+/**
+ * 将回复文本构造为消息段数组：reply + (at) + text
+ */
+export function buildOutgoingSegments(
+  text: string,
+  options: { atUser?: number; replyTo?: number } = {}
+): QQOutgoingSegment[] {
+  const segments: QQOutgoingSegment[] = [];
+
+  if (options.replyTo) {
+    segments.push(replySegment(options.replyTo));
+  }
+
+  if (options.atUser) {
+    segments.push(atSegment(options.atUser));
+    segments.push(textSegment(` ${text}`));
+  } else {
+    segments.push(textSegment(text));
+  }
+
+  return segments;
+}
+
+/**
+ * 字符串统一视为纯文本，避免其中的CQ码形式文本被协议端解析
+ */
+export function toOutgoingSegments(message: string | QQOutgoingSegment[]): QQOutgoingSegment[] {
+  return typeof message === 'string' ? [textSegment(message)] : message;
+}
+
+/**
+ * 生成消息段的可读预览，用于日志记录
+ */
+export function describeOutgoingSegments(segments: QQOutgoingSegment[]): string {
+  return segments.map(segment => {
+    switch (segment.type) {
+      case 'text':
+        return segment.data.text;
+      case 'at':
+        return segment.data.qq === 'all' ? '@全体成员' : `@${segment.data.qq}`;
+      case 'reply':
+        return `[回复 #${segment.data.id}] `;
+      case 'image':
+        return '[图片]';
+    }
+  }).join('');
+}
@@ -1,5 +1,6 @@
 import { QQMessage } from './qq-types';
 import { Message, ChatResponse } from './types';
+import { parseQQSegments, renderSegments } from './message-segments';
 import { logger } from '../utils/logger';
 import { WhitelistManager } from '../utils/whitelist-manager';
 
@@ -8,8 +9,9 @@ export class QQMessageAdapter {
   static fromQQMessage(qqMsg: QQMessage): Message {
     const isGroup = qqMsg.message_type === 'group';
 
-    // 处理消息内容，去除CQ码等特殊格式
-    let content = this.extractTextFromMessage(qqMsg.message, qqMsg.raw_message);
+    // 解析消息段，图片、表情、回复等转换为可读占位符
+    const segments = parseQQSegments(qqMsg.message, qqMsg.raw_message);
+    let content = renderSegments(segments);
 
     // 去掉@机器人的部分
     content = this.removeAtBot(content);
@@ -24,52 +26,15 @@ export class QQMessageAdapter {
       groupId: isGroup ? qqMsg.group_id?.toString() : undefined,
       content: content.trim(),
       timestamp: new Date(qqMsg.time * 1000),
-      type: content.startsWith('/') ? 'command' : 'text'
+      type: content.startsWith('/') ? 'command' : 'text',
+      segments,
+      selfId: qqMsg.self_id !== undefined ? qqMsg.self_id.toString() : undefined
     };
   }
 
-  // 提取并处理消息内容，保留@信息但转换为可读格式
+  // 提取并处理消息内容，@与富媒体消息段转换为可读格式
   private static extractTextFromMessage(message: string | any[], rawMessage: string): string {
-    if (typeof message === 'string') {
-      return this.processMessageContent(message);
-    }
-
-    // 如果是消息段数组，处理所有段类型
-    if (Array.isArray(message)) {
-      return message
-        .map(segment => {
-          if (segment.type === 'text') {
-            return segment.data.text || '';
-          } else if (segment.type === 'at') {
-            // 将@转换为可读格式
-            const qq = segment.data.qq;
-            if (qq === 'all') {
-              return '@全体成员';
-            } else {
-              return `@${qq}`;
-            }
-          }
-          // 其他类型的CQ码可以根据需要处理
-          return '';
-        })
-        .join('')
-        .trim();
-    }
-
-    // 回退到原始消息处理
-    return this.processMessageContent(rawMessage || '');
-  }
-
-  // 处理消息内容，将@CQ码转换为可读格式，移除其他CQ码
-  private static processMessageContent(text: string): string {
-    return text
-      // 将@全体成员转换为可读格式
-      .replace(/\[CQ:at,qq=all\]/g, '@全体成员')
-      // 将@某人转换为可读格式
-      .replace(/\[CQ:at,qq=(\d+)\]/g, '@$1')
-      // 移除其他类型的CQ码（图片、表情等）
-      .replace(/\[CQ:(?!at)[^\]]+\]/g, '')
-      .trim();
+    return renderSegments(parseQQSegments(message, rawMessage));
   }
 
   // 移除机器人相关的@信息（可以根据需要配置具体的机器人QQ号）
@@ -117,7 +82,7 @@ export class QQMessageAdapter {
 
     // 群消息只检查白名单
     if (qqMsg.message_type === 'group' && qqMsg.group_id) {
-      const groupAllowed = whitelist.isGroupAllowed(qqMsg.group_id);
+      const groupAllowed = whitelist.isGroupAllowed(qqMsg.group_id, qqMsg.self_id);
 
       if (!groupAllowed) {
         logger.debug(`🚫 群消息被白名单拒绝 - 群:${qqMsg.group_id} 用户:${qqMsg.user_id}`);
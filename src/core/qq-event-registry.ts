@@ -0,0 +1,67 @@
+import { WSEvent } from './qq-types';
+import { logger } from '../utils/logger';
+
+export type QQEventHandler<E = WSEvent> = (event: E) => Promise<void> | void;
+
+/**
+ * OneBot 通知/请求事件处理器注册表
+ *
+ * 事件键由 post_type、notice_type/request_type 和 sub_type 逐级拼接，
+ * 如 notice.group_increase、notice.notify.poke、request.group.invite。
+ * 注册到上级键（如 notice.notify）的处理器同样会收到其子类型事件。
+ */
+export class QQEventRegistry {
+  private handlers: Map<string, QQEventHandler<any>[]> = new Map();
+
+  static getEventKeys(event: WSEvent): string[] {
+    const parts = [event.post_type];
+    const detailType = event.notice_type ?? event.request_type ?? event.meta_event_type;
+
+    if (detailType) {
+      parts.push(detailType);
+      if (event.sub_type) {
+        parts.push(event.sub_type);
+      }
+    }
+
+    return parts.map((_, index) => parts.slice(0, index + 1).join('.')).reverse();
+  }
+
+  register<E = WSEvent>(eventKey: string, handler: QQEventHandler<E>): void {
+    const list = this.handlers.get(eventKey) || [];
+    list.push(handler);
+    this.handlers.set(eventKey, list);
+    logger.debug(`🔔 注册事件处理器: ${eventKey}`);
+  }
+
+  /**
+   * 分发事件，返回实际执行的处理器数量
+   */
+  async dispatch(event: WSEvent): Promise<number> {
+    const eventKeys = QQEventRegistry.getEventKeys(event);
+    let handled = 0;
+
+    for (const eventKey of eventKeys) {
+      for (const handler of this.handlers.get(eventKey) || []) {
+        handled++;
+        try {
+          await handler(event);
+        } catch (error) {
+          logger.error(`❌ 事件处理失败: ${eventKey}`, {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    }
+
+    if (handled === 0) {
+      logger.debug('未处理的QQ事件', { eventKey: eventKeys[0] });
+    }
+
+    return handled;
+  }
+
+  clear(): void {
+    this.handlers.clear();
+  }
+}
@@ -11,6 +11,7 @@ export interface QQMessage {
   sender: QQSender;
   time: number;
   group_id?: number; // 群消息时存在
+  self_id?: number; // 接收消息的机器人QQ号
 }
 
 export interface QQSender {
@@ -30,24 +31,133 @@ export interface QQMessageSegment {
   data: any;
 }
 
+// 发送消息段（text 段内容按字面发送，不会被解析为CQ码）
+export type QQOutgoingSegment =
+  | { type: 'text'; data: { text: string } }
+  | { type: 'at'; data: { qq: string } }
+  | { type: 'reply'; data: { id: string } }
+  | { type: 'image'; data: { file: string; summary?: string } };
+
 // OneBot API 发送消息格式
 export interface OneBotSendMessage {
   action: 'send_private_msg' | 'send_group_msg';
   params: {
     user_id?: number;
     group_id?: number;
-    message: string | QQMessageSegment[];
-    auto_escape?: boolean;
+    message: QQOutgoingSegment[];
   };
   echo?: string;
 }
 
+// OneBot API 通用动作请求
+export interface OneBotActionRequest {
+  action: string;
+  params: Record<string, unknown>;
+  echo: string;
+}
+
+// OneBot API 动作响应（通过 echo 与请求关联）
+export interface OneBotActionResponse<T = any> {
+  status: 'ok' | 'async' | 'failed';
+  retcode: number;
+  data: T;
+  message?: string;
+  wording?: string;
+  echo?: string;
+}
+
+// 发送消息动作的返回数据
+export interface OneBotSendMessageResult {
+  message_id: number;
+}
+
 // WebSocket 事件类型
 export interface WSEvent {
   post_type: string;
   [key: string]: any;
 }
 
+// 通知事件公共字段
+interface QQNoticeBase {
+  post_type: 'notice';
+  time: number;
+  self_id: number;
+}
+
+// 群成员增加
+export interface QQGroupIncreaseNotice extends QQNoticeBase {
+  notice_type: 'group_increase';
+  sub_type: 'approve' | 'invite';
+  group_id: number;
+  user_id: number;
+  operator_id: number;
+}
+
+// 群成员减少
+export interface QQGroupDecreaseNotice extends QQNoticeBase {
+  notice_type: 'group_decrease';
+  sub_type: 'leave' | 'kick' | 'kick_me';
+  group_id: number;
+  user_id: number;
+  operator_id: number;
+}
+
+// 群消息撤回
+export interface QQGroupRecallNotice extends QQNoticeBase {
+  notice_type: 'group_recall';
+  group_id: number;
+  user_id: number;
+  operator_id: number;
+  message_id: number;
+}
+
+// 好友消息撤回
+export interface QQFriendRecallNotice extends QQNoticeBase {
+  notice_type: 'friend_recall';
+  user_id: number;
+  message_id: number;
+}
+
+// 戳一戳（群聊时存在 group_id）
+export interface QQPokeNotice extends QQNoticeBase {
+  notice_type: 'notify';
+  sub_type: 'poke';
+  group_id?: number;
+  user_id: number;
+  target_id: number;
+}
+
+export type QQNoticeEvent =
+  | QQGroupIncreaseNotice
+  | QQGroupDecreaseNotice
+  | QQGroupRecallNotice
+  | QQFriendRecallNotice
+  | QQPokeNotice;
+
+// 请求事件公共字段
+interface QQRequestBase {
+  post_type: 'request';
+  time: number;
+  self_id: number;
+  user_id: number;
+  comment: string;
+  flag: string;
+}
+
+// 加好友请求
+export interface QQFriendRequest extends QQRequestBase {
+  request_type: 'friend';
+}
+
+// 加群请求 / 邀请机器人入群
+export interface QQGroupRequest extends QQRequestBase {
+  request_type: 'group';
+  sub_type: 'add' | 'invite';
+  group_id: number;
+}
+
+export type QQRequestEvent = QQFriendRequest | QQGroupRequest;
+
 // 快速回复消息格式
 export interface QuickReplyMessage {
   reply: string;
@@ -0,0 +1,115 @@
+import { logger } from '../utils/logger';
+
+/**
+ * 机器人已发送消息的记录
+ */
+export interface SentMessageRecord {
+  messageId: number;
+  targetKey: string;
+  groupId?: number;
+  userId?: number;
+  selfId?: number;
+  contextId?: string;
+  pendingMessageIds: string[];
+  text: string;
+  source: 'batch' | 'command';
+  sentAt: number;
+  recalledAt?: number;
+}
+
+export interface SentMessageTarget {
+  groupId?: number;
+  userId?: number;
+}
+
+/**
+ * 已发送消息追踪器
+ *
+ * 记录 send_message 任务返回的 message_id 及其来源批次，用于撤回和回溯。
+ * 每个会话目标只保留最近 maxPerTarget 条记录。
+ */
+export class SentMessageTracker {
+  private readonly records: Map<string, SentMessageRecord[]> = new Map();
+  private readonly maxPerTarget: number;
+
+  constructor(maxPerTarget: number = 50) {
+    this.maxPerTarget = maxPerTarget;
+  }
+
+  static getTargetKey(target: SentMessageTarget): string {
+    if (target.groupId) {
+      return `group_${target.groupId}`;
+    }
+    return `private_${target.userId}`;
+  }
+
+  record(entry: Omit<SentMessageRecord, 'targetKey' | 'sentAt'> & { sentAt?: number }): SentMessageRecord {
+    const targetKey = SentMessageTracker.getTargetKey(entry);
+    const record: SentMessageRecord = {
+      ...entry,
+      targetKey,
+      sentAt: entry.sentAt ?? Date.now()
+    };
+
+    let list = this.records.get(targetKey);
+    if (!list) {
+      list = [];
+      this.records.set(targetKey, list);
+    }
+
+    list.push(record);
+    if (list.length > this.maxPerTarget) {
+      list.splice(0, list.length - this.maxPerTarget);
+    }
+
+    logger.debug('📝 已记录机器人发送的消息', {
+      messageId: record.messageId,
+      targetKey,
+      contextId: record.contextId,
+      pendingMessageIds: record.pendingMessageIds
+    });
+
+    return record;
+  }
+
+  /**
+   * 获取指定目标最近发送的消息（按时间倒序，默认排除已撤回的）
+   */
+  getRecent(
+    target: SentMessageTarget,
+    count: number,
+    options: { source?: SentMessageRecord['source']; includeRecalled?: boolean } = {}
+  ): SentMessageRecord[] {
+    const list = this.records.get(SentMessageTracker.getTargetKey(target)) || [];
+
+    return list
+      .filter(record => options.includeRecalled || record.recalledAt === undefined)
+      .filter(record => !options.source || record.source === options.source)
+      .slice(-Math.max(0, count))
+      .reverse();
+  }
+
+  find(messageId: number): SentMessageRecord | undefined {
+    for (const list of this.records.values()) {
+      const record = list.find(item => item.messageId === messageId);
+      if (record) {
+        return record;
+      }
+    }
+    return undefined;
+  }
+
+  markRecalled(messageId: number): boolean {
+    const record = this.find(messageId);
+    if (!record || record.recalledAt !== undefined) {
+      return false;
+    }
+
+    record.recalledAt = Date.now();
+    return true;
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+}
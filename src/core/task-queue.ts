@@ -1,6 +1,7 @@
 import { logger } from '../utils/logger';
+import type { SummaryTaskPayload } from './conversation-summarizer';
 
-export type TaskType = 'send_message' | 'store_memory';
+export type TaskType = 'send_message' | 'store_memory' | 'summarize_conversation';
 
 export interface BaseTaskPayload {
   description?: string;
@@ -12,6 +13,8 @@ export interface SendMessageTaskPayload extends BaseTaskPayload {
     userId?: number;
     groupId?: number;
     atUser?: number;
+    replyTo?: number;
+    selfId?: number;  // 由哪个机器人账号发送
   };
   message: string;
 }
@@ -21,9 +24,12 @@ export interface StoreMemoryTaskPayload extends BaseTaskPayload {
   content: string;
 }
 
+export interface SummarizeConversationTaskPayload extends BaseTaskPayload, SummaryTaskPayload {}
+
 export interface TaskPayloadMap {
   send_message: SendMessageTaskPayload;
   store_memory: StoreMemoryTaskPayload;
+  summarize_conversation: SummarizeConversationTaskPayload;
 }
 
 export interface TaskOptions {
@@ -44,6 +50,16 @@ interface InternalTask<T extends TaskType> {
 
 type TaskHandler<T extends TaskType> = (task: InternalTask<T>) => Promise<void>;
 
+/**
+ * 不可重试的任务错误，处理器抛出后任务立即失败，不再进入重试流程
+ */
+export class NonRetryableTaskError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NonRetryableTaskError';
+  }
+}
+
 export class TaskQueue {
   private readonly retryDelayStrategy: (attempt: number) => number;
   private readonly handlers = new Map<TaskType, TaskHandler<any>>();
@@ -160,7 +176,9 @@ export class TaskQueue {
             error: error instanceof Error ? error.message : String(error)
           });
 
-          if (task.attempts < task.maxAttempts) {
+          const retryable = !(error instanceof NonRetryableTaskError);
+
+          if (retryable && task.attempts < task.maxAttempts) {
             const delay = Math.max(0, this.retryDelayStrategy(task.attempts));
             logger.warn('🔁 任务准备重试', {
               taskId: task.id,
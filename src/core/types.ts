@@ -7,6 +7,36 @@ export interface Message {
   content: string;
   timestamp: Date;
   type: 'text' | 'command';
+  segments?: MessageSegment[];  // 结构化消息段（图片、表情、回复等）
+  highPriority?: boolean;  // 外部事件（如戳一戳）要求立即处理
+  deleted?: boolean;  // 消息已被撤回
+  selfId?: string;  // 接收该消息的机器人账号（多账号模式）
+}
+
+export type MessageSegmentType =
+  | 'text'
+  | 'at'
+  | 'image'
+  | 'face'
+  | 'reply'
+  | 'forward'
+  | 'file'
+  | 'record'
+  | 'video'
+  | 'other';
+
+export interface MessageSegment {
+  type: MessageSegmentType;
+  text: string;  // 供模型阅读的文本或占位符，如 [图片]、[表情:微笑]
+  data?: Record<string, string | undefined>;  // 原始关键字段（url、file、id等）
+}
+
+// 随请求发送给模型的内联图片
+export interface ImageAttachment {
+  messageId: string;  // 图片所在的消息
+  mimeType: string;
+  data: string;       // base64
+  hash: string;       // 内容的 sha256
 }
 
 export type ChatTask = ThinkingTask | ReplyTask;
@@ -31,6 +61,24 @@ export interface ChatResponse {
   messageIds?: string[]; // 批处理时关联的消息ID列表
   tasks?: ChatTask[];   // 结构化任务列表
   toolCalls?: ToolCallInfo[]; // 工具调用信息
+  dispatchedReplies?: string[]; // 流式生成时已提前发送的回复
+  usage?: TokenUsage;   // 按类型拆分的Token用量
+}
+
+// 模型调用的Token用量（思考token不计入 completionTokens）
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  thinkingTokens: number;
+  totalTokens: number;
+  cachedTokens?: number;       // 命中上下文缓存的输入token（包含在 promptTokens 中），提供方未返回缓存信息时为空
+}
+
+// 流式生成过程中已完整生成、可提前发送的单条回复
+export interface EarlyReply {
+  content: string;
+  index: number;
+  toolCalls: ToolCallInfo[]; // 已确定的 mention_user/quote_message 调用
 }
 
 export interface ToolCallInfo {
@@ -1,44 +1,81 @@
 import * as WebSocket from 'ws';
-import { Server as HTTPServer } from 'http';
-import { QQMessage, OneBotSendMessage, WSEvent } from './qq-types';
+import { timingSafeEqual } from 'crypto';
+import { Server as HTTPServer, IncomingMessage } from 'http';
+import { OneBotActionRequest, OneBotActionResponse, WSEvent } from './qq-types';
+import { OneBotTransport, ActionCallOptions } from './onebot-transport';
+import { ActionOutcomeUnknownError } from './onebot-action';
 import { logger } from '../utils/logger';
-import { config } from '../utils/config';
+import { config, getAccountConfig } from '../utils/config';
 
 interface ClientInfo {
   socket: WebSocket;
   id: string;
+  direction: 'reverse' | 'forward';
   ip: string;
   userAgent: string;
   connectedAt: Date;
+  selfId?: string;  // 该连接对应的机器人QQ号（X-Self-ID 头或事件中的 self_id）
 }
 
-export class WSServer {
+interface PendingAction {
+  action: string;
+  resolve: (response: OneBotActionResponse) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+  sentAt: number;
+  clientId: string;  // 请求所经的连接，断开时据此拒绝
+}
+
+type HandshakeResult =
+  | { allowed: true }
+  | { allowed: false; code: number; reason: string };
+
+export class WSServer extends OneBotTransport {
   private wss: WebSocket.Server | null = null;
   private clients: Map<string, ClientInfo> = new Map();
-  private messageHandlers: ((message: QQMessage) => void)[] = [];
-  private eventHandlers: ((event: WSEvent) => void)[] = [];
   private healthCheckInterval: NodeJS.Timeout | null = null;
+  private pendingActions: Map<string, PendingAction> = new Map();
+  private echoSequence = 0;
+  private rejectedConnections = 0;
+  private lastRejectedAt: number | null = null;
+
+  // 正向WS客户端模式状态
+  private forwardSocket: WebSocket | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private nextReconnectAt: number | null = null;
+  private isClosing = false;
 
   constructor() {
-    // 构造函数保持简洁
+    super();
   }
 
-  // 启动WebSocket服务器
+  // 启动WebSocket服务器（正向模式下改为主动连接NapCat）
   start(httpServer?: HTTPServer): void {
     const port = config.port;
+    this.isClosing = false;
+
+    if (config.websocket.mode === 'forward') {
+      logger.info(`🚀 WebSocket正向模式启动 目标: ${config.websocket.forwardUrl}`);
+      this.connectForward();
+      this.startHealthCheck();
+      return;
+    }
 
     // 如果提供了HTTP服务器，则附加到HTTP服务器，否则创建独立服务器
     if (httpServer) {
       this.wss = new WebSocket.Server({
         server: httpServer,
         path: config.websocket.serverPath,
-        perMessageDeflate: false
+        perMessageDeflate: false,
+        verifyClient: (info, callback) => this.verifyClient(info.req, callback)
       });
       logger.info(`🚀 WebSocket服务器已附加到HTTP服务器 路径: ${config.websocket.serverPath}`);
     } else {
       this.wss = new WebSocket.Server({
         port,
-        perMessageDeflate: false
+        perMessageDeflate: false,
+        verifyClient: (info, callback) => this.verifyClient(info.req, callback)
       });
       logger.info(`🚀 WebSocket独立服务器启动 端口: ${port}`);
     }
@@ -47,24 +84,90 @@ export class WSServer {
     this.startHealthCheck();
   }
 
+  // 握手阶段校验来源IP与access token，拒绝的连接不会升级为WebSocket
+  private verifyClient(req: IncomingMessage, callback: (result: boolean, code?: number, message?: string) => void): void {
+    const result = this.checkHandshake(req);
+    if (result.allowed) {
+      callback(true);
+      return;
+    }
+
+    this.rejectedConnections++;
+    this.lastRejectedAt = Date.now();
+    logger.warn(`🚫 拒绝WebSocket连接: ${result.reason}`, {
+      ip: this.getRemoteIp(req),
+      userAgent: req.headers['user-agent'] || 'unknown',
+      rejectedConnections: this.rejectedConnections
+    });
+    callback(false, result.code, result.reason);
+  }
+
+  private checkHandshake(req: IncomingMessage): HandshakeResult {
+    const { ipAllowlist, serverAccessToken } = config.websocket;
+
+    if (ipAllowlist.length > 0 && !ipAllowlist.includes(this.getRemoteIp(req))) {
+      return { allowed: false, code: 403, reason: 'IP not in allowlist' };
+    }
+
+    if (serverAccessToken) {
+      const token = this.extractAccessToken(req);
+      if (!token) {
+        return { allowed: false, code: 401, reason: 'Missing access token' };
+      }
+      if (!this.tokensMatch(token, serverAccessToken)) {
+        return { allowed: false, code: 403, reason: 'Invalid access token' };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  // OneBot 标准：Authorization: Bearer <token>，或查询参数 access_token
+  // 其他格式的 Authorization（如代理添加的 Basic）不影响查询参数中的令牌
+  private extractAccessToken(req: IncomingMessage): string | null {
+    const match = /^(?:Bearer|Token)\s+(.+)$/i.exec(req.headers.authorization?.trim() ?? '');
+    if (match) {
+      return match[1];
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    return url.searchParams.get('access_token');
+  }
+
+  private tokensMatch(actual: string, expected: string): boolean {
+    const actualBuffer = Buffer.from(actual);
+    const expectedBuffer = Buffer.from(expected);
+    return actualBuffer.length === expectedBuffer.length && timingSafeEqual(actualBuffer, expectedBuffer);
+  }
+
+  // IPv4 映射地址（::ffff:127.0.0.1）按 IPv4 比较
+  private getRemoteIp(req: IncomingMessage): string {
+    const ip = req.socket.remoteAddress || 'unknown';
+    return ip.startsWith('::ffff:') ? ip.substring(7) : ip;
+  }
+
   // 设置连接处理器
   private setupConnectionHandler(): void {
     if (!this.wss) return;
 
     this.wss.on('connection', (ws: WebSocket, req) => {
       const clientId = this.generateClientId();
+      const selfIdHeader = req.headers['x-self-id'];
       const clientInfo: ClientInfo = {
         socket: ws,
         id: clientId,
-        ip: req.socket.remoteAddress || 'unknown',
+        direction: 'reverse',
+        ip: this.getRemoteIp(req),
         userAgent: req.headers['user-agent'] || 'unknown',
-        connectedAt: new Date()
+        connectedAt: new Date(),
+        selfId: typeof selfIdHeader === 'string' && selfIdHeader ? selfIdHeader : undefined
       };
 
       this.clients.set(clientId, clientInfo);
 
       logger.info(`🔗 WebSocket客户端连接成功`, {
         clientId,
+        selfId: clientInfo.selfId,
         ip: clientInfo.ip,
         userAgent: clientInfo.userAgent.substring(0, 50),
         totalClients: this.clients.size
@@ -86,6 +189,70 @@ export class WSServer {
     });
   }
 
+  // 正向模式：主动连接NapCat的正向WebSocket
+  private connectForward(): void {
+    const { forwardUrl, accessToken } = config.websocket;
+    const ws = new WebSocket.WebSocket(forwardUrl, {
+      headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : undefined,
+      perMessageDeflate: false
+    }) as WebSocket;
+    this.forwardSocket = ws;
+
+    ws.on('open', () => {
+      const clientInfo: ClientInfo = {
+        socket: ws,
+        id: `forward_${Date.now()}`,
+        direction: 'forward',
+        ip: forwardUrl,
+        userAgent: 'FingerBot forward client',
+        connectedAt: new Date()
+      };
+
+      this.reconnectAttempts = 0;
+      this.nextReconnectAt = null;
+      this.clients.set(clientInfo.id, clientInfo);
+      this.setupClientHandlers(ws, clientInfo);
+
+      logger.info(`🔗 已连接到NapCat正向WebSocket`, {
+        clientId: clientInfo.id,
+        url: forwardUrl
+      });
+    });
+
+    // 连接建立前的错误也会触发close，这里只记录日志
+    ws.on('error', (error: Error) => {
+      if (ws.readyState !== WebSocket.OPEN) {
+        logger.warn(`⚠️ 连接NapCat正向WebSocket失败`, { url: forwardUrl, error: error.message });
+      }
+    });
+
+    ws.on('close', () => {
+      if (this.forwardSocket === ws) {
+        this.forwardSocket = null;
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  // 按指数退避安排重连
+  private scheduleReconnect(): void {
+    if (this.isClosing || this.reconnectTimer) {
+      return;
+    }
+
+    const { reconnectInitialMs, reconnectMaxMs } = config.websocket;
+    const delay = Math.min(reconnectInitialMs * Math.pow(2, this.reconnectAttempts), reconnectMaxMs);
+    this.reconnectAttempts++;
+    this.nextReconnectAt = Date.now() + delay;
+
+    logger.info(`⏳ ${delay}ms后重连NapCat正向WebSocket (第${this.reconnectAttempts}次)`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connectForward();
+    }, delay);
+  }
+
   // 设置客户端事件处理器
   private setupClientHandlers(ws: WebSocket, clientInfo: ClientInfo): void {
     const { id: clientId } = clientInfo;
@@ -127,6 +294,7 @@ export class WSServer {
     // 处理连接关闭
     ws.on('close', (code: number, reason: Buffer) => {
       this.clients.delete(clientId);
+      this.rejectPendingActions('connection closed', clientId);
       logger.info(`🔌 WebSocket客户端断开连接`, {
         clientId,
         code,
@@ -160,87 +328,137 @@ export class WSServer {
   private async handleMessage(message: any, clientId: string): Promise<void> {
     // 如果是OneBot协议的事件消息
     if (message.post_type) {
-      const event = message as WSEvent;
-
-      // 处理消息事件
-      if (event.post_type === 'message') {
-        const qqMessage = event as QQMessage;
-        // logger.info(`📨 收到QQ消息事件 [${clientId}]`, {
-        //   messageType: qqMessage.message_type,
-        //   userId: qqMessage.user_id,
-        //   groupId: qqMessage.group_id,
-        //   messageId: qqMessage.message_id
-        // });
-
-        // 调用消息处理器
-        this.messageHandlers.forEach(handler => {
-          try {
-            handler(qqMessage);
-          } catch (error) {
-            logger.error(`消息处理器执行失败 [${clientId}]`, { error });
-          }
-        });
-      }
-
-      // 调用事件处理器
-      this.eventHandlers.forEach(handler => {
-        try {
-          handler(event);
-        } catch (error) {
-          logger.error(`事件处理器执行失败 [${clientId}]`, { error });
-        }
-      });
+      this.bindSelfId(clientId, message.self_id);
+      this.dispatchEvent(message as WSEvent, clientId);
+    } else if (this.isActionResponse(message)) {
+      this.handleActionResponse(message as OneBotActionResponse, clientId);
     } else {
       // 处理其他类型的消息
       logger.debug(`📄 收到非OneBot消息 [${clientId}]`, { type: message.type || 'unknown' });
     }
   }
 
-  // 发送私聊消息
-  async sendPrivateMessage(userId: number, message: string): Promise<boolean> {
-    const payload: OneBotSendMessage = {
-      action: 'send_private_msg',
-      params: {
-        user_id: userId,
-        message: message
-      },
-      echo: Date.now().toString()
-    };
+  // 连接未通过 X-Self-ID 头绑定账号时，用首个带 self_id 的事件绑定
+  private bindSelfId(clientId: string, selfId: unknown): void {
+    const clientInfo = this.clients.get(clientId);
+    if (!clientInfo || clientInfo.selfId || selfId === undefined || selfId === null) {
+      return;
+    }
 
-    logger.info(`💬 发送私聊消息`, {
-      userId,
-      message: message.length > 200 ? message.substring(0, 200) + '...' : message,
-      messageLength: message.length
-    });
-    return this.broadcast(payload);
+    clientInfo.selfId = String(selfId);
+    logger.info(`🪪 WebSocket连接已绑定机器人账号 [${clientId}]`, { selfId: clientInfo.selfId });
   }
 
-  // 发送群消息
-  async sendGroupMessage(groupId: number, message: string, atUser?: number): Promise<boolean> {
-    let finalMessage = message;
+  // 判断是否为OneBot动作响应
+  private isActionResponse(message: any): boolean {
+    return message.echo !== undefined && message.echo !== null &&
+      (message.status !== undefined || message.retcode !== undefined);
+  }
 
-    if (atUser) {
-      finalMessage = `[CQ:at,qq=${atUser}] ${message}`;
+  // 根据echo将响应交还给等待中的调用方
+  private handleActionResponse(response: OneBotActionResponse, clientId: string): void {
+    const echo = String(response.echo);
+    const pending = this.pendingActions.get(echo);
+
+    if (!pending) {
+      logger.debug(`📄 收到未匹配的动作响应 [${clientId}]`, {
+        echo,
+        status: response.status,
+        retcode: response.retcode
+      });
+      return;
     }
 
-    const payload: OneBotSendMessage = {
-      action: 'send_group_msg',
-      params: {
-        group_id: groupId,
-        message: finalMessage
-      },
-      echo: Date.now().toString()
-    };
+    clearTimeout(pending.timer);
+    this.pendingActions.delete(echo);
 
-    logger.info(`📢 发送群消息`, {
-      groupId,
-      message: finalMessage.length > 200 ? finalMessage.substring(0, 200) + '...' : finalMessage,
-      messageLength: finalMessage.length,
-      originalMessageLength: message.length,
-      atUser: atUser || 'none'
+    logger.debug(`📬 收到动作响应 [${clientId}]`, {
+      action: pending.action,
+      echo,
+      status: response.status,
+      retcode: response.retcode,
+      latency: Date.now() - pending.sentAt
     });
 
-    return this.broadcast(payload);
+    pending.resolve(response);
+  }
+
+  callAction<T = any>(
+    action: string,
+    params: Record<string, unknown> = {},
+    options: ActionCallOptions = {}
+  ): Promise<OneBotActionResponse<T>> {
+    const echo = this.generateEchoId();
+    const timeoutMs = options.timeoutMs ?? config.websocket.actionTimeoutMs;
+    const request: OneBotActionRequest = { action, params, echo };
+
+    return new Promise<OneBotActionResponse<T>>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        if (this.pendingActions.delete(echo)) {
+          logger.warn(`⏰ OneBot动作响应超时`, { action, echo, timeoutMs });
+          reject(new ActionOutcomeUnknownError(`OneBot action ${action} timed out after ${timeoutMs}ms`));
+        }
+      }, timeoutMs);
+
+      this.pendingActions.set(echo, {
+        action,
+        resolve: resolve as (response: OneBotActionResponse) => void,
+        reject,
+        timer,
+        sentAt: Date.now(),
+        clientId: ''
+      });
+
+      const clientId = this.sendToAccount(request, options.selfId);
+      if (!clientId) {
+        clearTimeout(timer);
+        this.pendingActions.delete(echo);
+        const target = options.selfId !== undefined ? ` (self_id ${options.selfId})` : '';
+        reject(new Error(`No available WebSocket connection for action ${action}${target}`));
+        return;
+      }
+
+      // 记录请求所经的连接，连接断开时据此拒绝
+      const pending = this.pendingActions.get(echo);
+      if (pending) {
+        pending.clientId = clientId;
+      }
+    });
+  }
+
+  /**
+   * 发送到指定机器人账号的连接，返回实际使用的连接ID，发送失败时返回 null
+   *
+   * 指定 selfId 时只发给绑定该账号的连接，找不到则返回 null；
+   * 未指定时发给第一个可用连接，避免多账号下同一动作被重复执行。
+   */
+  sendToAccount(message: any, selfId?: number | string): string | null {
+    const openClients = Array.from(this.clients.values())
+      .filter(clientInfo => clientInfo.socket.readyState === WebSocket.OPEN);
+
+    if (selfId !== undefined && selfId !== null) {
+      const target = openClients.find(clientInfo => clientInfo.selfId === String(selfId));
+      if (!target) {
+        logger.warn(`⚠️  机器人账号 ${selfId} 没有可用的WebSocket连接`);
+        return null;
+      }
+      return this.sendToClient(target.id, message) ? target.id : null;
+    }
+
+    if (openClients.length === 0) {
+      logger.warn('⚠️  没有可用的WebSocket连接，无法发送消息');
+      return null;
+    }
+
+    const accounts = new Set(openClients.map(clientInfo => clientInfo.selfId).filter(Boolean));
+    if (accounts.size > 1) {
+      logger.warn('⚠️  多个机器人账号在线但未指定 self_id，使用第一个可用连接', {
+        clientId: openClients[0].id,
+        selfId: openClients[0].selfId
+      });
+    }
+
+    return this.sendToClient(openClients[0].id, message) ? openClients[0].id : null;
   }
 
   // 广播消息到所有连接的客户端
@@ -309,20 +527,12 @@ export class WSServer {
     }
   }
 
-  // 注册消息处理器
-  onMessage(handler: (message: QQMessage) => void): void {
-    this.messageHandlers.push(handler);
-  }
-
-  // 注册事件处理器
-  onEvent(handler: (event: WSEvent) => void): void {
-    this.eventHandlers.push(handler);
-  }
-
   // 获取连接信息
   getConnectionInfo() {
     const connections = Array.from(this.clients.entries()).map(([id, info]) => ({
       id,
+      direction: info.direction,
+      selfId: info.selfId ?? null,
       ip: info.ip,
       userAgent: info.userAgent,
       connectedAt: info.connectedAt.toISOString(),
@@ -330,9 +540,42 @@ export class WSServer {
       readyStateText: this.getReadyStateText(info.socket.readyState)
     }));
 
+    // 按机器人账号汇总连接状态
+    const accounts = new Map<string, { selfId: string; name: string | null; connectionIds: string[]; connected: boolean }>();
+    this.clients.forEach((info, id) => {
+      if (!info.selfId) {
+        return;
+      }
+      const account = accounts.get(info.selfId) ?? {
+        selfId: info.selfId,
+        name: getAccountConfig(info.selfId)?.name ?? null,
+        connectionIds: [],
+        connected: false
+      };
+      account.connectionIds.push(id);
+      account.connected = account.connected || info.socket.readyState === WebSocket.OPEN;
+      accounts.set(info.selfId, account);
+    });
+
     return {
+      mode: config.websocket.mode,
       connectedCount: this.clients.size,
-      connections
+      pendingActions: this.pendingActions.size,
+      connections,
+      accounts: Array.from(accounts.values()),
+      auth: {
+        tokenRequired: !!config.websocket.serverAccessToken,
+        ipAllowlist: config.websocket.ipAllowlist,
+        rejectedConnections: this.rejectedConnections,
+        lastRejectedAt: this.lastRejectedAt ? new Date(this.lastRejectedAt).toISOString() : null
+      },
+      ...(config.websocket.mode === 'forward' && {
+        forward: {
+          url: config.websocket.forwardUrl,
+          reconnectAttempts: this.reconnectAttempts,
+          nextReconnectAt: this.nextReconnectAt ? new Date(this.nextReconnectAt).toISOString() : null
+        }
+      })
     };
   }
 
@@ -380,6 +623,25 @@ export class WSServer {
     }
   }
 
+  // 生成动作echo标识（单进程内唯一）
+  private generateEchoId(): string {
+    this.echoSequence = (this.echoSequence + 1) % Number.MAX_SAFE_INTEGER;
+    return `fb_${Date.now().toString(36)}_${this.echoSequence}`;
+  }
+
+  // 拒绝等待中的动作（指定 clientId 时只拒绝经该连接发出的）
+  private rejectPendingActions(reason: string, clientId?: string): void {
+    for (const [echo, pending] of this.pendingActions.entries()) {
+      if (clientId && pending.clientId !== clientId) {
+        continue;
+      }
+      clearTimeout(pending.timer);
+      // 请求已经发出，协议端可能已执行
+      pending.reject(new ActionOutcomeUnknownError(`OneBot action ${pending.action} aborted: ${reason}`));
+      this.pendingActions.delete(echo);
+    }
+  }
+
   // 生成客户端ID
   private generateClientId(): string {
     return `ws_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -406,6 +668,20 @@ export class WSServer {
       this.healthCheckInterval = null;
     }
 
+    this.rejectPendingActions('server shutdown');
+
+    // 停止正向连接的重连
+    this.isClosing = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.nextReconnectAt = null;
+    if (this.forwardSocket && this.forwardSocket.readyState === WebSocket.CONNECTING) {
+      this.forwardSocket.terminate();
+    }
+    this.forwardSocket = null;
+
     // 关闭所有客户端连接
     const clientIds = Array.from(this.clients.keys());
     for (const clientId of clientIds) {
@@ -434,7 +710,6 @@ export class WSServer {
 
     // 清理资源
     this.clients.clear();
-    this.messageHandlers = [];
-    this.eventHandlers = [];
+    this.clearHandlers();
   }
 }
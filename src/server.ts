@@ -3,7 +3,16 @@ import path from 'path';
 import { config, validateConfig } from './utils/config';
 import { logger } from './utils/logger';
 import { EnhancedQQChatAgentServer } from './core/enhanced-qq-agent-server';
+import { HttpTransport } from './core/http-transport';
 import { WhitelistManager } from './utils/whitelist-manager';
+import { getResponseValidationStats } from './ai/response-schema';
+import { ApiKeyManager } from './ai/api-key-manager';
+import type { LLMProviderName } from './ai/llm-provider';
+import { LLMFallbackChain } from './ai/llm-fallback-chain';
+import { UsageLedger } from './utils/usage-ledger';
+import { PromptTemplateManager } from './ai/prompt-templates';
+import { MemoryManager, MemoryScope } from './utils/memory-manager';
+import { ConversationSummarizer } from './core/conversation-summarizer';
 
 const fastify = Fastify({
   logger: false, // 使用自定义日志
@@ -44,6 +53,12 @@ logger.info('🤖 使用增强型聊天代理 (队列模式)', {
   queueConfig: config.messageQueue
 });
 
+// OneBot HTTP-POST 事件上报（仅 HTTP 传输模式）
+const transport = chatAgent.getTransport();
+if (transport instanceof HttpTransport) {
+  transport.registerRoutes(fastify);
+}
+
 // 健康检查端点
 fastify.get('/health', async (request, reply) => {
   const connectionStatus = chatAgent.getConnectionStatus();
@@ -129,7 +144,8 @@ fastify.get<{
     success: true,
     data: {
       messages: conversation,
-      count: conversation.length
+      count: conversation.length,
+      summary: ConversationSummarizer.getInstance().get(groupId || userId) ?? null
     }
   };
 });
@@ -316,7 +332,12 @@ fastify.get('/api/logs', async (request, reply) => {
 fastify.get('/api/conversations', async (request, reply) => {
   try {
     // 通过反射访问私有方法获取所有对话
-    const conversations = (chatAgent as any).messageHandler.getAllConversations();
+    const summarizer = ConversationSummarizer.getInstance();
+    const conversations = (chatAgent as any).messageHandler.getAllConversations()
+      .map((conversation: { userId: string; groupId?: string }) => ({
+        ...conversation,
+        summary: summarizer.get(conversation.groupId || conversation.userId) ?? null
+      }));
     
     return {
       success: true,
@@ -332,18 +353,36 @@ fastify.get('/api/conversations', async (request, reply) => {
   }
 });
 
+// 重置会话摘要（键为群号或私聊QQ号），之后较早的消息会重新摘要
+fastify.delete<{
+  Params: { conversationKey: string }
+}>('/api/conversations/:conversationKey/summary', async (request, reply) => {
+  const { conversationKey } = request.params;
+
+  if (!ConversationSummarizer.getInstance().reset(conversationKey)) {
+    return reply.status(404).send({
+      success: false,
+      error: 'Summary not found'
+    });
+  }
+
+  return {
+    success: true,
+    message: 'Summary reset'
+  };
+});
+
 // API Key 管理 API
 fastify.get('/api/apikeys/status', async (request, reply) => {
   try {
-    // 通过反射访问Gemini客户端的API Key管理器
-    const geminiClient = (chatAgent as any).geminiClient;
-    const keyManager = geminiClient.keyManager;
-    
-    const status = keyManager.getStatus();
-    
+    const llmProvider = chatAgent.getLLMProvider();
+
     return {
       success: true,
-      data: status
+      provider: llmProvider.name,
+      data: llmProvider.getApiKeyStatus(),
+      providers: ApiKeyManager.getAllStatuses(),
+      fallback: llmProvider instanceof LLMFallbackChain ? llmProvider.getStatus() : null
     };
   } catch (error) {
     logger.error('获取API Key状态失败', error);
@@ -357,9 +396,10 @@ fastify.get('/api/apikeys/status', async (request, reply) => {
 fastify.post<{
   Body: {
     keyPreview: string;
+    provider?: LLMProviderName;
   }
 }>('/api/apikeys/reset', async (request, reply) => {
-  const { keyPreview } = request.body;
+  const { keyPreview, provider } = request.body;
 
   if (!keyPreview) {
     return reply.status(400).send({
@@ -369,14 +409,14 @@ fastify.post<{
   }
 
   try {
-    // 通过反射访问Gemini客户端的API Key管理器
-    const geminiClient = (chatAgent as any).geminiClient;
-    const keyManager = geminiClient.keyManager;
-    
-    const success = keyManager.resetApiKey(keyPreview);
+    const llmProvider = chatAgent.getLLMProvider();
+    // 未指定或指定当前提供方时走客户端，其余提供方直接操作对应的Key池
+    const success = !provider || provider === llmProvider.name
+      ? llmProvider.resetApiKeyStatus(keyPreview)
+      : ApiKeyManager.getInstance(provider).resetApiKey(keyPreview);
     
     if (success) {
-      logger.info('✅ API Key手动重置成功', { keyPreview });
+      logger.info('✅ API Key手动重置成功', { keyPreview, provider: provider || llmProvider.name });
       return {
         success: true,
         message: `API Key ${keyPreview} 状态已重置`
@@ -398,24 +438,24 @@ fastify.post<{
 
 fastify.post('/api/apikeys/switch', async (request, reply) => {
   try {
-    // 通过反射访问Gemini客户端
-    const geminiClient = (chatAgent as any).geminiClient;
+    const llmProvider = chatAgent.getLLMProvider();
     
-    // 调用GeminiClient的强制切换方法，这会正确地重新初始化客户端
-    geminiClient.forceKeySwitch();
+    // 强制切换会同步重新初始化客户端
+    llmProvider.forceKeySwitch();
     
     // 获取切换后的状态
-    const keyManager = geminiClient.keyManager;
-    const currentKey = keyManager.getCurrentApiKey();
+    const currentKey = llmProvider.getApiKeyStatus().currentKey;
     
     logger.info('✅ API Key手动切换成功', { 
-      newKey: `${currentKey.substring(0, 10)}...` 
+      provider: llmProvider.name,
+      newKey: currentKey
     });
     
     return {
       success: true,
       message: '已切换到下一个可用的API Key',
-      currentKey: `${currentKey.substring(0, 10)}...`
+      provider: llmProvider.name,
+      currentKey
     };
   } catch (error) {
     logger.error('切换API Key失败', error);
@@ -426,6 +466,245 @@ fastify.post('/api/apikeys/switch', async (request, reply) => {
   }
 });
 
+// 模型输出校验统计（结构化输出模式）
+fastify.get('/api/ai/validation', async (request, reply) => {
+  return {
+    success: true,
+    data: {
+      responseMode: config.ai.responseMode,
+      ...getResponseValidationStats()
+    }
+  };
+});
+
+// Token 用量统计（period=day|week，date 为截止日期 YYYY-MM-DD）
+fastify.get<{
+  Querystring: {
+    period?: string;
+    date?: string;
+  }
+}>('/api/usage', async (request, reply) => {
+  const period = request.query.period === 'week' ? 'week' : 'day';
+  const date = request.query.date ? new Date(`${request.query.date}T00:00:00`) : new Date();
+
+  if (Number.isNaN(date.getTime())) {
+    return reply.status(400).send({
+      success: false,
+      error: 'Invalid date, expected YYYY-MM-DD'
+    });
+  }
+
+  return {
+    success: true,
+    data: UsageLedger.getInstance().getSummary(period, date)
+  };
+});
+
+// 提示词模板列表与加载状态
+fastify.get('/api/prompts', async (request, reply) => {
+  return {
+    success: true,
+    data: {
+      defaultTemplate: config.prompts.defaultTemplate,
+      groups: config.prompts.groups,
+      hotReload: config.prompts.hotReload,
+      templates: PromptTemplateManager.getInstance().getStatus()
+    }
+  };
+});
+
+// 预览某个会话下一次请求的完整提示词（不调用模型）
+fastify.get<{
+  Querystring: {
+    contextId?: string;
+  }
+}>('/api/prompts/preview', async (request, reply) => {
+  const { contextId } = request.query;
+
+  if (!contextId) {
+    return reply.status(400).send({
+      success: false,
+      error: 'contextId is required'
+    });
+  }
+
+  try {
+    return {
+      success: true,
+      data: chatAgent.previewPrompt(contextId)
+    };
+  } catch (error) {
+    return reply.status(400).send({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to render prompt'
+    });
+  }
+});
+
+// 长期记忆列表（可按 scope=user|group 与 subjectId 过滤）
+fastify.get<{
+  Querystring: {
+    scope?: string;
+    subjectId?: string;
+  }
+}>('/api/memories', async (request, reply) => {
+  const { scope, subjectId } = request.query;
+
+  if (scope && scope !== 'user' && scope !== 'group') {
+    return reply.status(400).send({
+      success: false,
+      error: 'scope must be user or group'
+    });
+  }
+
+  const memories = MemoryManager.getInstance().list({ scope: scope as MemoryScope | undefined, subjectId });
+
+  return {
+    success: true,
+    data: {
+      enabled: config.memory.enabled,
+      memories,
+      count: memories.length
+    }
+  };
+});
+
+// 手动添加记忆
+fastify.post<{
+  Body: {
+    scope: MemoryScope;
+    subjectId: string;
+    content: string;
+  }
+}>('/api/memories', async (request, reply) => {
+  const { scope, subjectId, content } = request.body || {};
+
+  if (scope !== 'user' && scope !== 'group') {
+    return reply.status(400).send({
+      success: false,
+      error: 'scope must be user or group'
+    });
+  }
+
+  try {
+    const memory = MemoryManager.getInstance().remember({
+      scope,
+      subjectId: String(subjectId ?? ''),
+      content,
+      groupId: scope === 'group' ? String(subjectId) : undefined,
+      source: 'admin'
+    });
+
+    return {
+      success: true,
+      data: memory
+    };
+  } catch (error) {
+    return reply.status(400).send({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to add memory'
+    });
+  }
+});
+
+// 修改记忆内容
+fastify.put<{
+  Params: {
+    id: string;
+  };
+  Body: {
+    content: string;
+  }
+}>('/api/memories/:id', async (request, reply) => {
+  try {
+    const memory = MemoryManager.getInstance().update(request.params.id, request.body?.content);
+
+    if (!memory) {
+      return reply.status(404).send({
+        success: false,
+        error: 'Memory not found'
+      });
+    }
+
+    return {
+      success: true,
+      data: memory
+    };
+  } catch (error) {
+    return reply.status(400).send({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update memory'
+    });
+  }
+});
+
+// 删除记忆
+fastify.delete<{
+  Params: {
+    id: string;
+  }
+}>('/api/memories/:id', async (request, reply) => {
+  const memory = MemoryManager.getInstance().forget(request.params.id);
+
+  if (!memory) {
+    return reply.status(404).send({
+      success: false,
+      error: 'Memory not found'
+    });
+  }
+
+  return {
+    success: true,
+    data: memory
+  };
+});
+
+// 大模型降级链状态
+fastify.get('/api/ai/fallback', async (request, reply) => {
+  const llmProvider = chatAgent.getLLMProvider();
+
+  return {
+    success: true,
+    data: {
+      enabled: llmProvider instanceof LLMFallbackChain,
+      provider: llmProvider.name,
+      model: llmProvider.model,
+      chain: llmProvider instanceof LLMFallbackChain ? llmProvider.getStatus() : null
+    }
+  };
+});
+
+// 撤回消息
+fastify.post<{
+  Params: {
+    id: string;
+  }
+}>('/api/messages/:id/recall', async (request, reply) => {
+  const messageId = parseInt(request.params.id, 10);
+
+  if (Number.isNaN(messageId)) {
+    return reply.status(400).send({
+      success: false,
+      error: 'Invalid message id'
+    });
+  }
+
+  const result = await chatAgent.recallMessage(messageId);
+
+  if (!result.success) {
+    return reply.status(502).send({
+      success: false,
+      error: result.error || 'Failed to recall message'
+    });
+  }
+
+  return {
+    success: true,
+    message: `消息 ${messageId} 已撤回`,
+    data: result.record
+  };
+});
+
 // Stamina management endpoints
 fastify.get('/api/stamina/status', async (request, reply) => {
   try {
@@ -545,6 +824,17 @@ async function startServer() {
       process.exit(1);
     }
 
+    // 校验提示词模板
+    const promptTemplates = PromptTemplateManager.getInstance();
+    const templateProblems = promptTemplates.validate();
+    if (templateProblems.length > 0) {
+      templateProblems.forEach(problem => logger.error(`❌ ${problem}`));
+      process.exit(1);
+    }
+    if (config.prompts.hotReload) {
+      promptTemplates.watch();
+    }
+
     logger.info('Starting server...');
 
     // 初始化聊天Agent
@@ -560,12 +850,17 @@ async function startServer() {
       host: '0.0.0.0'
     });
 
-    // 启动WebSocket服务器（附加到HTTP服务器）
-    const wsServer = chatAgent.getWSServer();
-    wsServer.start(fastify.server);
+    // 启动OneBot传输（WebSocket模式下附加到HTTP服务器）
+    transport.start(fastify.server);
 
     logger.info(`🚀 HTTP服务器运行在 http://localhost:${config.port}`);
-    logger.info(`🔌 WebSocket服务器运行在 ws://localhost:${config.port}${config.websocket.serverPath}`);
+    if (config.onebot.transport === 'http') {
+      logger.info(`🔌 OneBot HTTP模式，API: ${config.onebot.httpApiUrl} 事件上报: http://localhost:${config.port}${config.onebot.httpEventPath}`);
+    } else if (config.websocket.mode === 'forward') {
+      logger.info(`🔌 WebSocket正向模式，主动连接NapCat: ${config.websocket.forwardUrl}`);
+    } else {
+      logger.info(`🔌 WebSocket服务器运行在 ws://localhost:${config.port}${config.websocket.serverPath}`);
+    }
     logger.info('');
     logger.info('📋 可用端点:');
     logger.info('  GET  /health - 健康检查');
@@ -580,16 +875,28 @@ async function startServer() {
     logger.info('  DELETE /whitelist/groups - 从白名单移除群组');
     logger.info('  GET  /api/logs - 获取系统日志');
     logger.info('  GET  /api/conversations - 获取对话历史');
+    logger.info('  DELETE /api/conversations/:conversationKey/summary - 重置会话摘要');
     logger.info('  GET  /api/apikeys/status - 获取API Key状态');
     logger.info('  POST /api/apikeys/reset - 重置API Key状态');
     logger.info('  POST /api/apikeys/switch - 切换API Key');
+    logger.info('  GET  /api/ai/fallback - 获取大模型降级链状态');
+    logger.info('  GET  /api/usage - 获取Token用量统计');
+    logger.info('  GET  /api/prompts - 获取提示词模板状态');
+    logger.info('  GET  /api/prompts/preview - 预览会话提示词');
+    logger.info('  GET  /api/memories - 获取长期记忆');
+    logger.info('  POST /api/memories - 添加长期记忆');
+    logger.info('  PUT  /api/memories/:id - 修改长期记忆');
+    logger.info('  DELETE /api/memories/:id - 删除长期记忆');
+    logger.info('  POST /api/messages/:id/recall - 撤回消息');
     logger.info('  GET  /api/stamina/status - 获取体力状态');
     logger.info('  POST /api/stamina/set - 设置体力值');
     logger.info('  POST /api/stamina/rest - 设置休息模式');
     logger.info('');
     logger.info(`🌐 WebUI管理界面: http://localhost:${config.port}`);
     logger.info(`🤖 智能QQ机器人已就绪！`);
-    logger.info(`📱 请将你的NapCat连接到: ws://localhost:${config.port}${config.websocket.serverPath}`);
+    if (config.onebot.transport === 'ws' && config.websocket.mode !== 'forward') {
+      logger.info(`📱 请将你的NapCat连接到: ws://localhost:${config.port}${config.websocket.serverPath}`);
+    }
   } catch (error) {
     logger.error('Failed to start server', error);
     process.exit(1);
@@ -0,0 +1,82 @@
+import { Tool, ToolCall, ToolResult, ToolExecutionContext } from './types';
+import { MemoryManager } from '../utils/memory-manager';
+
+/**
+ * 遗忘事实工具 - 让LLM删除已过时或错误的记忆
+ */
+export class ForgetFactTool implements Tool {
+  name = 'forget_fact';
+  description = '删除一条已过时或错误的长期记忆。fact_id 取自上下文 memories 数组中的 factId。';
+  parameters = [
+    {
+      name: 'fact_id',
+      type: 'string' as const,
+      description: '要删除的记忆ID',
+      required: true
+    },
+    {
+      name: 'reason',
+      type: 'string' as const,
+      description: '删除的理由（用于日志记录）',
+      required: true
+    }
+  ];
+
+  async execute(call: ToolCall, context: ToolExecutionContext): Promise<ToolResult> {
+    const { fact_id, reason } = call.arguments;
+
+    if (!fact_id || typeof fact_id !== 'string') {
+      return {
+        success: false,
+        error: '缺少或无效的记忆ID'
+      };
+    }
+
+    const memoryManager = MemoryManager.getInstance();
+    const senderIds = context.senderIds ?? [String(context.userId)];
+    const groupId = context.groupId ? String(context.groupId) : undefined;
+
+    // 只能删除本批次上下文中可见的记忆：本群的，或本批次发言用户的
+    if (!memoryManager.getRelevant(senderIds, groupId).some(memory => memory.id === fact_id)) {
+      return {
+        success: false,
+        error: `记忆不存在: ${fact_id}`
+      };
+    }
+
+    memoryManager.forget(fact_id);
+
+    return {
+      success: true,
+      result: {
+        action: 'forget',
+        factId: fact_id,
+        reason: reason || '记忆已过时'
+      }
+    };
+  }
+
+  /**
+   * 生成工具的JSON Schema描述
+   */
+  toSchema(): object {
+    return {
+      name: this.name,
+      description: this.description,
+      parameters: {
+        type: 'object',
+        properties: {
+          fact_id: {
+            type: 'string',
+            description: '要删除的记忆ID'
+          },
+          reason: {
+            type: 'string',
+            description: '删除的理由'
+          }
+        },
+        required: ['fact_id', 'reason']
+      }
+    };
+  }
+}
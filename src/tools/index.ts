@@ -1,5 +1,9 @@
 export * from './types';
 export * from './tool-manager';
 export * from './mention-tool';
+export * from './quote-tool';
 export * from './reply-tool';
 export * from './no-reply-tool';
+export * from './remember-fact-tool';
+export * from './forget-fact-tool';
+export * from './search-history-tool';
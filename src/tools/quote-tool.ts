@@ -0,0 +1,77 @@
+import { Tool, ToolCall, ToolResult, ToolExecutionContext } from './types';
+
+/**
+ * 引用回复工具 - 让LLM指定本次回复要引用的消息
+ */
+export class QuoteTool implements Tool {
+  name = 'quote_message';
+  description = '引用回复某条消息。在多人同时发言、需要明确回复对象时使用，message_id 取自 queueMessages 中的 messageId。';
+  parameters = [
+    {
+      name: 'message_id',
+      type: 'string' as const,
+      description: '要引用回复的消息ID',
+      required: true
+    },
+    {
+      name: 'reason',
+      type: 'string' as const,
+      description: '引用该消息的理由（用于日志记录）',
+      required: false
+    }
+  ];
+
+  async execute(call: ToolCall, context: ToolExecutionContext): Promise<ToolResult> {
+    const { message_id, reason } = call.arguments;
+    const messageId = typeof message_id === 'number' ? message_id : parseInt(String(message_id ?? ''), 10);
+
+    // 验证参数
+    if (!Number.isSafeInteger(messageId) || messageId === 0) {
+      return {
+        success: false,
+        error: '缺少或无效的消息ID'
+      };
+    }
+
+    // 编造的消息ID会被协议端拒绝，导致整条回复发送失败
+    if (context.messageIds && !context.messageIds.includes(String(messageId))) {
+      return {
+        success: false,
+        error: `消息 ${messageId} 不在本批次的 queueMessages 中`
+      };
+    }
+
+    return {
+      success: true,
+      result: {
+        action: 'quote',
+        messageId,
+        reason: reason || '明确回复对象'
+      }
+    };
+  }
+
+  /**
+   * 生成工具的JSON Schema描述
+   */
+  toSchema(): object {
+    return {
+      name: this.name,
+      description: this.description,
+      parameters: {
+        type: 'object',
+        properties: {
+          message_id: {
+            type: 'string',
+            description: '要引用回复的消息ID'
+          },
+          reason: {
+            type: 'string',
+            description: '引用该消息的理由'
+          }
+        },
+        required: ['message_id']
+      }
+    };
+  }
+}
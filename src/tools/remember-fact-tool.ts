@@ -0,0 +1,114 @@
+import { Tool, ToolCall, ToolResult, ToolExecutionContext } from './types';
+import { MemoryManager, MemoryScope } from '../utils/memory-manager';
+
+/**
+ * 记住事实工具 - 让LLM把值得长期记住的信息写入记忆
+ */
+export class RememberFactTool implements Tool {
+  name = 'remember_fact';
+  description = '记住关于某个用户或本群的长期事实（如职业、爱好、称呼偏好、群规）。只记录明确、稳定且以后有用的信息，不要记录闲聊内容或敏感隐私。';
+  parameters = [
+    {
+      name: 'about',
+      type: 'string' as const,
+      description: 'user: 关于某个用户；group: 关于本群',
+      required: true,
+      enum: ['user', 'group']
+    },
+    {
+      name: 'user_id',
+      type: 'string' as const,
+      description: 'about 为 user 时该用户的QQ号，须为本次对话中的发言用户，默认为当前发言的用户',
+      required: false
+    },
+    {
+      name: 'fact',
+      type: 'string' as const,
+      description: '要记住的事实，用一句完整的话描述',
+      required: true
+    }
+  ];
+
+  async execute(call: ToolCall, context: ToolExecutionContext): Promise<ToolResult> {
+    const { about, user_id, fact } = call.arguments;
+
+    if (about !== 'user' && about !== 'group') {
+      return {
+        success: false,
+        error: 'about 只能是 user 或 group'
+      };
+    }
+
+    if (!fact || typeof fact !== 'string') {
+      return {
+        success: false,
+        error: '缺少要记住的事实'
+      };
+    }
+
+    if (about === 'group' && !context.groupId) {
+      return {
+        success: false,
+        error: '只能在群聊中记住关于群的事实'
+      };
+    }
+
+    const scope: MemoryScope = about;
+    const subjectId = scope === 'group' ? String(context.groupId) : String(user_id || context.userId);
+
+    // 只能记住本批次发言用户的事实，避免在一个群里改写其他群用户的记忆
+    const senderIds = context.senderIds ?? [String(context.userId)];
+    if (scope === 'user' && !senderIds.includes(subjectId)) {
+      return {
+        success: false,
+        error: `只能记住本次对话中发言用户的事实: ${subjectId}`
+      };
+    }
+    const record = MemoryManager.getInstance().remember({
+      scope,
+      subjectId,
+      content: fact,
+      groupId: context.groupId ? String(context.groupId) : undefined,
+      source: 'model'
+    });
+
+    return {
+      success: true,
+      result: {
+        action: 'remember',
+        factId: record.id,
+        about: scope,
+        subjectId
+      }
+    };
+  }
+
+  /**
+   * 生成工具的JSON Schema描述
+   */
+  toSchema(): object {
+    return {
+      name: this.name,
+      description: this.description,
+      parameters: {
+        type: 'object',
+        properties: {
+          about: {
+            type: 'string',
+            enum: ['user', 'group'],
+            description: 'user: 关于某个用户；group: 关于本群'
+          },
+          user_id: {
+            type: 'string',
+            description: 'about 为 user 时该用户的QQ号，须为本次对话中的发言用户，默认为当前发言的用户'
+          },
+          fact: {
+            type: 'string',
+            description: '要记住的事实，用一句完整的话描述'
+          }
+        },
+        required: ['about', 'fact']
+      }
+    };
+  }
+}
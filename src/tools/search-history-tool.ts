@@ -0,0 +1,73 @@
+import { Tool, ToolCall, ToolResult, ToolExecutionContext } from './types';
+import { HistoryIndex } from '../core/history-index';
+
+/**
+ * 历史检索工具 - 在当前群/私聊的较早消息中查找相关发言
+ */
+export class SearchHistoryTool implements Tool {
+  name = 'search_history';
+  description = '在本群（或当前私聊）recentHistory 之前的较早聊天记录中检索相关消息，返回发言人、时间和消息ID。有人问起以前聊过的内容而上下文中找不到时使用。';
+  parameters = [
+    {
+      name: 'query',
+      type: 'string' as const,
+      description: '检索内容，使用关键词或一句简短的描述，如「去成都」',
+      required: true
+    },
+    {
+      name: 'within_days',
+      type: 'number' as const,
+      description: '只检索最近若干天的消息，如问「上周」时填 14',
+      required: false
+    }
+  ];
+
+  async execute(call: ToolCall, context: ToolExecutionContext): Promise<ToolResult> {
+    const { query, within_days } = call.arguments;
+
+    if (!query || typeof query !== 'string' || !query.trim()) {
+      return {
+        success: false,
+        error: '缺少检索内容'
+      };
+    }
+
+    const withinDays = Number(within_days) > 0 ? Number(within_days) : undefined;
+    const conversationKey = String(context.groupId ?? context.userId);
+    const results = await HistoryIndex.getInstance().search(conversationKey, query.trim(), { withinDays });
+
+    return {
+      success: true,
+      result: {
+        action: 'search_history',
+        query: query.trim(),
+        count: results.length,
+        results
+      }
+    };
+  }
+
+  /**
+   * 生成工具的JSON Schema描述
+   */
+  toSchema(): object {
+    return {
+      name: this.name,
+      description: this.description,
+      parameters: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: '检索内容，使用关键词或一句简短的描述，如「去成都」'
+          },
+          within_days: {
+            type: 'number',
+            description: '只检索最近若干天的消息，如问「上周」时填 14'
+          }
+        },
+        required: ['query']
+      }
+    };
+  }
+}
@@ -1,7 +1,12 @@
 import { Tool, ToolCall, ToolResult, ToolExecutionContext } from './types';
 import { MentionTool } from './mention-tool';
+import { QuoteTool } from './quote-tool';
 import { ReplyTool } from './reply-tool';
 import { NoReplyTool } from './no-reply-tool';
+import { RememberFactTool } from './remember-fact-tool';
+import { ForgetFactTool } from './forget-fact-tool';
+import { SearchHistoryTool } from './search-history-tool';
+import { config } from '../utils/config';
 import { logger } from '../utils/logger';
 
 /**
@@ -15,6 +20,16 @@ export class ToolManager {
     this.registerTool(new ReplyTool());      // 回复消息工具
     this.registerTool(new NoReplyTool());    // 不回复工具
     this.registerTool(new MentionTool());    // @提及工具
+    this.registerTool(new QuoteTool());      // 引用回复工具
+
+    if (config.memory.enabled) {
+      this.registerTool(new RememberFactTool());  // 记住长期事实
+      this.registerTool(new ForgetFactTool());    // 删除过时记忆
+    }
+
+    if (config.history.enabled) {
+      this.registerTool(new SearchHistoryTool()); // 检索较早的聊天记录
+    }
   }
 
   /**
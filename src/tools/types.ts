@@ -31,4 +31,8 @@ export interface ToolExecutionContext {
   userId: number;
   groupId?: number;
   messageType: 'group' | 'private';
+  selfId?: string;  // 接收消息的机器人账号（多账号模式）
+  contextId?: string;  // 队列上下文ID（用量统计按此归属）
+  senderIds?: string[];  // 本批次消息的发言用户，未提供时视为只有 userId
+  messageIds?: string[];  // 本批次消息的ID，提供时引用回复只能从中选择
 }
\ No newline at end of file
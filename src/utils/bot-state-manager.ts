@@ -1,8 +1,11 @@
 import { logger } from './logger';
+import { config } from './config';
 
 export class BotStateManager {
   private static instance: BotStateManager;
   private isGroupChatEnabled: boolean = true;
+  // /image 命令设置的群图片理解开关，优先于环境变量
+  private imageUnderstandingOverrides: Map<string, boolean> = new Map();
 
   private constructor() {}
 
@@ -35,6 +38,25 @@ export class BotStateManager {
     return true;
   }
 
+  // 图片理解开关：命令设置 > IMAGE_UNDERSTANDING_GROUPS > IMAGE_UNDERSTANDING
+  isImageUnderstandingEnabled(groupId?: string): boolean {
+    if (groupId) {
+      const override = this.imageUnderstandingOverrides.get(groupId);
+      if (override !== undefined) {
+        return override;
+      }
+      if (config.images.groups.includes(groupId)) {
+        return true;
+      }
+    }
+    return config.images.enabled;
+  }
+
+  setImageUnderstanding(groupId: string, enabled: boolean): void {
+    this.imageUnderstandingOverrides.set(groupId, enabled);
+    logger.info(`${enabled ? '🖼️ 已开启' : '🚫 已关闭'}群图片理解`, { groupId });
+  }
+
   getStatus(): { groupChatEnabled: boolean } {
     return {
       groupChatEnabled: this.isGroupChatEnabled
@@ -0,0 +1,176 @@
+import { config, DailyBudget } from './config';
+import { logger } from './logger';
+import { UsageLedger, formatUsageDate } from './usage-ledger';
+
+export const GLOBAL_BUDGET_SCOPE = 'global';
+
+export type BudgetState = 'normal' | 'throttled' | 'exhausted';
+
+export interface BudgetUsage {
+  scope: string;                  // 'global' 或群号
+  budget: DailyBudget;
+  usedTokens: number;
+  usedRequests: number;
+  ratio: number;                  // 已用比例，token 与请求数取较高者；不限制时为 0
+  overridden: boolean;            // 是否由 /budget 命令覆盖
+}
+
+export interface BudgetCheck {
+  state: BudgetState;
+  ratio: number;
+  silenceMultiplier: number;      // 静默等待时间的倍数
+  global: BudgetUsage;
+  group?: BudgetUsage;
+}
+
+/**
+ * 每日预算管理器
+ *
+ * 根据用量账本统计当天的 token 与请求数，接近上限时拉长队列静默时间以减少回复，
+ * 达到上限后该群（或全局）当天不再调用模型。
+ */
+export class BudgetManager {
+  private static instance: BudgetManager;
+  // /budget 命令设置的运行时预算，优先于环境变量
+  private overrides: Map<string, Partial<DailyBudget>> = new Map();
+  // 已发送过上限提示的会话 -> 日期
+  private noticeSent: Map<string, string> = new Map();
+
+  private constructor() {}
+
+  static getInstance(): BudgetManager {
+    if (!BudgetManager.instance) {
+      BudgetManager.instance = new BudgetManager();
+    }
+    return BudgetManager.instance;
+  }
+
+  /**
+   * 获取生效的预算（运行时覆盖 > BUDGET_GROUPS > 默认群预算）
+   */
+  getBudget(scope: string): DailyBudget {
+    const base = scope === GLOBAL_BUDGET_SCOPE
+      ? config.budget.global
+      : { ...config.budget.defaultGroup, ...config.budget.groups[scope] };
+    return { ...base, ...this.overrides.get(scope) };
+  }
+
+  /**
+   * 获取某个范围当天的用量与预算
+   */
+  getUsage(scope: string): BudgetUsage {
+    const budget = this.getBudget(scope);
+    const overridden = this.overrides.has(scope);
+
+    if (!budget.tokens && !budget.requests) {
+      return { scope, budget, usedTokens: 0, usedRequests: 0, ratio: 0, overridden };
+    }
+
+    const totals = UsageLedger.getInstance().getDailyTotals(scope === GLOBAL_BUDGET_SCOPE ? undefined : scope);
+    const ratio = Math.max(
+      budget.tokens > 0 ? totals.totalTokens / budget.tokens : 0,
+      budget.requests > 0 ? totals.calls / budget.requests : 0
+    );
+
+    return {
+      scope,
+      budget,
+      usedTokens: totals.totalTokens,
+      usedRequests: totals.calls,
+      ratio,
+      overridden
+    };
+  }
+
+  /**
+   * 检查是否还能为该群（私聊不传 groupId，只受全局预算限制）调用模型
+   */
+  check(groupId?: string | number): BudgetCheck {
+    const global = this.getUsage(GLOBAL_BUDGET_SCOPE);
+    const group = groupId !== undefined && groupId !== null && groupId !== ''
+      ? this.getUsage(String(groupId))
+      : undefined;
+    const ratio = Math.max(global.ratio, group?.ratio ?? 0);
+
+    let state: BudgetState = 'normal';
+    if (ratio >= 1) {
+      state = 'exhausted';
+    } else if (ratio >= config.budget.throttleRatio) {
+      state = 'throttled';
+    }
+
+    return {
+      state,
+      ratio,
+      silenceMultiplier: this.getSilenceMultiplier(ratio),
+      global,
+      group
+    };
+  }
+
+  /**
+   * 设置运行时预算，value 为 0 表示不限制
+   */
+  setBudget(scope: string, field: keyof DailyBudget, value: number): DailyBudget {
+    this.overrides.set(scope, { ...this.overrides.get(scope), [field]: value });
+    const budget = this.getBudget(scope);
+    logger.info('💰 预算已更新', { scope, budget });
+    return budget;
+  }
+
+  /**
+   * 移除运行时预算，恢复环境变量配置
+   */
+  resetBudget(scope: string): boolean {
+    const removed = this.overrides.delete(scope);
+    if (removed) {
+      logger.info('💰 预算已恢复为默认配置', { scope, budget: this.getBudget(scope) });
+    }
+    return removed;
+  }
+
+  /**
+   * 获取全局及已配置群的预算用量（按用量比例排序）
+   */
+  getAllUsage(): { global: BudgetUsage; groups: BudgetUsage[] } {
+    const scopes = new Set([
+      ...Object.keys(config.budget.groups),
+      ...Array.from(this.overrides.keys()).filter(scope => scope !== GLOBAL_BUDGET_SCOPE)
+    ]);
+
+    return {
+      global: this.getUsage(GLOBAL_BUDGET_SCOPE),
+      groups: Array.from(scopes)
+        .map(scope => this.getUsage(scope))
+        .sort((a, b) => b.ratio - a.ratio)
+    };
+  }
+
+  /**
+   * 达到上限时每个会话每天只提示一次，返回本次是否需要发送
+   */
+  claimExhaustedNotice(contextId: string): boolean {
+    if (!config.budget.exhaustedNotice) {
+      return false;
+    }
+
+    const today = formatUsageDate(new Date());
+    if (this.noticeSent.get(contextId) === today) {
+      return false;
+    }
+
+    this.noticeSent.set(contextId, today);
+    return true;
+  }
+
+  // 从节流阈值到上限，静默倍数线性增加到 maxSilenceMultiplier
+  private getSilenceMultiplier(ratio: number): number {
+    const { throttleRatio, maxSilenceMultiplier } = config.budget;
+    if (ratio < throttleRatio || throttleRatio >= 1) {
+      return 1;
+    }
+
+    const progress = Math.min(1, (ratio - throttleRatio) / (1 - throttleRatio));
+    return 1 + progress * (Math.max(1, maxSilenceMultiplier) - 1);
+  }
+}
@@ -1,7 +1,206 @@
 import dotenv from 'dotenv';
+import type { StaminaConfig } from './stamina-manager';
+import type { PersonaConfig } from '../config/persona';
 
 dotenv.config();
 
+// 单个机器人账号的覆盖配置（多账号模式）
+export interface BotAccountConfig {
+  selfId: string;
+  name?: string;
+  groupWhitelist?: string[];
+  stamina?: Partial<StaminaConfig>;
+  persona?: Partial<PersonaConfig>;
+}
+
+// 大模型降级链中的一级（提供方 + 模型）
+export interface LLMTierConfig {
+  provider: 'gemini' | 'openai';
+  model: string;
+}
+
+// 解析 LLM_FALLBACK_CHAIN（如 gemini:gemini-2.5-flash-lite,openai:qwen2.5:7b），只按第一个冒号拆分
+function parseFallbackChain(raw: string | undefined, envName: string = 'LLM_FALLBACK_CHAIN'): LLMTierConfig[] {
+  if (!raw || !raw.trim()) {
+    return [];
+  }
+
+  return raw.split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry)
+    .flatMap(entry => {
+      const separatorIndex = entry.indexOf(':');
+      const provider = separatorIndex > 0 ? entry.substring(0, separatorIndex).toLowerCase() : '';
+      const model = entry.substring(separatorIndex + 1).trim();
+
+      if ((provider !== 'gemini' && provider !== 'openai') || !model) {
+        console.error(`Invalid ${envName} entry "${entry}", expected provider:model`);
+        return [];
+      }
+
+      return [{ provider, model } as LLMTierConfig];
+    });
+}
+
+// 解析 SUMMARY_MODEL；未配置时 Gemini 使用便宜的 flash-lite，
+// OpenAI 兼容接口无法推断便宜模型，返回 undefined（不生成摘要，避免占用主模型）
+function parseSummaryModel(raw: string | undefined): LLMTierConfig | undefined {
+  if (raw && raw.trim()) {
+    return parseFallbackChain(raw, 'SUMMARY_MODEL')[0];
+  }
+  return process.env.LLM_PROVIDER?.toLowerCase() === 'openai'
+    ? undefined
+    : { provider: 'gemini', model: 'gemini-2.5-flash-lite' };
+}
+
+// 模型单价（美元 / 百万 token），用于估算费用
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cachedInput?: number;        // 命中上下文缓存的输入单价，未配置时按 input 计
+}
+
+// 解析 USAGE_PRICING（JSON 对象，键为模型名），格式错误时不估算费用
+function parsePricing(raw: string | undefined): Record<string, ModelPricing> {
+  if (!raw || !raw.trim()) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      console.error('USAGE_PRICING must be a JSON object, ignoring');
+      return {};
+    }
+
+    const pricing: Record<string, ModelPricing> = {};
+    for (const [model, price] of Object.entries(parsed as Record<string, any>)) {
+      const input = Number(price?.input);
+      const output = Number(price?.output);
+      if (Number.isFinite(input) && Number.isFinite(output)) {
+        pricing[model] = { input, output };
+        if (Number.isFinite(Number(price?.cachedInput))) {
+          pricing[model].cachedInput = Number(price.cachedInput);
+        }
+      }
+    }
+    return pricing;
+  } catch (error) {
+    console.error('Failed to parse USAGE_PRICING, ignoring:', error);
+    return {};
+  }
+}
+
+// 每日预算上限，0 表示不限制
+export interface DailyBudget {
+  tokens: number;
+  requests: number;
+}
+
+// 解析 BUDGET_GROUPS（JSON 对象，键为群号），未填写的字段沿用默认群预算
+function parseGroupBudgets(raw: string | undefined): Record<string, Partial<DailyBudget>> {
+  if (!raw || !raw.trim()) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      console.error('BUDGET_GROUPS must be a JSON object, ignoring');
+      return {};
+    }
+
+    const budgets: Record<string, Partial<DailyBudget>> = {};
+    for (const [groupId, budget] of Object.entries(parsed as Record<string, any>)) {
+      const entry: Partial<DailyBudget> = {};
+      if (Number.isFinite(Number(budget?.tokens))) entry.tokens = Number(budget.tokens);
+      if (Number.isFinite(Number(budget?.requests))) entry.requests = Number(budget.requests);
+      budgets[String(groupId)] = entry;
+    }
+    return budgets;
+  } catch (error) {
+    console.error('Failed to parse BUDGET_GROUPS, ignoring:', error);
+    return {};
+  }
+}
+
+// 解析 PROMPT_TEMPLATE_GROUPS（如 123456:formal,654321:quiet），为指定群选择提示词模板
+// 会话历史保留策略，maxAgeDays 为 0 表示不按时间清理
+export interface ConversationRetention {
+  maxMessages: number;
+  maxAgeDays: number;
+}
+
+// 解析 CONVERSATION_RETENTION（JSON 对象，键为群号或私聊QQ号），未填写的字段沿用默认策略
+function parseConversationRetention(raw: string | undefined): Record<string, Partial<ConversationRetention>> {
+  if (!raw || !raw.trim()) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      console.error('CONVERSATION_RETENTION must be a JSON object, ignoring');
+      return {};
+    }
+
+    const retention: Record<string, Partial<ConversationRetention>> = {};
+    for (const [conversationKey, policy] of Object.entries(parsed as Record<string, any>)) {
+      const entry: Partial<ConversationRetention> = {};
+      if (Number.isFinite(Number(policy?.maxMessages))) entry.maxMessages = Number(policy.maxMessages);
+      if (Number.isFinite(Number(policy?.maxAgeDays))) entry.maxAgeDays = Number(policy.maxAgeDays);
+      retention[String(conversationKey)] = entry;
+    }
+    return retention;
+  } catch (error) {
+    console.error('Failed to parse CONVERSATION_RETENTION, ignoring:', error);
+    return {};
+  }
+}
+
+function parseGroupTemplates(raw: string | undefined): Record<string, string> {
+  const templates: Record<string, string> = {};
+  for (const entry of (raw || '').split(',').map(item => item.trim()).filter(item => item)) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0 || separator === entry.length - 1) {
+      console.error(`Invalid PROMPT_TEMPLATE_GROUPS entry "${entry}", expected groupId:template`);
+      continue;
+    }
+    templates[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+  }
+  return templates;
+}
+
+// 解析 BOT_ACCOUNTS（JSON 数组），格式错误时忽略并回退到单账号模式
+function parseBotAccounts(raw: string | undefined): BotAccountConfig[] {
+  if (!raw || !raw.trim()) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      console.error('BOT_ACCOUNTS must be a JSON array, ignoring');
+      return [];
+    }
+
+    return parsed
+      .filter(item => item && item.selfId !== undefined && item.selfId !== null)
+      .map(item => ({
+        ...item,
+        selfId: String(item.selfId),
+        groupWhitelist: Array.isArray(item.groupWhitelist)
+          ? item.groupWhitelist.map((id: unknown) => String(id))
+          : undefined
+      }));
+  } catch (error) {
+    console.error('BOT_ACCOUNTS is not valid JSON, ignoring:', error);
+    return [];
+  }
+}
+
+const summaryModel = parseSummaryModel(process.env.SUMMARY_MODEL);
+
 export const config = {
   port: parseInt(process.env.PORT || '3000'),
   nodeEnv: process.env.NODE_ENV || 'development',
@@ -20,15 +219,139 @@ export const config = {
     // 保持向后兼容
     get apiKey() { return this.apiKeys[0] || ''; },
     model: process.env.GEMINI_MODEL || 'gemini-2.5-flash',
+    // 上下文缓存：静态系统指令足够长时注册为 cachedContent，每次调用只计费动态上下文
+    contextCache: {
+      enabled: process.env.GEMINI_CONTEXT_CACHE?.toLowerCase() !== 'false',
+      minTokens: parseInt(process.env.GEMINI_CONTEXT_CACHE_MIN_TOKENS || '1024'), // 低于该估算长度不创建缓存（接口有最小长度要求）
+      ttlSeconds: parseInt(process.env.GEMINI_CONTEXT_CACHE_TTL_SECONDS || '3600'), // 剩余时间不足一半时续期
+    },
+  },
+
+  // OpenAI 兼容接口（DeepSeek、通义千问、llama.cpp、Ollama 等）
+  openai: {
+    apiKeys: process.env.OPENAI_API_KEY?.split(',').map(key => key.trim()).filter(key => key) || [],
+    baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    timeoutMs: parseInt(process.env.OPENAI_TIMEOUT_MS || '60000'),
   },
   
   ai: {
+    // gemini: Google Gemini（默认）；openai: OpenAI 兼容的 chat completions 接口
+    provider: (process.env.LLM_PROVIDER?.toLowerCase() === 'openai' ? 'openai' : 'gemini') as 'gemini' | 'openai',
+    // tools: 原生函数调用（默认）；json: 结构化JSON输出 + 运行时校验
+    responseMode: ((process.env.LLM_RESPONSE_MODE || process.env.GEMINI_RESPONSE_MODE)?.toLowerCase() === 'json'
+      ? 'json'
+      : 'tools') as 'tools' | 'json',
+    // 主模型配额耗尽时依次尝试的降级链，主模型由 LLM_PROVIDER 及其模型配置决定
+    fallbackChain: parseFallbackChain(process.env.LLM_FALLBACK_CHAIN),
+    // 某一级因配额失败后的冷却时间，到期后重新尝试更高一级
+    fallbackCooldownMs: parseInt(process.env.LLM_FALLBACK_COOLDOWN_MS || '300000'),
+    // 流式生成：结构化输出模式下每完成一条回复就提前发送
+    streaming: process.env.LLM_STREAMING?.toLowerCase() === 'true',
     maxTokens: parseInt(process.env.MAX_TOKENS || '2000'),
     temperature: parseFloat(process.env.TEMPERATURE || '0.7'),
   },
   
+  // 提示词模板（prompts/*.md）
+  prompts: {
+    dir: process.env.PROMPT_TEMPLATE_DIR || 'prompts',
+    defaultTemplate: process.env.PROMPT_TEMPLATE || 'default',
+    groups: parseGroupTemplates(process.env.PROMPT_TEMPLATE_GROUPS),
+    // 模板文件变化后自动重新加载
+    hotReload: process.env.PROMPT_HOT_RELOAD?.toLowerCase() !== 'false',
+  },
+
+  // Token 用量账本
+  usage: {
+    ledgerDir: process.env.USAGE_LEDGER_DIR || 'logs/usage',
+    pricing: parsePricing(process.env.USAGE_PRICING),
+  },
+
+  // 会话历史存储
+  conversations: {
+    // file: 追加写入 NDJSON 文件，重启后恢复（默认）；memory: 仅保存在内存中
+    storage: (process.env.CONVERSATION_STORAGE?.toLowerCase() === 'memory' ? 'memory' : 'file') as 'file' | 'memory',
+    dir: process.env.CONVERSATION_STORE_DIR || 'data/conversations',
+    retention: {
+      maxMessages: parseInt(process.env.CONVERSATION_MAX_MESSAGES || '100'),
+      maxAgeDays: parseInt(process.env.CONVERSATION_MAX_AGE_DAYS || '0'),
+    } as ConversationRetention,
+    // 按会话单独配置的保留策略
+    overrides: parseConversationRetention(process.env.CONVERSATION_RETENTION),
+  },
+
+  // 会话摘要：较早的历史压缩为每个会话的滚动摘要，与最近消息一起放入上下文
+  summary: {
+    // 没有可用的摘要模型时关闭，摘要不会改用主模型
+    enabled: process.env.SUMMARY_ENABLED?.toLowerCase() !== 'false' && !!summaryModel,
+    // 生成摘要使用的模型（provider:model），默认 gemini:gemini-2.5-flash-lite
+    model: summaryModel,
+    file: process.env.SUMMARY_FILE || 'data/summaries.json',
+    // 原样放入上下文的最近消息数，更早的消息才会进入摘要
+    recentMessages: parseInt(process.env.SUMMARY_RECENT_MESSAGES || '50'),
+    // 最近消息之外累计多少条未摘要的消息后触发一次摘要
+    triggerMessages: parseInt(process.env.SUMMARY_TRIGGER_MESSAGES || '20'),
+    maxLength: parseInt(process.env.SUMMARY_MAX_LENGTH || '800'),
+  },
+
+  // 历史检索（search_history 工具）：单独归档较长时间的会话消息，存储方式与会话历史一致
+  history: {
+    enabled: process.env.HISTORY_SEARCH_ENABLED?.toLowerCase() !== 'false',
+    dir: process.env.HISTORY_INDEX_DIR || 'data/history',
+    // 归档保留的消息条数和天数，独立于放入上下文的会话历史
+    retention: {
+      maxMessages: parseInt(process.env.HISTORY_INDEX_MAX_MESSAGES || '5000'),
+      maxAgeDays: parseInt(process.env.HISTORY_INDEX_MAX_AGE_DAYS || '0'),
+    } as ConversationRetention,
+    // bm25: 本地关键词检索，可离线使用（默认）；gemini: Gemini 向量与关键词混合检索
+    retriever: (process.env.HISTORY_SEARCH_MODE?.toLowerCase() === 'gemini' ? 'gemini' : 'bm25') as 'bm25' | 'gemini',
+    embeddingModel: process.env.HISTORY_EMBEDDING_MODEL || 'gemini-embedding-001',
+    embeddingDimensions: parseInt(process.env.HISTORY_EMBEDDING_DIMENSIONS || '256'),
+    maxResults: parseInt(process.env.HISTORY_SEARCH_MAX_RESULTS || '5'),
+  },
+
+  // 每日 token / 请求预算（按本地日期统计，0 表示不限制）
+  budget: {
+    global: {
+      tokens: parseInt(process.env.BUDGET_GLOBAL_DAILY_TOKENS || '0'),
+      requests: parseInt(process.env.BUDGET_GLOBAL_DAILY_REQUESTS || '0'),
+    } as DailyBudget,
+    // 未在 BUDGET_GROUPS 中单独配置的群使用该预算
+    defaultGroup: {
+      tokens: parseInt(process.env.BUDGET_GROUP_DAILY_TOKENS || '0'),
+      requests: parseInt(process.env.BUDGET_GROUP_DAILY_REQUESTS || '0'),
+    } as DailyBudget,
+    groups: parseGroupBudgets(process.env.BUDGET_GROUPS),
+    // 用量达到预算的该比例后开始降低回复频率（拉长静默等待）
+    throttleRatio: parseFloat(process.env.BUDGET_THROTTLE_RATIO || '0.8'),
+    // 接近上限时静默等待时间的最大倍数
+    maxSilenceMultiplier: parseFloat(process.env.BUDGET_MAX_SILENCE_MULTIPLIER || '4'),
+    // 达到上限时在该群发送一次的提示，留空则直接沉默
+    exhaustedNotice: process.env.BUDGET_EXHAUSTED_NOTICE ?? '今天说累了，明天再聊吧~',
+  },
+
+  // 图片理解：把消息中的图片作为内联图片发给模型（仅 Gemini 支持），成本较高，默认关闭
+  images: {
+    enabled: process.env.IMAGE_UNDERSTANDING?.toLowerCase() === 'true', // 所有会话默认开启
+    groups: process.env.IMAGE_UNDERSTANDING_GROUPS
+      ? process.env.IMAGE_UNDERSTANDING_GROUPS.split(',').map(id => id.trim()).filter(id => id)
+      : [] as string[], // 全局关闭时单独开启的群
+    maxBytes: parseInt(process.env.IMAGE_MAX_BYTES || String(5 * 1024 * 1024)), // 单张图片大小上限
+    maxPerBatch: parseInt(process.env.IMAGE_MAX_PER_BATCH || '3'), // 每批最多附带的图片数（取最新的）
+    cacheMaxBytes: parseInt(process.env.IMAGE_CACHE_MAX_BYTES || String(50 * 1024 * 1024)), // 图片缓存总大小上限
+    fetchTimeoutMs: parseInt(process.env.IMAGE_FETCH_TIMEOUT_MS || '10000'),
+  },
+
+  // 长期记忆（模型通过 remember_fact / forget_fact 工具写入）
   memory: {
     limit: parseInt(process.env.MEMORY_LIMIT || '100'),
+    enabled: process.env.MEMORY_ENABLED?.toLowerCase() !== 'false',
+    file: process.env.MEMORY_FILE || 'data/memories.json',
+    // 每个用户/群最多保留的记忆条数，超出时丢弃最久未更新的
+    maxPerSubject: parseInt(process.env.MEMORY_MAX_PER_SUBJECT || '20'),
+    // 每批次注入上下文的记忆条数上限
+    maxInjected: parseInt(process.env.MEMORY_MAX_INJECTED || '30'),
+    maxFactLength: parseInt(process.env.MEMORY_MAX_FACT_LENGTH || '200'),
   },
   
   security: {
@@ -36,9 +359,36 @@ export const config = {
   },
   
   websocket: {
+    // reverse: NapCat 主动连接本服务；forward: 本服务主动连接 NapCat 的正向WS
+    mode: (process.env.WS_MODE?.toLowerCase() === 'forward' ? 'forward' : 'reverse') as 'reverse' | 'forward',
     serverPath: process.env.WS_SERVER_PATH || '/ws',
+    actionTimeoutMs: parseInt(process.env.WS_ACTION_TIMEOUT_MS || '10000'), // OneBot动作响应超时
+    forwardUrl: process.env.NAPCAT_WS_URL || 'ws://127.0.0.1:3001',
+    accessToken: process.env.NAPCAT_ACCESS_TOKEN || '',
+    reconnectInitialMs: parseInt(process.env.WS_RECONNECT_INITIAL_MS || '1000'), // 正向连接断开后的首次重连延迟
+    reconnectMaxMs: parseInt(process.env.WS_RECONNECT_MAX_MS || '30000'), // 指数退避的最大重连延迟
+    // 反向模式下 /ws 握手鉴权：OneBot 标准的 Bearer 令牌或 ?access_token=，留空不校验
+    serverAccessToken: process.env.WS_ACCESS_TOKEN || '',
+    ipAllowlist: process.env.WS_IP_ALLOWLIST
+      ? process.env.WS_IP_ALLOWLIST.split(',').map(ip => ip.trim()).filter(ip => ip)
+      : [] as string[], // 允许连接的IP，留空不限制
   },
   
+  onebot: {
+    // ws: 使用WebSocket（见 websocket.mode）；http: HTTP API + HTTP-POST 事件上报
+    transport: (process.env.ONEBOT_TRANSPORT?.toLowerCase() === 'http' ? 'http' : 'ws') as 'ws' | 'http',
+    httpApiUrl: process.env.ONEBOT_HTTP_API_URL || 'http://127.0.0.1:3000',
+    httpAccessToken: process.env.ONEBOT_HTTP_ACCESS_TOKEN || '',
+    httpEventPath: process.env.ONEBOT_HTTP_EVENT_PATH || '/onebot/event', // 事件上报路由，签名密钥见 WEBHOOK_SECRET
+  },
+
+  events: {
+    welcomeNewMembers: process.env.EVENT_WELCOME_NEW_MEMBERS?.toLowerCase() !== 'false', // 新成员入群时通过队列欢迎
+    pokeTrigger: process.env.EVENT_POKE_TRIGGER?.toLowerCase() !== 'false', // 戳一戳机器人视为高优先级消息
+    autoApproveFriendRequests: process.env.AUTO_APPROVE_FRIEND_REQUESTS?.toLowerCase() === 'true', // 否则转发给管理员
+    autoApproveGroupInvites: process.env.AUTO_APPROVE_GROUP_INVITES?.toLowerCase() === 'true', // 否则转发给管理员
+  },
+
   groupWhitelist: {
     enabled: !!process.env.GROUP_WHITELIST,
     groups: process.env.GROUP_WHITELIST 
@@ -62,11 +412,25 @@ export const config = {
     lowStaminaThreshold: parseInt(process.env.STAMINA_LOW_THRESHOLD || '30'),
     criticalStaminaThreshold: parseInt(process.env.STAMINA_CRITICAL_THRESHOLD || '10'),
     restMode: process.env.STAMINA_REST_MODE?.toLowerCase() === 'true'
-  }
+  },
+
+  // 多账号配置：按 self_id 覆盖白名单、体力与人设
+  accounts: parseBotAccounts(process.env.BOT_ACCOUNTS)
 };
 
+// 按 self_id 查找账号配置，未配置时返回 undefined
+export function getAccountConfig(selfId?: number | string): BotAccountConfig | undefined {
+  if (selfId === undefined || selfId === null) {
+    return undefined;
+  }
+  const id = String(selfId);
+  return config.accounts.find(account => account.selfId === id);
+}
+
 export function validateConfig(): boolean {
-  if (!config.gemini.apiKeys || !config.gemini.apiKeys.length) {
+  // OpenAI 兼容接口可能是无需鉴权的本地服务，只对 Gemini（含降级链中的 Gemini）强制要求 Key
+  const usesGemini = config.ai.provider === 'gemini' || config.ai.fallbackChain.some(tier => tier.provider === 'gemini');
+  if (usesGemini && (!config.gemini.apiKeys || !config.gemini.apiKeys.length)) {
     console.error('GEMINI_API_KEY is required (can be comma-separated for multiple keys)');
     return false;
   }
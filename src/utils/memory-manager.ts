@@ -0,0 +1,229 @@
+import fs from 'fs';
+import { dirname } from 'path';
+import { randomBytes } from 'crypto';
+import { config } from './config';
+import { logger } from './logger';
+
+// user: 关于某个用户的事实；group: 关于某个群的事实
+export type MemoryScope = 'user' | 'group';
+
+export interface MemoryRecord {
+  id: string;
+  scope: MemoryScope;
+  subjectId: string;       // 用户QQ号或群号
+  content: string;
+  groupId?: string;        // 记下该事实时所在的群
+  source: 'model' | 'admin';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RememberInput {
+  scope: MemoryScope;
+  subjectId: string;
+  content: string;
+  groupId?: string;
+  source: MemoryRecord['source'];
+}
+
+export interface MemoryFilter {
+  scope?: MemoryScope;
+  subjectId?: string;
+}
+
+/**
+ * 长期记忆管理器
+ *
+ * 保存关于用户和群的事实，整体写入 JSON 文件；
+ * 每批次按涉及的用户和群取出相关记忆注入上下文。
+ */
+export class MemoryManager {
+  private static instance: MemoryManager;
+  private memories: Map<string, MemoryRecord> = new Map();
+  // 串行写入，避免并发保存时旧内容覆盖新内容
+  private writeChain: Promise<void> = Promise.resolve();
+
+  private constructor() {
+    this.loadFromDisk();
+  }
+
+  static getInstance(): MemoryManager {
+    if (!MemoryManager.instance) {
+      MemoryManager.instance = new MemoryManager();
+    }
+    return MemoryManager.instance;
+  }
+
+  /**
+   * 记住一条事实，同一对象已有相同内容时只更新时间
+   */
+  remember(input: RememberInput): MemoryRecord {
+    const content = this.normalizeContent(input.content);
+    const subjectId = String(input.subjectId).trim();
+    if (!subjectId) {
+      throw new Error('缺少记忆所属的用户或群');
+    }
+
+    const now = new Date().toISOString();
+    const existing = this.list({ scope: input.scope, subjectId }).find(memory => memory.content === content);
+    if (existing) {
+      this.touch(existing, now);
+      this.persist();
+      return existing;
+    }
+
+    const record: MemoryRecord = {
+      id: randomBytes(4).toString('hex'),
+      scope: input.scope,
+      subjectId,
+      content,
+      groupId: input.groupId,
+      source: input.source,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.memories.set(record.id, record);
+    this.enforceLimit(input.scope, subjectId);
+    this.persist();
+
+    logger.info('🧠 记住新的事实', { id: record.id, scope: record.scope, subjectId, source: record.source, content });
+    return record;
+  }
+
+  /**
+   * 修改记忆内容，不存在时返回 undefined
+   */
+  update(id: string, content: string): MemoryRecord | undefined {
+    const record = this.memories.get(id);
+    if (!record) {
+      return undefined;
+    }
+
+    record.content = this.normalizeContent(content);
+    this.touch(record, new Date().toISOString());
+    this.persist();
+
+    logger.info('🧠 记忆已修改', { id, content: record.content });
+    return record;
+  }
+
+  /**
+   * 删除记忆，返回被删除的记录
+   */
+  forget(id: string): MemoryRecord | undefined {
+    const record = this.memories.get(id);
+    if (!record) {
+      return undefined;
+    }
+
+    this.memories.delete(id);
+    this.persist();
+
+    logger.info('🧠 记忆已删除', { id, scope: record.scope, subjectId: record.subjectId });
+    return record;
+  }
+
+  get(id: string): MemoryRecord | undefined {
+    return this.memories.get(id);
+  }
+
+  /**
+   * 按条件列出记忆，最近更新的在前
+   */
+  list(filter: MemoryFilter = {}): MemoryRecord[] {
+    // Map 按更新先后排列，反转后同一毫秒内更新的记录也保持最近的在前
+    return Array.from(this.memories.values())
+      .reverse()
+      .filter(memory => !filter.scope || memory.scope === filter.scope)
+      .filter(memory => !filter.subjectId || memory.subjectId === filter.subjectId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * 获取与本批次相关的记忆：所在群的记忆和批次中各用户的记忆
+   */
+  getRelevant(userIds: string[], groupId?: string): MemoryRecord[] {
+    const users = new Set(userIds);
+    return this.list()
+      .filter(memory => memory.scope === 'user' ? users.has(memory.subjectId) : memory.subjectId === groupId)
+      .slice(0, config.memory.maxInjected);
+  }
+
+  /**
+   * 等待尚未完成的写入
+   */
+  flush(): Promise<void> {
+    return this.writeChain;
+  }
+
+  // 更新时间并移到末尾，保持 Map 按更新先后排列
+  private touch(record: MemoryRecord, updatedAt: string): void {
+    record.updatedAt = updatedAt;
+    this.memories.delete(record.id);
+    this.memories.set(record.id, record);
+  }
+
+  private normalizeContent(content: string): string {
+    const normalized = String(content ?? '').replace(/\s+/g, ' ').trim();
+    if (!normalized) {
+      throw new Error('记忆内容不能为空');
+    }
+    if (normalized.length > config.memory.maxFactLength) {
+      throw new Error(`记忆内容不能超过${config.memory.maxFactLength}个字符`);
+    }
+    return normalized;
+  }
+
+  // 超出单个对象的条数上限时丢弃最久未更新的记忆
+  private enforceLimit(scope: MemoryScope, subjectId: string): void {
+    const records = this.list({ scope, subjectId });
+    for (const record of records.slice(Math.max(config.memory.maxPerSubject, 1))) {
+      this.memories.delete(record.id);
+      logger.debug('🧠 记忆条数超出上限，丢弃最旧记忆', { id: record.id, scope, subjectId });
+    }
+  }
+
+  private persist(): void {
+    const filePath = config.memory.file;
+    const content = JSON.stringify(Array.from(this.memories.values()), null, 2);
+
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await fs.promises.mkdir(dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(`${filePath}.tmp`, content, 'utf8');
+        await fs.promises.rename(`${filePath}.tmp`, filePath);
+      })
+      .catch(error => {
+        logger.warn('⚠️ 保存长期记忆失败', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+  }
+
+  private loadFromDisk(): void {
+    const filePath = config.memory.file;
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+
+    try {
+      const records = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      if (!Array.isArray(records)) {
+        throw new Error('记忆文件应为JSON数组');
+      }
+
+      for (const record of records as MemoryRecord[]) {
+        if (record?.id && record.subjectId && record.content) {
+          this.memories.set(record.id, record);
+        }
+      }
+
+      logger.info(`🧠 已加载 ${this.memories.size} 条长期记忆`, { file: filePath });
+    } catch (error) {
+      logger.warn('⚠️ 读取长期记忆失败', {
+        file: filePath,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
@@ -10,7 +10,7 @@
  */
 
 import { logger } from './logger';
-import { config } from './config';
+import { config, getAccountConfig } from './config';
 import { EventEmitter } from 'events';
 
 export interface StaminaConfig {
@@ -399,4 +399,26 @@ export class StaminaManager extends EventEmitter {
 }
 
 // 创建全局单例实例
-export const staminaManager = new StaminaManager();
\ No newline at end of file
+export const staminaManager = new StaminaManager();
+
+// 多账号模式下每个账号独立的体力管理器（按需创建）
+const accountStaminaManagers = new Map<string, StaminaManager>();
+
+/**
+ * 获取指定账号的体力管理器
+ * 账号未在 BOT_ACCOUNTS 中配置体力参数时共享全局实例
+ */
+export function getStaminaManager(selfId?: number | string): StaminaManager {
+  const account = getAccountConfig(selfId);
+  if (!account || !account.stamina) {
+    return staminaManager;
+  }
+
+  let manager = accountStaminaManagers.get(account.selfId);
+  if (!manager) {
+    manager = new StaminaManager(account.stamina);
+    accountStaminaManagers.set(account.selfId, manager);
+    logger.info(`🔋 已为账号 ${account.selfId} 创建独立体力管理器`);
+  }
+  return manager;
+}
\ No newline at end of file
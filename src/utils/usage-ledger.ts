@@ -0,0 +1,324 @@
+import fs from 'fs';
+import { join } from 'path';
+import { config } from './config';
+import { logger } from './logger';
+import { TokenUsage } from '../core/types';
+
+// 单次模型调用的用量记录（每行一条写入当日的 NDJSON 文件）
+export interface UsageRecord extends TokenUsage {
+  at: string;
+  date: string;
+  contextId: string;
+  groupId?: number;
+  userId?: number;
+  provider: string;
+  model: string;
+  keyPreview: string;
+  estimated?: boolean;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  thinkingTokens: number;
+  totalTokens: number;
+  cachedTokens: number;
+  cacheHits: number;            // 命中上下文缓存的调用次数
+  cacheMisses: number;          // 提供方返回了缓存信息但未命中的调用次数
+  estimatedCost: number;
+}
+
+export type UsagePeriod = 'day' | 'week';
+
+export interface UsageSummary {
+  period: UsagePeriod;
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  daily: Array<{ date: string } & UsageTotals>;
+  byContext: Array<{ contextId: string } & UsageTotals>;
+  byKey: Array<{ keyPreview: string } & UsageTotals>;
+  byModel: Array<{ model: string } & UsageTotals>;
+}
+
+interface UsageBucket extends UsageTotals {
+  date: string;
+  contextId: string;
+  groupId?: number;
+  keyPreview: string;
+  model: string;
+}
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  thinkingTokens: 0,
+  totalTokens: 0,
+  cachedTokens: 0,
+  cacheHits: 0,
+  cacheMisses: 0,
+  estimatedCost: 0
+});
+
+// 本地时区的 YYYY-MM-DD
+export function formatUsageDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Token 用量账本
+ *
+ * 按 日期 + 上下文 + API Key + 模型 聚合每次调用的用量，原始记录按天追加到磁盘，
+ * 启动时从最近的文件重建聚合数据。
+ */
+export class UsageLedger {
+  private static instance: UsageLedger;
+  private buckets: Map<string, UsageBucket> = new Map();
+  // 串行追加，便于关闭前等待写入完成
+  private writeChain: Promise<void> = Promise.resolve();
+
+  // 内存中保留的天数（覆盖周统计并留有余量）
+  private readonly RETENTION_DAYS = 35;
+
+  private constructor() {
+    this.loadFromDisk();
+  }
+
+  static getInstance(): UsageLedger {
+    if (!UsageLedger.instance) {
+      UsageLedger.instance = new UsageLedger();
+    }
+    return UsageLedger.instance;
+  }
+
+  /**
+   * 记录一次调用的用量
+   */
+  record(entry: Omit<UsageRecord, 'at' | 'date'>): UsageRecord {
+    const now = new Date();
+    const record: UsageRecord = { ...entry, at: now.toISOString(), date: formatUsageDate(now) };
+
+    this.addToBucket(record);
+    this.pruneOldBuckets(now);
+    this.persist(record);
+
+    logger.debug('📊 记录Token用量', {
+      contextId: record.contextId,
+      model: record.model,
+      promptTokens: record.promptTokens,
+      completionTokens: record.completionTokens,
+      thinkingTokens: record.thinkingTokens,
+      cachedTokens: record.cachedTokens,
+      estimated: record.estimated || false
+    });
+
+    return record;
+  }
+
+  /**
+   * 获取日/周汇总，date 为统计截止日（默认今天）
+   */
+  getSummary(period: UsagePeriod = 'day', date: Date = new Date()): UsageSummary {
+    const to = formatUsageDate(date);
+    const fromDate = new Date(date);
+    fromDate.setDate(fromDate.getDate() - (period === 'week' ? 6 : 0));
+    const from = formatUsageDate(fromDate);
+
+    const totals = emptyTotals();
+    const daily = new Map<string, UsageTotals>();
+    const byContext = new Map<string, UsageTotals>();
+    const byKey = new Map<string, UsageTotals>();
+    const byModel = new Map<string, UsageTotals>();
+
+    for (const bucket of this.buckets.values()) {
+      if (bucket.date < from || bucket.date > to) {
+        continue;
+      }
+
+      this.accumulate(totals, bucket);
+      this.accumulate(this.getOrCreate(daily, bucket.date), bucket);
+      this.accumulate(this.getOrCreate(byContext, bucket.contextId), bucket);
+      this.accumulate(this.getOrCreate(byKey, bucket.keyPreview), bucket);
+      this.accumulate(this.getOrCreate(byModel, bucket.model), bucket);
+    }
+
+    const sortByTokens = <T extends UsageTotals>(items: T[]) => items.sort((a, b) => b.totalTokens - a.totalTokens);
+
+    return {
+      period,
+      from,
+      to,
+      totals: this.roundCost(totals),
+      daily: Array.from(daily.entries())
+        .map(([day, value]) => ({ date: day, ...this.roundCost(value) }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      byContext: sortByTokens(Array.from(byContext.entries()).map(([contextId, value]) => ({ contextId, ...this.roundCost(value) }))),
+      byKey: sortByTokens(Array.from(byKey.entries()).map(([keyPreview, value]) => ({ keyPreview, ...this.roundCost(value) }))),
+      byModel: sortByTokens(Array.from(byModel.entries()).map(([model, value]) => ({ model, ...this.roundCost(value) })))
+    };
+  }
+
+  /**
+   * 获取某天的用量合计，传入 groupId 时只统计该群（预算检查用）
+   */
+  getDailyTotals(groupId?: number | string, date: Date = new Date()): UsageTotals {
+    const day = formatUsageDate(date);
+    const totals = emptyTotals();
+
+    for (const bucket of this.buckets.values()) {
+      if (bucket.date !== day) continue;
+      if (groupId !== undefined && String(bucket.groupId) !== String(groupId)) continue;
+      this.accumulate(totals, bucket);
+    }
+
+    return totals;
+  }
+
+  // 按模型单价（每百万 token 美元）估算费用，思考 token 按输出计费，命中缓存的输入按缓存单价计
+  private estimateCost(record: TokenUsage & { model: string }): number {
+    const price = config.usage.pricing[record.model];
+    if (!price) {
+      return 0;
+    }
+    const cachedTokens = Math.min(record.cachedTokens ?? 0, record.promptTokens);
+    const inputCost = (record.promptTokens - cachedTokens) * price.input + cachedTokens * (price.cachedInput ?? price.input);
+    return (inputCost + (record.completionTokens + record.thinkingTokens) * price.output) / 1_000_000;
+  }
+
+  private addToBucket(record: UsageRecord): void {
+    const bucketKey = [record.date, record.contextId, record.keyPreview, record.model].join('|');
+    let bucket = this.buckets.get(bucketKey);
+    if (!bucket) {
+      bucket = {
+        date: record.date,
+        contextId: record.contextId,
+        groupId: record.groupId,
+        keyPreview: record.keyPreview,
+        model: record.model,
+        ...emptyTotals()
+      };
+      this.buckets.set(bucketKey, bucket);
+    }
+
+    bucket.calls++;
+    bucket.promptTokens += record.promptTokens;
+    bucket.completionTokens += record.completionTokens;
+    bucket.thinkingTokens += record.thinkingTokens;
+    bucket.totalTokens += record.totalTokens;
+    if (record.cachedTokens !== undefined) {
+      bucket.cachedTokens += record.cachedTokens;
+      if (record.cachedTokens > 0) {
+        bucket.cacheHits++;
+      } else {
+        bucket.cacheMisses++;
+      }
+    }
+    bucket.estimatedCost += this.estimateCost(record);
+  }
+
+  private accumulate(target: UsageTotals, source: UsageTotals): void {
+    target.calls += source.calls;
+    target.promptTokens += source.promptTokens;
+    target.completionTokens += source.completionTokens;
+    target.thinkingTokens += source.thinkingTokens;
+    target.totalTokens += source.totalTokens;
+    target.cachedTokens += source.cachedTokens;
+    target.cacheHits += source.cacheHits;
+    target.cacheMisses += source.cacheMisses;
+    target.estimatedCost += source.estimatedCost;
+  }
+
+  private getOrCreate(map: Map<string, UsageTotals>, key: string): UsageTotals {
+    let value = map.get(key);
+    if (!value) {
+      value = emptyTotals();
+      map.set(key, value);
+    }
+    return value;
+  }
+
+  private roundCost(totals: UsageTotals): UsageTotals {
+    return { ...totals, estimatedCost: Math.round(totals.estimatedCost * 10000) / 10000 };
+  }
+
+  private pruneOldBuckets(now: Date): void {
+    const cutoffDate = new Date(now);
+    cutoffDate.setDate(cutoffDate.getDate() - this.RETENTION_DAYS);
+    const cutoff = formatUsageDate(cutoffDate);
+
+    for (const [bucketKey, bucket] of this.buckets.entries()) {
+      if (bucket.date < cutoff) {
+        this.buckets.delete(bucketKey);
+      }
+    }
+  }
+
+  /**
+   * 等待尚未完成的写入
+   */
+  flush(): Promise<void> {
+    return this.writeChain;
+  }
+
+  private getFilePath(date: string): string {
+    return join(config.usage.ledgerDir, `usage-${date}.ndjson`);
+  }
+
+  private persist(record: UsageRecord): void {
+    const dir = config.usage.ledgerDir;
+    const filePath = this.getFilePath(record.date);
+
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await fs.promises.mkdir(dir, { recursive: true });
+        await fs.promises.appendFile(filePath, JSON.stringify(record) + '\n', 'utf8');
+      })
+      .catch(error => {
+        logger.warn('⚠️ 写入用量账本失败', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+  }
+
+  // 启动时读取保留期内的账本文件重建聚合数据
+  private loadFromDisk(): void {
+    const dir = config.usage.ledgerDir;
+    if (!fs.existsSync(dir)) {
+      return;
+    }
+
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - this.RETENTION_DAYS);
+    const cutoff = formatUsageDate(cutoffDate);
+    let loaded = 0;
+
+    try {
+      const files = fs.readdirSync(dir)
+        .filter(file => /^usage-\d{4}-\d{2}-\d{2}\.ndjson$/.test(file) && file.slice(6, 16) >= cutoff);
+
+      for (const file of files) {
+        const lines = fs.readFileSync(join(dir, file), 'utf8').split('\n');
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          try {
+            this.addToBucket(JSON.parse(line) as UsageRecord);
+            loaded++;
+          } catch {
+            // 跳过写入中断产生的半行
+          }
+        }
+      }
+
+      if (loaded > 0) {
+        logger.info(`📊 已从磁盘加载 ${loaded} 条用量记录`, { files: files.length });
+      }
+    } catch (error) {
+      logger.warn('⚠️ 读取用量账本失败', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
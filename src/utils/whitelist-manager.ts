@@ -1,4 +1,4 @@
-import { config } from './config';
+import { config, getAccountConfig } from './config';
 import { logger } from './logger';
 
 export class WhitelistManager {
@@ -29,8 +29,15 @@ export class WhitelistManager {
     }
   }
 
-  // 检查群组是否在白名单中
-  isGroupAllowed(groupId: number | string): boolean {
+  // 检查群组是否在白名单中（传入 selfId 时优先使用该账号的白名单）
+  isGroupAllowed(groupId: number | string, selfId?: number | string): boolean {
+    const accountWhitelist = getAccountConfig(selfId)?.groupWhitelist;
+    if (accountWhitelist) {
+      const allowed = accountWhitelist.includes(String(groupId));
+      logger.debug(`${allowed ? '✅' : '🚫'} 账号 ${selfId} 白名单检查: ${groupId}`);
+      return allowed;
+    }
+
     // 如果未启用白名单，则允许所有群组
     if (!config.groupWhitelist.enabled) {
       return true;
@@ -0,0 +1,82 @@
+import { GeminiContextCache } from '../../src/ai/gemini-context-cache';
+import { config } from '../../src/utils/config';
+
+describe('GeminiContextCache', () => {
+  const originalContextCache = { ...config.gemini.contextCache };
+  const prefix = { systemInstruction: '你是小助手', estimatedTokens: 4096 };
+  let genAI: any;
+
+  const createCache = () => {
+    (GeminiContextCache as any).instance = undefined;
+    return GeminiContextCache.getInstance();
+  };
+  const expiresIn = (ms: number) => new Date(Date.now() + ms).toISOString();
+
+  beforeEach(() => {
+    Object.assign(config.gemini.contextCache, { enabled: true, minTokens: 1024, ttlSeconds: 3600 });
+    genAI = {
+      caches: {
+        create: jest.fn().mockResolvedValue({ name: 'cachedContents/abc', expireTime: expiresIn(3600_000) }),
+        update: jest.fn().mockResolvedValue({ expireTime: expiresIn(3600_000) })
+      }
+    };
+  });
+
+  afterEach(() => {
+    Object.assign(config.gemini.contextCache, originalContextCache);
+    (GeminiContextCache as any).instance = undefined;
+  });
+
+  test('should create the cache once and reuse it for the same key and prefix', async () => {
+    const cache = createCache();
+
+    const names = await Promise.all([
+      cache.acquire(genAI, 'key-1', 'gemini-2.5-flash', prefix),
+      cache.acquire(genAI, 'key-1', 'gemini-2.5-flash', prefix)
+    ]);
+    await cache.acquire(genAI, 'key-1', 'gemini-2.5-flash', prefix);
+    await cache.acquire(genAI, 'key-2', 'gemini-2.5-flash', prefix);
+
+    expect(names).toEqual(['cachedContents/abc', 'cachedContents/abc']);
+    expect(genAI.caches.create).toHaveBeenCalledTimes(2);
+    expect(genAI.caches.update).not.toHaveBeenCalled();
+  });
+
+  test('should skip prefixes below the minimum size or when disabled', async () => {
+    const cache = createCache();
+
+    expect(await cache.acquire(genAI, 'key-1', 'gemini-2.5-flash', { ...prefix, estimatedTokens: 100 })).toBeUndefined();
+    config.gemini.contextCache.enabled = false;
+    expect(await cache.acquire(genAI, 'key-1', 'gemini-2.5-flash', prefix)).toBeUndefined();
+    expect(genAI.caches.create).not.toHaveBeenCalled();
+  });
+
+  test('should extend the ttl once less than half of it remains', async () => {
+    genAI.caches.create.mockResolvedValue({ name: 'cachedContents/abc', expireTime: expiresIn(1000_000) });
+    const cache = createCache();
+
+    await cache.acquire(genAI, 'key-1', 'gemini-2.5-flash', prefix);
+    await cache.acquire(genAI, 'key-1', 'gemini-2.5-flash', prefix);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(genAI.caches.update).toHaveBeenCalledTimes(1);
+    expect(genAI.caches.update).toHaveBeenCalledWith({ name: 'cachedContents/abc', config: { ttl: '3600s' } });
+    expect(Date.parse(cache.getStatus().entries[0].expireAt)).toBeGreaterThan(Date.now() + 3000_000);
+  });
+
+  test('should pause creation after a failure and recreate after invalidation', async () => {
+    const cache = createCache();
+    genAI.caches.create.mockRejectedValueOnce(new Error('content too short'));
+
+    expect(await cache.acquire(genAI, 'key-1', 'gemini-2.5-flash', prefix)).toBeUndefined();
+    expect(await cache.acquire(genAI, 'key-1', 'gemini-2.5-flash', prefix)).toBeUndefined();
+    expect(genAI.caches.create).toHaveBeenCalledTimes(1);
+
+    const other = { ...prefix, systemInstruction: '你是另一个助手' };
+    expect(await cache.acquire(genAI, 'key-1', 'gemini-2.5-flash', other)).toBe('cachedContents/abc');
+    cache.invalidate('cachedContents/abc');
+    expect(cache.getStatus().entries).toEqual([]);
+    expect(await cache.acquire(genAI, 'key-1', 'gemini-2.5-flash', other)).toBe('cachedContents/abc');
+    expect(genAI.caches.create).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,166 @@
+import { GoogleGenAI } from '@google/genai'
+import { GeminiClient } from '../../src/ai/gemini-client'
+import { GeminiContextCache } from '../../src/ai/gemini-context-cache'
+import { defaultPersona } from '../../src/config/persona'
+
+jest.mock('@google/genai', () => {
+  const actual = jest.requireActual('@google/genai')
+  return { ...actual, GoogleGenAI: jest.fn() }
+})
+
+const MockedGoogleGenAI = GoogleGenAI as unknown as jest.Mock
+
+// 构造只包含函数调用的模型响应
+const functionCallResponse = (...calls: Array<{ name: string; args: Record<string, unknown> }>) => ({
+  functionCalls: calls,
+  candidates: [{ content: { role: 'model', parts: calls.map(functionCall => ({ functionCall })) } }],
+  usageMetadata: { totalTokenCount: 10 }
+})
+
+describe('GeminiClient native function calling', () => {
+  let generateContent: jest.Mock
+  let client: GeminiClient
+  const toolContext = { userId: 1001, groupId: 2002, messageType: 'group' as const }
+
+  let caches: { create: jest.Mock; update: jest.Mock }
+
+  beforeEach(() => {
+    generateContent = jest.fn()
+    // 默认创建缓存失败，走直接发送系统指令的路径
+    caches = { create: jest.fn().mockRejectedValue(new Error('caches unavailable')), update: jest.fn() }
+    MockedGoogleGenAI.mockImplementation(() => ({ models: { generateContent }, caches }))
+    ;(GeminiContextCache as any).instance = undefined
+    client = new GeminiClient()
+  })
+
+  test('should send tool schemas as function declarations', async () => {
+    generateContent.mockResolvedValueOnce(functionCallResponse({ name: 'no_reply', args: { reason: '无需回复' } }))
+
+    await client.generateResponse('hi', undefined, toolContext)
+
+    const request = generateContent.mock.calls[0][0]
+    const declarations = request.config.tools[0].functionDeclarations
+    expect(declarations.map((declaration: any) => declaration.name)).toEqual(
+      expect.arrayContaining(['reply_message', 'no_reply', 'mention_user', 'quote_message'])
+    )
+    const replyDeclaration = declarations.find((declaration: any) => declaration.name === 'reply_message')
+    expect(replyDeclaration.parameters.properties.messages).toEqual(expect.objectContaining({
+      type: 'ARRAY',
+      items: expect.objectContaining({ type: 'STRING' })
+    }))
+  })
+
+  test('should execute tool calls and feed results back until a reply is chosen', async () => {
+    generateContent
+      .mockResolvedValueOnce(functionCallResponse({ name: 'mention_user', args: { user_id: '3003', reason: '点名' } }))
+      .mockResolvedValueOnce(functionCallResponse({ name: 'reply_message', args: { messages: ['你好'], thinking: '打招呼' } }))
+
+    const response = await client.generateResponse('hi', undefined, toolContext)
+
+    expect(generateContent).toHaveBeenCalledTimes(2)
+    const secondContents = generateContent.mock.calls[1][0].contents
+    expect(secondContents[2].parts[0].functionResponse).toEqual(expect.objectContaining({
+      name: 'mention_user',
+      response: { output: expect.objectContaining({ action: 'mention', userId: 3003 }) }
+    }))
+
+    expect(response.replies).toEqual(['你好'])
+    expect(response.skipReply).toBe(false)
+    expect(response.thinking).toBe('打招呼')
+    expect(response.tokensUsed).toBe(20)
+    expect(response.toolCalls?.map(call => call.name)).toEqual(['mention_user', 'reply_message'])
+  })
+
+  test('should skip replying when the model calls no_reply', async () => {
+    generateContent.mockResolvedValueOnce(functionCallResponse({ name: 'no_reply', args: { reason: '已经回复过' } }))
+
+    const response = await client.generateResponse('hi', undefined, toolContext)
+
+    expect(response.skipReply).toBe(true)
+    expect(response.replies).toBeUndefined()
+    expect(response.tasks).toEqual([{ type: 'thinking', content: '决定不回复：已经回复过' }])
+  })
+
+  test('should never post plain model text when no tool is called', async () => {
+    generateContent.mockResolvedValueOnce({ text: '{"messages": ["broken json"', functionCalls: undefined })
+
+    const response = await client.generateResponse('hi', undefined, toolContext)
+
+    expect(response.skipReply).toBe(true)
+    expect(response.content).toBe('')
+    expect(response.toolCalls).toBeUndefined()
+  })
+
+  test('should report failed tool calls back to the model', async () => {
+    generateContent
+      .mockResolvedValueOnce(functionCallResponse({ name: 'reply_message', args: { messages: [] } }))
+      .mockResolvedValueOnce(functionCallResponse({ name: 'reply_message', args: { messages: ['重试成功'] } }))
+
+    const response = await client.generateResponse('hi', undefined, toolContext)
+
+    const secondContents = generateContent.mock.calls[1][0].contents
+    expect(secondContents[2].parts[0].functionResponse.response).toEqual({
+      error: 'messages 数组不能为空'
+    })
+    expect(response.replies).toEqual(['重试成功'])
+  })
+
+  test('should attach batch images as inline data after the prompt', async () => {
+    generateContent.mockResolvedValueOnce(functionCallResponse({ name: 'reply_message', args: { messages: ['好可爱'] } }))
+
+    await client.generateResponse('看看这个', undefined, toolContext, {
+      images: [{ messageId: '42', mimeType: 'image/png', data: 'aGVsbG8=', hash: 'abc' }]
+    })
+
+    const parts = generateContent.mock.calls[0][0].contents[0].parts
+    expect(parts).toHaveLength(3)
+    expect(parts[1].text).toContain('#42')
+    expect(parts[2]).toEqual({ inlineData: { mimeType: 'image/png', data: 'aGVsbG8=' } })
+  })
+
+  test('should send the static prompt as systemInstruction and only the batch context as contents', async () => {
+    generateContent.mockResolvedValueOnce(functionCallResponse({ name: 'no_reply', args: { reason: '无需回复' } }))
+
+    await client.generateResponse('hi', '{"queueMessages":[]}', toolContext)
+
+    const request = generateContent.mock.calls[0][0]
+    expect(request.config.systemInstruction).toContain(defaultPersona.systemPrompt)
+    expect(request.config.tools).toBeDefined()
+    expect(request.contents[0].parts[0].text).toContain('{"queueMessages":[]}')
+    expect(request.contents[0].parts[0].text).not.toContain(defaultPersona.systemPrompt)
+  })
+
+  test('should reuse cached content instead of resending the system instruction and tools', async () => {
+    caches.create.mockResolvedValue({ name: 'cachedContents/abc', expireTime: new Date(Date.now() + 3600_000).toISOString() })
+    generateContent.mockResolvedValue({
+      ...functionCallResponse({ name: 'no_reply', args: { reason: '无需回复' } }),
+      usageMetadata: { promptTokenCount: 2000, cachedContentTokenCount: 1800, totalTokenCount: 2010 }
+    })
+
+    await client.generateResponse('hi', '{"queueMessages":[]}', toolContext)
+    const response = await client.generateResponse('hi', '{"queueMessages":[]}', toolContext)
+
+    expect(caches.create).toHaveBeenCalledTimes(1)
+    expect(caches.create.mock.calls[0][0].config).toEqual(expect.objectContaining({
+      systemInstruction: expect.stringContaining(defaultPersona.systemPrompt),
+      tools: expect.any(Array),
+      ttl: '3600s'
+    }))
+    expect(generateContent.mock.calls[1][0].config).toEqual({ cachedContent: 'cachedContents/abc' })
+    expect(response.usage?.cachedTokens).toBe(1800)
+  })
+
+  test('should resend without the cache when it no longer exists on the server', async () => {
+    caches.create.mockResolvedValue({ name: 'cachedContents/gone', expireTime: new Date(Date.now() + 3600_000).toISOString() })
+    generateContent
+      .mockRejectedValueOnce(Object.assign(new Error('CachedContent not found'), { status: 404 }))
+      .mockResolvedValueOnce(functionCallResponse({ name: 'no_reply', args: { reason: '无需回复' } }))
+
+    const response = await client.generateResponse('hi', undefined, toolContext)
+
+    expect(response.skipReply).toBe(true)
+    expect(generateContent.mock.calls[1][0].config.cachedContent).toBeUndefined()
+    expect(generateContent.mock.calls[1][0].config.systemInstruction).toContain(defaultPersona.systemPrompt)
+    expect(GeminiContextCache.getInstance().getStatus().entries).toEqual([])
+  })
+})
@@ -0,0 +1,132 @@
+import { LLMFallbackChain } from '../../src/ai/llm-fallback-chain'
+import { GenerateOptions, LLMProvider } from '../../src/ai/llm-provider'
+import { config } from '../../src/utils/config'
+
+// 构造只实现降级链所需行为的假客户端
+const createClient = (name: 'gemini' | 'openai', model: string) => ({
+  name,
+  model,
+  generateResponse: jest.fn(async () => ({ content: model, timestamp: new Date() })),
+  generateText: jest.fn(async () => `summary by ${model}`),
+  buildPrompt: jest.fn(() => model),
+  testConnection: jest.fn(async () => true),
+  getApiKeyStatus: jest.fn(),
+  resetApiKeyStatus: jest.fn(() => true),
+  forceKeySwitch: jest.fn(),
+  hasAvailableKey: jest.fn(() => true)
+})
+
+const quotaError = () => Object.assign(new Error('429 RESOURCE_EXHAUSTED'), { status: 429 })
+
+describe('LLMFallbackChain', () => {
+  const originalCooldown = config.ai.fallbackCooldownMs
+  let primary: ReturnType<typeof createClient>
+  let lite: ReturnType<typeof createClient>
+  let local: ReturnType<typeof createClient>
+  let chain: LLMFallbackChain
+
+  beforeEach(() => {
+    config.ai.fallbackCooldownMs = 60000
+    primary = createClient('gemini', 'gemini-2.5-flash')
+    lite = createClient('gemini', 'gemini-2.5-flash-lite')
+    local = createClient('openai', 'qwen2.5:7b')
+    chain = new LLMFallbackChain([primary, lite, local] as unknown as LLMProvider[])
+  })
+
+  afterEach(() => {
+    config.ai.fallbackCooldownMs = originalCooldown
+    jest.useRealTimers()
+  })
+
+  test('should use the primary tier while it has quota', async () => {
+    const response = await chain.generateResponse('hi')
+
+    expect(response.content).toBe('gemini-2.5-flash')
+    expect(lite.generateResponse).not.toHaveBeenCalled()
+    expect(chain.getStatus().switches).toEqual([])
+  })
+
+  test('should move to the next tier after a quota error and record the switch', async () => {
+    primary.generateResponse.mockRejectedValueOnce(quotaError())
+
+    const response = await chain.generateResponse('hi')
+
+    expect(response.content).toBe('gemini-2.5-flash-lite')
+    expect(chain.name).toBe('gemini')
+    expect(chain.model).toBe('gemini-2.5-flash-lite')
+
+    const status = chain.getStatus()
+    expect(status.activeTier).toEqual({ index: 1, provider: 'gemini', model: 'gemini-2.5-flash-lite' })
+    expect(status.tiers[0]).toEqual(expect.objectContaining({ available: false, lastError: '429 RESOURCE_EXHAUSTED' }))
+    expect(status.switches).toEqual([
+      expect.objectContaining({ from: 'gemini:gemini-2.5-flash', to: 'gemini:gemini-2.5-flash-lite', reason: 'fallback' })
+    ])
+  })
+
+  test('should fall back for plain text generation as well', async () => {
+    primary.generateText.mockRejectedValueOnce(quotaError())
+
+    const text = await chain.generateText('summarize', 'system')
+
+    expect(text).toBe('summary by gemini-2.5-flash-lite')
+    expect(lite.generateText).toHaveBeenCalledWith('summarize', 'system', undefined)
+    expect(chain.model).toBe('gemini-2.5-flash-lite')
+  })
+
+  test('should skip tiers whose key pool is fully blocked', async () => {
+    primary.hasAvailableKey.mockReturnValue(false)
+    lite.hasAvailableKey.mockReturnValue(false)
+
+    const response = await chain.generateResponse('hi')
+
+    expect(primary.generateResponse).not.toHaveBeenCalled()
+    expect(lite.generateResponse).not.toHaveBeenCalled()
+    expect(response.content).toBe('qwen2.5:7b')
+  })
+
+  test('should return to the primary tier once its cooldown expires', async () => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') })
+    primary.generateResponse.mockRejectedValueOnce(quotaError())
+    await chain.generateResponse('hi')
+
+    await chain.generateResponse('hi again')
+    expect(primary.generateResponse).toHaveBeenCalledTimes(1)
+
+    jest.setSystemTime(new Date('2025-01-01T00:01:01Z'))
+    const response = await chain.generateResponse('recovered?')
+
+    expect(response.content).toBe('gemini-2.5-flash')
+    expect(chain.getStatus().switches.map(record => record.reason)).toEqual(['fallback', 'recovery'])
+  })
+
+  test('should rethrow non-quota errors without falling back', async () => {
+    primary.generateResponse.mockRejectedValueOnce(new Error('invalid prompt'))
+
+    await expect(chain.generateResponse('hi')).rejects.toThrow('invalid prompt')
+    expect(lite.generateResponse).not.toHaveBeenCalled()
+  })
+
+  test('should not resend replies streamed early by a tier that then ran out of quota', async () => {
+    // 模拟客户端的流式提前发送：跳过 dispatchedReplies 中已发送的回复
+    const stream = (replies: string[], options: GenerateOptions) => replies.forEach((content, index) => {
+      if (!options.dispatchedReplies!.includes(content)) {
+        options.onReplyReady!({ content, index, toolCalls: [] })
+        options.dispatchedReplies!.push(content)
+      }
+    })
+    ;(primary.generateResponse as jest.Mock).mockImplementationOnce(async (_prompt, _context, _toolContext, options) => {
+      stream(['first'], options)
+      throw quotaError()
+    })
+    ;(lite.generateResponse as jest.Mock).mockImplementationOnce(async (_prompt, _context, _toolContext, options) => {
+      stream(['first', 'second'], options)
+      return { content: 'first\nsecond', timestamp: new Date(), dispatchedReplies: [...options.dispatchedReplies] }
+    })
+    const onReplyReady = jest.fn()
+
+    const response = await chain.generateResponse('hi', undefined, undefined, { onReplyReady })
+
+    expect(onReplyReady.mock.calls.map(([reply]) => reply.content)).toEqual(['first', 'second'])
+    expect(response.dispatchedReplies).toEqual(['first', 'second'])
+  })
+})
@@ -0,0 +1,144 @@
+import { ApiKeyManager } from '../../src/ai/api-key-manager'
+import { OpenAICompatibleClient } from '../../src/ai/openai-client'
+import { resetResponseValidationStats } from '../../src/ai/response-schema'
+import { config } from '../../src/utils/config'
+import { UsageLedger } from '../../src/utils/usage-ledger'
+
+// 构造只包含工具调用的 chat completions 响应
+const toolCallCompletion = (...calls: Array<{ name: string; args: Record<string, unknown> }>) => ({
+  choices: [{
+    message: {
+      role: 'assistant',
+      content: null,
+      tool_calls: calls.map((call, index) => ({
+        id: `call_${index}`,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.args) }
+      }))
+    },
+    finish_reason: 'tool_calls'
+  }],
+  usage: { total_tokens: 10 }
+})
+
+const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body,
+  text: async () => JSON.stringify(body)
+})
+
+describe('OpenAICompatibleClient', () => {
+  const originalFetch = global.fetch
+  const originalMode = config.ai.responseMode
+  const toolContext = { userId: 1001, groupId: 2002, messageType: 'group' as const }
+  let fetchMock: jest.Mock
+  let recordUsage: jest.SpyInstance
+  let client: OpenAICompatibleClient
+
+  beforeAll(() => {
+    config.openai.apiKeys = ['sk-test-key-0001']
+    config.openai.baseUrl = 'http://llm.local/v1/'
+  })
+
+  beforeEach(() => {
+    config.ai.responseMode = 'tools'
+    fetchMock = jest.fn()
+    global.fetch = fetchMock as unknown as typeof fetch
+    client = new OpenAICompatibleClient()
+    jest.spyOn(client as any, 'sleep').mockResolvedValue(undefined)
+    recordUsage = jest.spyOn(UsageLedger.getInstance(), 'record').mockImplementation(entry => entry as any)
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+    config.ai.responseMode = originalMode
+    jest.restoreAllMocks()
+  })
+
+  test('should send tools with bearer auth and loop until a reply is chosen', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(toolCallCompletion({ name: 'mention_user', args: { user_id: '3003', reason: '点名' } })))
+      .mockResolvedValueOnce(jsonResponse(toolCallCompletion({ name: 'reply_message', args: { messages: ['你好'], thinking: '打招呼' } })))
+
+    const response = await client.generateResponse('hi', undefined, toolContext)
+
+    const [url, init] = fetchMock.mock.calls[0]
+    const body = JSON.parse(init.body)
+    expect(url).toBe('http://llm.local/v1/chat/completions')
+    expect(init.headers.Authorization).toBe('Bearer sk-test-key-0001')
+    expect(body.tool_choice).toBe('required')
+    expect(body.tools.map((tool: any) => tool.function.name)).toEqual(
+      expect.arrayContaining(['reply_message', 'no_reply', 'mention_user', 'quote_message'])
+    )
+
+    expect(body.messages[0]).toEqual({ role: 'system', content: expect.stringContaining('机器人ID') })
+    expect(body.messages[1].role).toBe('user')
+
+    const secondMessages = JSON.parse(fetchMock.mock.calls[1][1].body).messages
+    expect(secondMessages[3]).toEqual(expect.objectContaining({ role: 'tool', tool_call_id: 'call_0' }))
+    expect(JSON.parse(secondMessages[3].content).output).toEqual(expect.objectContaining({ action: 'mention', userId: 3003 }))
+
+    expect(response.replies).toEqual(['你好'])
+    expect(response.tokensUsed).toBe(20)
+    expect(response.toolCalls?.map(call => call.name)).toEqual(['mention_user', 'reply_message'])
+  })
+
+  test('should report malformed tool arguments back to the model', async () => {
+    const malformed = toolCallCompletion({ name: 'reply_message', args: {} })
+    malformed.choices[0].message.tool_calls[0].function.arguments = '{"messages": ['
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(malformed))
+      .mockResolvedValueOnce(jsonResponse(toolCallCompletion({ name: 'no_reply', args: { reason: '算了' } })))
+
+    const response = await client.generateResponse('hi', undefined, toolContext)
+
+    const secondMessages = JSON.parse(fetchMock.mock.calls[1][1].body).messages
+    expect(JSON.parse(secondMessages[3].content)).toEqual({ error: '工具参数不是有效的JSON' })
+    expect(response.skipReply).toBe(true)
+  })
+
+  test('should request a JSON object in structured output mode', async () => {
+    config.ai.responseMode = 'json'
+    resetResponseValidationStats()
+    fetchMock.mockResolvedValueOnce(jsonResponse({
+      choices: [{
+        message: { role: 'assistant', content: JSON.stringify({ action: 'reply', thinking: 'x', messages: ['好的'] }) },
+        finish_reason: 'stop'
+      }],
+      usage: {
+        prompt_tokens: 120,
+        completion_tokens: 40,
+        total_tokens: 160,
+        completion_tokens_details: { reasoning_tokens: 25 }
+      }
+    }))
+
+    const response = await client.generateResponse('hi', undefined, toolContext)
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body)
+    expect(body.response_format).toEqual({ type: 'json_object' })
+    expect(body.tools).toBeUndefined()
+    expect(response.replies).toEqual(['好的'])
+    expect(response.usage).toEqual({ promptTokens: 120, completionTokens: 15, thinkingTokens: 25, totalTokens: 160 })
+    expect(recordUsage).toHaveBeenCalledWith(expect.objectContaining({
+      contextId: 'group_2002',
+      provider: 'openai',
+      keyPreview: 'sk-test-ke...',
+      totalTokens: 160
+    }))
+  })
+
+  test('should surface HTTP status so the key pool can track 429s', async () => {
+    const recordError = jest.spyOn(ApiKeyManager.getInstance('openai'), 'recordError')
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ error: { message: 'rate limited' } }, 429))
+      .mockResolvedValueOnce(jsonResponse(toolCallCompletion({ name: 'no_reply', args: { reason: '无需回复' } })))
+
+    const response = await client.generateResponse('hi', undefined, toolContext)
+
+    expect(recordError).toHaveBeenCalledWith('sk-test-key-0001', expect.objectContaining({ status: 429 }))
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(response.skipReply).toBe(true)
+  })
+})
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import os from 'os';
+import { join } from 'path';
+import { PromptTemplateManager, compileTemplate } from '../../src/ai/prompt-templates';
+import { defaultPersona } from '../../src/config/persona';
+import { config } from '../../src/utils/config';
+
+describe('PromptTemplateManager', () => {
+  const originalPrompts = { ...config.prompts };
+  const originalResponseMode = config.ai.responseMode;
+  let dir: string;
+
+  const writeTemplate = (name: string, content: string) => fs.writeFileSync(join(dir, `${name}.md`), content);
+  const createManager = () => {
+    (PromptTemplateManager as any).instance = undefined;
+    return PromptTemplateManager.getInstance();
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(join(os.tmpdir(), 'prompt-templates-'));
+    Object.assign(config.prompts, { dir, defaultTemplate: 'default', groups: {} });
+  });
+
+  afterEach(() => {
+    Object.assign(config.prompts, originalPrompts);
+    config.ai.responseMode = originalResponseMode;
+    (PromptTemplateManager as any).instance = undefined;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should render variables and conditional blocks without leaving blank tag lines', () => {
+    writeTemplate('default', [
+      '我是{{persona.name}}，特征：{{persona.traits}}',
+      '{{#if context}}',
+      '上下文：{{context}}',
+      '{{else}}',
+      '消息：{{message}}',
+      '{{/if}}',
+      '工具：{{tools}}',
+      ''
+    ].join('\n'));
+
+    const manager = createManager();
+    const render = (context: string) => manager.renderChatPrompt({ message: '在吗', context, tools: ['reply_message', 'no_reply'] });
+
+    expect(render('')).toBe(`我是${defaultPersona.name}，特征：${defaultPersona.traits.join('、')}\n消息：在吗\n工具：reply_message、no_reply`);
+    expect(render('{"queueMessages":[]}')).toContain('上下文：{"queueMessages":[]}\n工具：');
+  });
+
+  test('should reject unknown variables and unbalanced blocks', () => {
+    expect(() => compileTemplate('{{persona.nickname}}')).toThrow('人设中不存在字段');
+    expect(() => compileTemplate('{{secret}}')).toThrow('未知变量');
+    expect(() => compileTemplate('{{#if context}}上下文')).toThrow('缺少 {{/if}}');
+    expect(() => compileTemplate('{{/if}}')).toThrow('没有对应的 {{#if}}');
+    expect(() => compileTemplate('{{> partial}}')).toThrow('无法识别的标签');
+  });
+
+  test('should split the static system instruction from the per-request prompt', () => {
+    writeTemplate('default', '你是{{persona.name}}\n{{---}}\n最新消息：{{message}}\n');
+
+    const parts = createManager().renderChatPromptParts({ message: '在吗', tools: [] });
+
+    expect(parts).toEqual({ systemInstruction: `你是${defaultPersona.name}`, prompt: '最新消息：在吗' });
+    expect(() => compileTemplate('{{context}}\n{{---}}\n{{message}}')).toThrow('不能使用 {{context}}');
+    expect(() => compileTemplate('a\n{{---}}\nb\n{{---}}\nc')).toThrow('只能有一个');
+  });
+
+  test('should report invalid and missing templates at startup', () => {
+    writeTemplate('default', '{{message}}');
+    writeTemplate('broken', '{{#if context}}');
+    config.prompts.groups = { '2002': 'quiet' };
+
+    const problems = createManager().validate();
+
+    expect(problems).toEqual([
+      expect.stringContaining('提示词模板 broken 无效'),
+      expect.stringContaining('提示词模板 quiet 不存在')
+    ]);
+  });
+
+  test('should select templates per group and fall back to the default template', () => {
+    writeTemplate('default', '默认：{{message}}');
+    writeTemplate('quiet', '安静：{{message}}');
+    config.prompts.groups = { '2002': 'quiet', '3003': 'missing' };
+
+    const manager = createManager();
+
+    expect(manager.renderChatPrompt({ message: 'hi', groupId: 2002, tools: [] })).toBe('安静：hi');
+    expect(manager.renderChatPrompt({ message: 'hi', groupId: 3003, tools: [] })).toBe('默认：hi');
+    expect(manager.renderChatPrompt({ message: 'hi', tools: [] })).toBe('默认：hi');
+  });
+
+  test('should keep the last valid version when a reloaded template fails validation', () => {
+    writeTemplate('default', '第一版：{{message}}');
+    const manager = createManager();
+
+    writeTemplate('default', '第二版：{{message}}');
+    manager.load();
+    expect(manager.renderChatPrompt({ message: 'hi', tools: [] })).toBe('第二版：hi');
+
+    writeTemplate('default', '第三版：{{unknown}}');
+    manager.load();
+    expect(manager.renderChatPrompt({ message: 'hi', tools: [] })).toBe('第二版：hi');
+    expect(manager.getStatus()).toEqual([expect.objectContaining({ name: 'default', error: expect.stringContaining('未知变量') })]);
+  });
+
+  test('should render the bundled default template for both response modes', () => {
+    config.prompts.dir = originalPrompts.dir;
+    const manager = createManager();
+    expect(manager.validate()).toEqual([]);
+
+    config.ai.responseMode = 'json';
+    const jsonPrompt = manager.renderChatPromptParts({ message: '', context: '{"queueMessages":[]}', selfId: '10001', tools: [] });
+    expect(jsonPrompt.systemInstruction).toContain('机器人ID：10001');
+    expect(jsonPrompt.systemInstruction).toContain('你必须只返回一个JSON对象');
+    expect(jsonPrompt.prompt).toContain('{"queueMessages":[]}');
+    expect(jsonPrompt.prompt).not.toContain('{{');
+
+    config.ai.responseMode = 'tools';
+    const toolPrompt = manager.renderChatPrompt({ message: '在吗', tools: ['reply_message', 'no_reply'] });
+    expect(toolPrompt).toContain('最新待回复的消息：在吗');
+    expect(toolPrompt).toContain('可用工具：reply_message、no_reply');
+  });
+});
@@ -0,0 +1,197 @@
+import { GoogleGenAI } from '@google/genai'
+import { GeminiClient } from '../../src/ai/gemini-client'
+import {
+  getResponseValidationStats,
+  parseStructuredResponse,
+  resetResponseValidationStats,
+  validateStructuredResponse
+} from '../../src/ai/response-schema'
+import { config } from '../../src/utils/config'
+
+jest.mock('@google/genai', () => {
+  const actual = jest.requireActual('@google/genai')
+  return { ...actual, GoogleGenAI: jest.fn() }
+})
+
+const MockedGoogleGenAI = GoogleGenAI as unknown as jest.Mock
+
+describe('validateStructuredResponse', () => {
+  test('should accept a reply with messages and optional ids', () => {
+    const result = validateStructuredResponse({
+      action: 'reply',
+      thinking: '打招呼',
+      messages: [' 你好 '],
+      quote_message_id: 123
+    })
+
+    expect(result).toEqual({
+      valid: true,
+      value: expect.objectContaining({ action: 'reply', messages: ['你好'], quote_message_id: '123' })
+    })
+  })
+
+  test('should accept a no_reply with a reason', () => {
+    expect(validateStructuredResponse({ action: 'no_reply', thinking: '', reason: '已回复过' }).valid).toBe(true)
+  })
+
+  test('should reject replies without valid messages', () => {
+    const result = validateStructuredResponse({ action: 'reply', thinking: 'x', messages: ['a', 'b', 'c', 'd'] })
+
+    expect(result.valid).toBe(false)
+    expect(validateStructuredResponse({ action: 'reply', thinking: 'x', messages: [''] }).valid).toBe(false)
+  })
+
+  test('should reject unknown actions and non-JSON text', () => {
+    expect(validateStructuredResponse({ action: 'shout', thinking: 'x' }).valid).toBe(false)
+    expect(parseStructuredResponse('```json\n{"action": "reply"')).toEqual({
+      valid: false,
+      errors: [expect.stringContaining('JSON解析失败')]
+    })
+  })
+})
+
+describe('GeminiClient structured output mode', () => {
+  const originalMode = config.ai.responseMode
+  const toolContext = { userId: 1001, groupId: 2002, messageType: 'group' as const }
+  let generateContent: jest.Mock
+  let client: GeminiClient
+
+  beforeEach(() => {
+    config.ai.responseMode = 'json'
+    resetResponseValidationStats()
+    generateContent = jest.fn()
+    MockedGoogleGenAI.mockImplementation(() => ({ models: { generateContent } }))
+    client = new GeminiClient()
+  })
+
+  afterEach(() => {
+    config.ai.responseMode = originalMode
+  })
+
+  test('should request JSON with a response schema and map it to tool calls', async () => {
+    generateContent.mockResolvedValueOnce({
+      text: JSON.stringify({ action: 'reply', thinking: '点名', messages: ['在吗'], mention_user_id: '3003' })
+    })
+
+    const response = await client.generateResponse('hi', undefined, toolContext)
+
+    const request = generateContent.mock.calls[0][0]
+    expect(request.config.responseMimeType).toBe('application/json')
+    expect(request.config.responseSchema.required).toEqual(['action', 'thinking'])
+    expect(response.replies).toEqual(['在吗'])
+    expect(response.toolCalls?.map(call => call.name)).toEqual(['mention_user', 'reply_message'])
+    expect(getResponseValidationStats()).toEqual(expect.objectContaining({ validated: 1, failures: 0 }))
+  })
+
+  test('should not quote a message that is not in the current batch', async () => {
+    generateContent.mockResolvedValue({
+      text: JSON.stringify({ action: 'reply', thinking: '引用', messages: ['收到'], quote_message_id: '999' })
+    })
+    const batchContext = { ...toolContext, messageIds: ['55', '56'] }
+
+    const invented = await client.generateResponse('hi', undefined, batchContext)
+    const valid = await client.generateResponse('hi', undefined, { ...batchContext, messageIds: ['999'] })
+
+    const quoteOf = (response: typeof invented) => response.toolCalls?.find(call => call.name === 'quote_message')?.result
+    expect(quoteOf(invented)).toEqual({ error: expect.stringContaining('999') })
+    expect(invented.replies).toEqual(['收到'])
+    expect(quoteOf(valid)).toEqual(expect.objectContaining({ action: 'quote', messageId: 999 }))
+  })
+
+  test('should retry once with a repair prompt after invalid output', async () => {
+    generateContent
+      .mockResolvedValueOnce({ text: '{"action": "reply", "thinking": "x"}' })
+      .mockResolvedValueOnce({ text: '{"action": "reply", "thinking": "x", "messages": ["修好了"]}' })
+
+    const response = await client.generateResponse('hi', undefined, toolContext)
+
+    const repairContents = generateContent.mock.calls[1][0].contents
+    expect(repairContents[2].parts[0].text).toContain('messages')
+    expect(response.replies).toEqual(['修好了'])
+    expect(getResponseValidationStats()).toEqual(expect.objectContaining({ failures: 1, repaired: 1, fallbacks: 0 }))
+  })
+
+  test('should fall back to no_reply without ever sending the raw text', async () => {
+    generateContent.mockResolvedValue({ text: '[CQ:at,qq=all] 不是JSON' })
+
+    const response = await client.generateResponse('hi', undefined, toolContext)
+
+    expect(generateContent).toHaveBeenCalledTimes(2)
+    expect(response.skipReply).toBe(true)
+    expect(response.content).toBe('')
+    expect(response.replies).toBeUndefined()
+    expect(getResponseValidationStats()).toEqual(expect.objectContaining({ failures: 2, fallbacks: 1 }))
+  })
+
+  describe('with streaming enabled', () => {
+    const originalStreaming = config.ai.streaming
+    let generateContentStream: jest.Mock
+
+    // 把完整JSON拆成若干流式分片
+    const streamOf = (...chunks: string[]) => (async function* () {
+      for (const [index, text] of chunks.entries()) {
+        yield { text, usageMetadata: index === chunks.length - 1 ? { totalTokenCount: 30 } : undefined }
+      }
+    })()
+
+    beforeEach(() => {
+      config.ai.streaming = true
+      generateContentStream = jest.fn()
+      MockedGoogleGenAI.mockImplementation(() => ({ models: { generateContent, generateContentStream } }))
+      client = new GeminiClient()
+    })
+
+    afterEach(() => {
+      config.ai.streaming = originalStreaming
+    })
+
+    test('should dispatch each reply before the stream finishes', async () => {
+      const events: string[] = []
+      generateContentStream.mockImplementationOnce(async () => (async function* () {
+        const chunks = ['{"action": "reply", "thinking": "点名", "quote_message_id": "55", "messages": ["在', '吗", ', '"还有事"]}']
+        for (const [index, text] of chunks.entries()) {
+          events.push(`chunk:${index}`)
+          yield { text, usageMetadata: { totalTokenCount: 30 } }
+        }
+      })())
+      const onReplyReady = jest.fn(reply => { events.push(`reply:${reply.content}`) })
+
+      const response = await client.generateResponse('hi', undefined, toolContext, { onReplyReady })
+
+      expect(onReplyReady).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        content: '在吗',
+        index: 0,
+        toolCalls: [expect.objectContaining({ name: 'quote_message', result: expect.objectContaining({ messageId: 55 }) })]
+      }))
+      expect(onReplyReady).toHaveBeenNthCalledWith(2, expect.objectContaining({ content: '还有事', index: 1 }))
+      // 第一条回复在最后一个分片到达之前就已发出
+      expect(events).toEqual(['chunk:0', 'chunk:1', 'reply:在吗', 'chunk:2', 'reply:还有事'])
+      expect(response.replies).toEqual(['在吗', '还有事'])
+      expect(response.dispatchedReplies).toEqual(['在吗', '还有事'])
+      expect(response.tokensUsed).toBe(30)
+    })
+
+    test('should not dispatch again when a repair retry repeats a reply', async () => {
+      generateContentStream
+        .mockResolvedValueOnce(streamOf('{"action": "reply", "thinking": "x", "messages": ["你好", ""]}'))
+        .mockResolvedValueOnce(streamOf('{"action": "reply", "thinking": "x", "messages": ["你好", "再见"]}'))
+      const onReplyReady = jest.fn()
+
+      const response = await client.generateResponse('hi', undefined, toolContext, { onReplyReady })
+
+      expect(onReplyReady.mock.calls.map(call => call[0].content)).toEqual(['你好', '再见'])
+      expect(response.dispatchedReplies).toEqual(['你好', '再见'])
+    })
+
+    test('should not dispatch anything for no_reply', async () => {
+      generateContentStream.mockResolvedValueOnce(streamOf('{"action": "no_reply", "thinking": "x", ', '"reason": "无需回复"}'))
+      const onReplyReady = jest.fn()
+
+      const response = await client.generateResponse('hi', undefined, toolContext, { onReplyReady })
+
+      expect(onReplyReady).not.toHaveBeenCalled()
+      expect(response.skipReply).toBe(true)
+      expect(response.dispatchedReplies).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,21 @@
+import { StreamingReplyParser } from '../../src/ai/streaming-reply-parser'
+
+describe('StreamingReplyParser', () => {
+  test('should emit each message as soon as its string closes', () => {
+    const parser = new StreamingReplyParser()
+
+    expect(parser.push('{"action": "reply", "thinking": "想想 \\"messages\\" [1]", "quote_message_id": 42, "mess')).toEqual([])
+    expect(parser.getField('action')).toBe('reply')
+    expect(parser.push('ages": ["第一')).toEqual([])
+    expect(parser.getField('quote_message_id')).toBe('42')
+    expect(parser.push('条", "第二条\\n换行"')).toEqual(['第一条', '第二条\n换行'])
+    expect(parser.push(', "第三条"], "reason": "无"}')).toEqual(['第三条'])
+  })
+
+  test('should ignore strings outside the top-level messages array', () => {
+    const parser = new StreamingReplyParser()
+
+    expect(parser.push('{"action": "no_reply", "thinking": "x", "extra": {"messages": ["嵌套"]}, "reason": "已回复"}')).toEqual([])
+    expect(parser.getField('reason')).toBe('已回复')
+  })
+})
@@ -1,13 +1,17 @@
 import { BatchMessageProcessor } from '../../src/core/batch-message-processor'
 import { QueuedMessage } from '../../src/core/message-queue-types'
+import { buildOutgoingSegments } from '../../src/core/outgoing-message'
 import { ChatResponse } from '../../src/core/types'
+import { MemoryManager } from '../../src/utils/memory-manager'
 
 const generateResponseMock = jest.fn<Promise<ChatResponse>, [string, string | undefined]>()
+const buildPromptMock = jest.fn<string, [string, string | undefined, any]>()
 
 jest.mock('../../src/ai/gemini-client', () => {
   return {
     GeminiClient: jest.fn().mockImplementation(() => ({
-      generateResponse: (...args: [string, string | undefined]) => generateResponseMock(...args)
+      generateResponse: (...args: [string, string | undefined]) => generateResponseMock(...args),
+      buildPrompt: (...args: [string, string | undefined, any]) => buildPromptMock(...args)
     }))
   }
 })
@@ -64,4 +68,67 @@ describe('BatchMessageProcessor context generation', () => {
     expect(parsed.recentHistory.length).toBeLessThanOrEqual(50)
     expect(parsed.recentHistory[parsed.recentHistory.length - 1]?.content).toBe('message-59')
   })
+
+  test('should inject long-term memories of the batch users and group', async () => {
+    const memoryManager = MemoryManager.getInstance()
+    const userFact = memoryManager.remember({ scope: 'user', subjectId: 'mem-user', content: '是前端开发', source: 'admin' })
+    const groupFact = memoryManager.remember({ scope: 'group', subjectId: 'mem-group', content: '本群禁止刷屏', source: 'admin' })
+    const processor = new BatchMessageProcessor()
+
+    try {
+      await processor.processMessages([{ ...createMessage(1), userId: 'mem-user', groupId: 'mem-group', contextId: 'group_mem-group' }], '[]')
+
+      const [, context] = generateResponseMock.mock.calls[generateResponseMock.mock.calls.length - 1]
+      expect(JSON.parse(context as string).memories).toEqual([
+        { factId: groupFact.id, about: 'group', fact: '本群禁止刷屏' },
+        { factId: userFact.id, about: 'user', userId: 'mem-user', fact: '是前端开发' }
+      ])
+    } finally {
+      memoryManager.forget(userFact.id)
+      memoryManager.forget(groupFact.id)
+      await memoryManager.flush()
+    }
+  })
+
+  test('should preview the prompt of a context from its history without calling the model', async () => {
+    const processor = new BatchMessageProcessor()
+    buildPromptMock.mockReturnValue('rendered prompt')
+    await processor.processMessages([
+      { ...createMessage(1), groupId: '2002', userId: '1001' },
+      { ...createMessage(2), groupId: '2002', userId: '1002' }
+    ], '[]')
+    processor.recordDeliveredReply({ messageId: '3', groupId: '2002', segments: buildOutgoingSegments('ok') })
+    generateResponseMock.mockClear()
+
+    const preview = processor.previewPrompt('group_2002@10001')
+
+    expect(preview).toEqual(expect.objectContaining({ contextId: 'group_2002@10001', template: 'default', prompt: 'rendered prompt' }))
+    expect(generateResponseMock).not.toHaveBeenCalled()
+    const [message, context, toolContext] = buildPromptMock.mock.calls[0]
+    expect(message).toBe('ok')
+    expect(JSON.parse(context as string).recentHistory.map((entry: any) => entry.content)).toEqual(['message-1', 'message-2', 'ok'])
+    expect(toolContext).toEqual(expect.objectContaining({ groupId: 2002, selfId: '10001', messageType: 'group' }))
+
+    expect(() => processor.previewPrompt('unknown')).toThrow('无效的上下文ID')
+  })
+
+  test('should record only delivered replies in history, each with its QQ message ID and mention/quote segments', async () => {
+    const processor = new BatchMessageProcessor()
+    generateResponseMock.mockResolvedValueOnce({ content: 'first\nsecond', replies: ['first', 'second'], timestamp: new Date(), tokensUsed: 1 })
+
+    await processor.processMessages([{ ...createMessage(1), groupId: '2002', userId: '1001' }], '[]')
+    processor.recordDeliveredReply({ messageId: '9001', groupId: '2002', segments: buildOutgoingSegments('first', { atUser: 1001, replyTo: 1 }), selfId: '10001' })
+    processor.recordDeliveredReply({ messageId: '9002', groupId: '2002', segments: buildOutgoingSegments('second') })
+    await processor.processMessages([{ ...createMessage(2), groupId: '2002', userId: '1001' }], '[]')
+
+    const [, context] = generateResponseMock.mock.calls[1]
+    const history = JSON.parse(context as string).recentHistory
+    expect(history.map((entry: any) => [entry.messageId, entry.content])).toEqual([
+      ['1', 'message-1'],
+      ['9001', '[回复 #1] @1001 first'],
+      ['9002', 'second'],
+      ['2', 'message-2']
+    ])
+    expect(history[1]).toEqual(expect.objectContaining({ senderName: 'AI助手', role: 'assistant' }))
+  })
 })
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import os from 'os';
+import { join } from 'path';
+import { FileConversationStore, MemoryConversationStore } from '../../src/core/conversation-store';
+import { MessageHandler } from '../../src/core/message-handler';
+import { Message } from '../../src/core/types';
+import { config } from '../../src/utils/config';
+
+const createMessage = (id: string, overrides: Partial<Message> = {}): Message => ({
+  id,
+  userId: '1001',
+  groupId: '2002',
+  content: `message-${id}`,
+  timestamp: new Date(),
+  type: 'text',
+  ...overrides
+});
+
+describe('ConversationStore', () => {
+  const originalConversations = { ...config.conversations };
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(join(os.tmpdir(), 'conversation-store-'));
+    Object.assign(config.conversations, { retention: { maxMessages: 100, maxAgeDays: 0 }, overrides: {} });
+  });
+
+  afterEach(() => {
+    Object.assign(config.conversations, originalConversations);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should restore messages and recalls from disk after a restart', async () => {
+    const store = new FileConversationStore(dir);
+    const handler = new MessageHandler(store);
+    handler.addMessage(createMessage('1'));
+    handler.addMessage(createMessage('2', { content: 'recalled' }));
+    handler.addMessage(createMessage('3', { userId: '3003', groupId: undefined }));
+    handler.markMessageDeleted('2002', '2');
+    await handler.flush();
+
+    const restored = new MessageHandler(new FileConversationStore(dir));
+
+    const conversation = restored.getConversation('1001', '2002');
+    expect(conversation.map(message => message.id)).toEqual(['1', '2']);
+    expect(conversation[1].deleted).toBe(true);
+    expect(conversation[0].timestamp).toBeInstanceOf(Date);
+    expect(restored.getConversation('3003')).toHaveLength(1);
+    expect(restored.getConversationCount()).toBe(2);
+  });
+
+  test('should apply per-conversation retention by count and age', () => {
+    config.conversations.overrides = { '2002': { maxMessages: 3 }, '4004': { maxAgeDays: 1 } };
+    const store = new MemoryConversationStore();
+
+    for (let i = 0; i < 5; i++) {
+      store.add('2002', createMessage(`${i}`));
+      store.add('3003', createMessage(`${i}`, { groupId: '3003' }));
+    }
+    store.add('4004', createMessage('old', { groupId: '4004', timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000) }));
+    store.add('4004', createMessage('new', { groupId: '4004' }));
+
+    expect(store.getConversation('2002').map(message => message.id)).toEqual(['2', '3', '4']);
+    expect(store.getConversation('3003')).toHaveLength(5);
+    expect(store.getConversation('4004').map(message => message.id)).toEqual(['new']);
+  });
+
+  test('should compact the journal so the file stays bounded', async () => {
+    config.conversations.retention.maxMessages = 10;
+    const store = new FileConversationStore(dir);
+
+    for (let i = 0; i < 200; i++) {
+      store.add('2002', createMessage(`${i}`));
+    }
+    await store.flush();
+
+    const lines = fs.readFileSync(join(dir, '2002.ndjson'), 'utf8').trim().split('\n');
+    expect(lines.length).toBeLessThanOrEqual(50);
+    expect(new FileConversationStore(dir).getConversation('2002').map(message => message.id))
+      .toEqual(Array.from({ length: 10 }, (_, i) => `${190 + i}`));
+  });
+
+  test('should remove the conversation file when cleared', async () => {
+    const store = new FileConversationStore(dir);
+    store.add('2002', createMessage('1'));
+    store.add('5005', createMessage('2', { groupId: '5005' }));
+    await store.flush();
+
+    store.clear('2002');
+    await store.flush();
+    expect(fs.existsSync(join(dir, '2002.ndjson'))).toBe(false);
+    expect(new FileConversationStore(dir).getAllConversations().map(item => item.conversationKey)).toEqual(['5005']);
+
+    store.clear();
+    await store.flush();
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+});
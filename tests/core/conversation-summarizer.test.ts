@@ -0,0 +1,122 @@
+import fs from 'fs'
+import os from 'os'
+import { join } from 'path'
+import { BatchMessageProcessor } from '../../src/core/batch-message-processor'
+import { ConversationSummarizer } from '../../src/core/conversation-summarizer'
+import { QueuedMessage } from '../../src/core/message-queue-types'
+import { ChatResponse, Message } from '../../src/core/types'
+import { config } from '../../src/utils/config'
+
+const generateResponseMock = jest.fn<Promise<ChatResponse>, [string, string | undefined]>()
+const generateTextMock = jest.fn<Promise<string>, [string, string | undefined, any]>()
+
+jest.mock('../../src/ai/gemini-client', () => {
+  return {
+    GeminiClient: jest.fn().mockImplementation(() => ({
+      generateResponse: (...args: [string, string | undefined]) => generateResponseMock(...args),
+      generateText: (...args: [string, string | undefined, any]) => generateTextMock(...args)
+    }))
+  }
+})
+
+const createQueuedMessage = (index: number): QueuedMessage => ({
+  userId: '1001',
+  userName: '小明',
+  groupId: '2002',
+  content: `message-${index}`,
+  timestamp: Math.floor(Date.now() / 1000) + index,
+  messageId: `${index}`,
+  isHighPriority: false,
+  contextId: 'group_2002',
+  receivedAt: Date.now() + index
+})
+
+const createMessage = (index: number): Message => ({
+  id: `${index}`,
+  userId: '1001',
+  userName: '小明',
+  groupId: '2002',
+  content: `message-${index}`,
+  timestamp: new Date(Date.now() + index * 1000),
+  type: 'text'
+})
+
+describe('ConversationSummarizer', () => {
+  const originalSummary = { ...config.summary }
+  let dir: string
+
+  const createSummarizer = () => {
+    (ConversationSummarizer as any).instance = undefined
+    return ConversationSummarizer.getInstance()
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(join(os.tmpdir(), 'conversation-summarizer-'))
+    Object.assign(config.summary, { enabled: true, model: { provider: 'gemini', model: 'gemini-2.5-flash-lite' }, file: join(dir, 'summaries.json'), recentMessages: 5, triggerMessages: 3 })
+    ;(ConversationSummarizer as any).instance = undefined
+    generateResponseMock.mockReset().mockResolvedValue({ content: 'ok', replies: ['ok'], timestamp: new Date(), tokensUsed: 1 })
+    generateTextMock.mockReset()
+  })
+
+  afterEach(() => {
+    Object.assign(config.summary, originalSummary)
+    ;(ConversationSummarizer as any).instance = undefined
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('should schedule a summary once older history crosses the threshold and put it in the batch context', async () => {
+    generateTextMock.mockResolvedValue('小明在讨论周末爬山的计划')
+    const processor = new BatchMessageProcessor()
+    const scheduled: Array<Promise<void>> = []
+    processor.setSummaryScheduler(payload => {
+      const task = processor.summarizeConversation(payload).then(() => undefined)
+      scheduled.push(task)
+      return task
+    })
+
+    await processor.processMessages(Array.from({ length: 8 }, (_, i) => createQueuedMessage(i)), '[]')
+    await Promise.all(scheduled)
+
+    expect(generateTextMock).toHaveBeenCalledTimes(1)
+    const [prompt, , toolContext] = generateTextMock.mock.calls[0]
+    expect(prompt).toContain('小明(1001): message-2')
+    expect(prompt).not.toContain('message-3')
+    expect(toolContext).toEqual(expect.objectContaining({ contextId: 'group_2002', groupId: 2002 }))
+
+    await processor.processMessages([createQueuedMessage(8)], '[]')
+
+    const [, context] = generateResponseMock.mock.calls[1]
+    const parsed = JSON.parse(context as string)
+    expect(parsed.conversationSummary).toBe('小明在讨论周末爬山的计划')
+    expect(parsed.recentHistory.map((entry: any) => entry.content)).not.toContain('message-2')
+    expect(scheduled).toHaveLength(1)
+  })
+
+  test('should fold only new older messages into the summary, persist it and reset on demand', async () => {
+    generateTextMock.mockResolvedValueOnce('summary v1').mockResolvedValueOnce('summary v2')
+    const summarizer = createSummarizer()
+    const conversation = Array.from({ length: 10 }, (_, i) => createMessage(i))
+
+    expect(summarizer.claim('2002', conversation)).toBe(true)
+    expect(summarizer.claim('2002', conversation)).toBe(false)
+    await summarizer.summarize('2002', 'group_2002', conversation)
+
+    conversation.push(...Array.from({ length: 5 }, (_, i) => createMessage(10 + i)))
+    const updated = await summarizer.summarize('2002', 'group_2002', conversation)
+
+    const [secondPrompt] = generateTextMock.mock.calls[1]
+    expect(secondPrompt).toContain('summary v1')
+    expect(secondPrompt).toContain('message-5')
+    expect(secondPrompt).not.toContain('message-4')
+    expect(updated).toEqual(expect.objectContaining({ summary: 'summary v2', lastMessageId: '9', summarizedCount: 10 }))
+    await summarizer.flush()
+
+    const restored = createSummarizer()
+    expect(restored.get('2002')?.summary).toBe('summary v2')
+    expect(restored.claim('2002', conversation)).toBe(false)
+
+    expect(restored.reset('2002')).toBe(true)
+    expect(restored.get('2002')).toBeUndefined()
+    expect(restored.claim('2002', conversation)).toBe(true)
+  })
+})
@@ -20,8 +20,10 @@ jest.mock('../../src/core/message-handler', () => {
     addMessage: jest.fn(),
     getConversation: jest.fn(() => []),
     formatConversationContext: jest.fn(() => ''),
-    conversations: new Map(),
-    getAllConversations: jest.fn(() => [])
+    getAllConversations: jest.fn(() => []),
+    getConversationCount: jest.fn(() => 0),
+    clearConversation: jest.fn(),
+    flush: jest.fn(() => Promise.resolve())
   }));
 
   return { MessageHandler: MockMessageHandler };
@@ -0,0 +1,107 @@
+import { HistoryIndex, tokenize } from '../../src/core/history-index';
+import { GeminiEmbedder } from '../../src/ai/gemini-embedder';
+import { ToolManager } from '../../src/tools/tool-manager';
+import { Message } from '../../src/core/types';
+import { config } from '../../src/utils/config';
+
+jest.mock('../../src/ai/gemini-embedder');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const createMessage = (id: string, content: string, overrides: Partial<Message> = {}): Message => ({
+  id,
+  userId: '1001',
+  userName: '小明',
+  groupId: '2002',
+  content,
+  timestamp: new Date(),
+  type: 'text',
+  ...overrides
+});
+
+describe('HistoryIndex', () => {
+  const originalHistory = { ...config.history };
+  const originalRecentMessages = config.summary.recentMessages;
+  let index: HistoryIndex;
+
+  const seed = () => {
+    index.add('2002', createMessage('1', '下个月我要去成都吃火锅', { userId: '3003', userName: '阿强', timestamp: new Date(Date.now() - 20 * DAY) }));
+    index.add('2002', createMessage('2', '我也想去成都，一起呗', { timestamp: new Date(Date.now() - 5 * DAY) }));
+    index.add('2002', createMessage('3', '今天加班到十点', { timestamp: new Date(Date.now() - 4 * DAY) }));
+    index.add('2002', createMessage('4', '成都的事我撤回了', { timestamp: new Date(Date.now() - 3 * DAY) }));
+    index.add('4004', createMessage('5', '另一个群也在聊成都', { groupId: '4004' }));
+    // 最近的消息已在上下文中，不参与检索
+    index.add('2002', createMessage('6', '上周谁说过要去成都来着'));
+    index.markDeleted('2002', '4');
+  };
+
+  beforeEach(() => {
+    Object.assign(config.history, { enabled: true, retriever: 'bm25', maxResults: 5 });
+    config.summary.recentMessages = 1;
+    (HistoryIndex as any).instance = undefined;
+    index = HistoryIndex.getInstance();
+  });
+
+  afterEach(() => {
+    Object.assign(config.history, originalHistory);
+    config.summary.recentMessages = originalRecentMessages;
+    (HistoryIndex as any).instance = undefined;
+    jest.mocked(GeminiEmbedder).mockReset();
+  });
+
+  test('should tokenize Chinese into bigrams and keep latin words whole', () => {
+    expect(tokenize('去成都 Trip2025')).toEqual(['去成', '成都', 'trip2025']);
+  });
+
+  test('should rank older messages of the same conversation by keyword relevance', async () => {
+    seed();
+
+    const results = await index.search('2002', '谁说过要去成都');
+    const recent = await index.search('2002', '去成都', { withinDays: 7 });
+
+    expect(results.map(result => result.messageId)).toEqual(['1', '2']);
+    expect(results[0]).toEqual(expect.objectContaining({ senderId: '3003', senderName: '阿强', content: '下个月我要去成都吃火锅' }));
+    expect(recent.map(result => result.messageId)).toEqual(['2']);
+    expect(await index.search('2002', '完全无关的查询xyz')).toEqual([]);
+  });
+
+  test('should blend Gemini embeddings and fall back to keywords when embedding fails', async () => {
+    config.history.retriever = 'gemini';
+    // 查询与「加班」语义相近，但没有相同的字
+    const vectorOf = (text: string) => (/加班|工作/.test(text) ? [1, 0] : [0, 1]);
+    const embed = jest.fn(async (texts: string[], _taskType: string) => texts.map(vectorOf));
+    jest.mocked(GeminiEmbedder).mockImplementation(() => ({ embed } as unknown as GeminiEmbedder));
+    seed();
+
+    const semantic = await index.search('2002', '工作很忙');
+    expect(semantic[0].messageId).toBe('3');
+    expect(embed).toHaveBeenCalledWith(['下个月我要去成都吃火锅', '我也想去成都，一起呗', '今天加班到十点'], 'RETRIEVAL_DOCUMENT');
+
+    // 已缓存向量的消息不再重复计算
+    await index.search('2002', '工作很忙');
+    expect(embed.mock.calls.filter(([, taskType]) => taskType === 'RETRIEVAL_DOCUMENT')).toHaveLength(1);
+
+    embed.mockRejectedValue(new Error('network down'));
+    const fallback = await index.search('2002', '去成都');
+    expect(fallback.map(result => result.messageId)).toEqual(['2', '1']);
+  });
+
+  test('should let the model search only the current conversation through the tool', async () => {
+    seed();
+    const toolManager = new ToolManager();
+
+    const groupResult = await toolManager.executeTool(
+      { name: 'search_history', arguments: { query: '成都' } },
+      { userId: 1001, groupId: 4004, messageType: 'group' }
+    );
+    const emptyQuery = await toolManager.executeTool(
+      { name: 'search_history', arguments: { query: '  ' } },
+      { userId: 1001, groupId: 2002, messageType: 'group' }
+    );
+
+    expect(toolManager.getAvailableTools()).toContain('search_history');
+    // 4004 只有一条消息，且属于最近消息窗口
+    expect(groupResult).toEqual({ success: true, result: expect.objectContaining({ action: 'search_history', count: 0, results: [] }) });
+    expect(emptyQuery.success).toBe(false);
+  });
+});
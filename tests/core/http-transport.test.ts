@@ -0,0 +1,99 @@
+import { createHmac } from 'crypto'
+import Fastify from 'fastify'
+import { HttpTransport } from '../../src/core/http-transport'
+import { config } from '../../src/utils/config'
+
+describe('HttpTransport', () => {
+  const originalSecret = config.security.webhookSecret
+  const originalFetch = global.fetch
+  let transport: HttpTransport
+
+  beforeEach(() => {
+    transport = new HttpTransport()
+  })
+
+  afterEach(() => {
+    config.security.webhookSecret = originalSecret
+    global.fetch = originalFetch
+  })
+
+  test('should verify X-Signature before dispatching posted events', () => {
+    config.security.webhookSecret = 'topsecret'
+    const received: any[] = []
+    transport.onMessage(message => received.push(message))
+
+    const body = JSON.stringify({ post_type: 'message', message_type: 'group', message_id: 7, group_id: 1 })
+    const signature = `sha1=${createHmac('sha1', 'topsecret').update(body).digest('hex')}`
+
+    expect(transport.handleEventPost(body, 'sha1=deadbeef')).toEqual({ status: 401, error: 'Invalid signature' })
+    expect(transport.handleEventPost(body)).toEqual(expect.objectContaining({ status: 401 }))
+    expect(received).toHaveLength(0)
+
+    expect(transport.handleEventPost(body, signature)).toEqual({ status: 204 })
+    expect(received).toEqual([expect.objectContaining({ message_id: 7 })])
+    expect(transport.isConnected()).toBe(true)
+    expect(transport.getConnectionInfo().http.rejectedEvents).toBe(2)
+  })
+
+  test('should accept event posts through the registered Fastify route', async () => {
+    config.security.webhookSecret = 'topsecret'
+    const fastify = Fastify()
+    transport.registerRoutes(fastify)
+    const events: any[] = []
+    transport.onEvent(event => events.push(event))
+
+    const payload = JSON.stringify({ post_type: 'notice', notice_type: 'group_recall', message_id: 9 })
+    const response = await fastify.inject({
+      method: 'POST',
+      url: config.onebot.httpEventPath,
+      headers: {
+        'content-type': 'application/json',
+        'x-signature': `sha1=${createHmac('sha1', 'topsecret').update(payload).digest('hex')}`
+      },
+      payload
+    })
+
+    expect(response.statusCode).toBe(204)
+    expect(events).toEqual([expect.objectContaining({ notice_type: 'group_recall' })])
+    await fastify.close()
+  })
+
+  test('should call actions over HTTP with the access token', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      json: async () => ({ status: 'ok', retcode: 0, data: { message_id: 42 } })
+    })
+    global.fetch = fetchMock as any
+    const originalToken = config.onebot.httpAccessToken
+    config.onebot.httpAccessToken = 'token-1'
+
+    try {
+      const response = await transport.sendGroupMessage(123, 'hello')
+
+      expect(response).toEqual(expect.objectContaining({ retcode: 0, data: { message_id: 42 } }))
+      const [url, init] = fetchMock.mock.calls[0]
+      expect(url).toBe(`${config.onebot.httpApiUrl.replace(/\/+$/, '')}/send_group_msg`)
+      expect(init.headers.Authorization).toBe('Bearer token-1')
+      expect(JSON.parse(init.body)).toEqual({ group_id: 123, message: [{ type: 'text', data: { text: 'hello' } }] })
+    } finally {
+      config.onebot.httpAccessToken = originalToken
+    }
+  })
+
+  test('should map non-OneBot HTTP errors to a failed response', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 403,
+      statusText: 'Forbidden',
+      json: async () => { throw new Error('not json') }
+    }) as any
+
+    await expect(transport.callAction('get_status')).resolves.toEqual(expect.objectContaining({
+      status: 'failed',
+      retcode: 403,
+      message: 'Forbidden'
+    }))
+  })
+})
@@ -0,0 +1,146 @@
+import fs from 'fs';
+import os from 'os';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { join } from 'path';
+import { ImageResolver, detectImageMimeType } from '../../src/core/image-resolver';
+import { QueuedMessage } from '../../src/core/message-queue-types';
+import { config } from '../../src/utils/config';
+
+// 带合法 PNG 文件头的测试图片，padding 用于区分内容与控制大小
+const pngImage = (padding: number, fill = 0) => Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  Buffer.alloc(padding, fill)
+]);
+
+const imageMessage = (messageId: string, data: Record<string, string>): QueuedMessage => ({
+  userId: '1001',
+  groupId: '2002',
+  content: '[图片]',
+  timestamp: Math.floor(Date.now() / 1000),
+  messageId,
+  isHighPriority: false,
+  contextId: 'group_2002',
+  receivedAt: Date.now(),
+  segments: [{ type: 'image', text: '[图片]', data }]
+});
+
+describe('ImageResolver', () => {
+  const originalImages = { ...config.images };
+  const files: Record<string, Buffer> = {};
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: string[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req.url || '');
+      const body = files[req.url || ''];
+      if (!body) {
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'image/png' });
+      res.end(body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    Object.assign(config.images, { maxBytes: 1024, maxPerBatch: 3, cacheMaxBytes: 4096, fetchTimeoutMs: 2000 });
+  });
+
+  afterEach(() => {
+    Object.assign(config.images, originalImages);
+  });
+
+  test('should download images and attach them as base64 with the detected mime type', async () => {
+    files['/a.png'] = pngImage(16);
+    const resolver = new ImageResolver();
+
+    const images = await resolver.resolve([imageMessage('m1', { file: 'a.png', url: `${baseUrl}/a.png` })]);
+
+    expect(images).toEqual([expect.objectContaining({
+      messageId: 'm1',
+      mimeType: 'image/png',
+      data: files['/a.png'].toString('base64')
+    })]);
+    expect(images[0].hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  test('should serve repeated images from the cache', async () => {
+    files['/meme.png'] = pngImage(32);
+    const resolver = new ImageResolver();
+    const message = imageMessage('m1', { file: 'meme.png', url: `${baseUrl}/meme.png` });
+
+    await resolver.resolve([message]);
+    await resolver.resolve([{ ...message, messageId: 'm2' }]);
+
+    expect(requests).toEqual(['/meme.png']);
+    expect(resolver.getCacheStats().entries).toBe(1);
+  });
+
+  test('should skip images larger than the size limit', async () => {
+    files['/big.png'] = pngImage(2048);
+    const resolver = new ImageResolver();
+
+    const images = await resolver.resolve([imageMessage('m1', { url: `${baseUrl}/big.png` })]);
+
+    expect(images).toEqual([]);
+    expect(resolver.getCacheStats().entries).toBe(0);
+  });
+
+  test('should fall back to get_image when the url has expired', async () => {
+    const dir = fs.mkdtempSync(join(os.tmpdir(), 'image-resolver-'));
+    const localFile = join(dir, 'cached.png');
+    fs.writeFileSync(localFile, pngImage(8));
+    const callAction = jest.fn().mockResolvedValue({ status: 'ok', retcode: 0, data: { file: localFile, file_size: '16' } });
+    const resolver = new ImageResolver({ callAction });
+
+    try {
+      const images = await resolver.resolve([
+        { ...imageMessage('m1', { file: 'ABCDEF.png', url: `${baseUrl}/expired.png` }), selfId: '10001' }
+      ]);
+
+      expect(callAction).toHaveBeenCalledWith('get_image', { file: 'ABCDEF.png' }, { selfId: '10001' });
+      expect(images).toHaveLength(1);
+      expect(Buffer.from(images[0].data, 'base64').equals(pngImage(8))).toBe(true);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should keep only the newest images of a batch and bound the cache size', async () => {
+    const messages = [1, 2, 3, 4].map(index => {
+      files[`/${index}.png`] = pngImage(1000, index);
+      return imageMessage(`m${index}`, { url: `${baseUrl}/${index}.png` });
+    });
+    const resolver = new ImageResolver();
+
+    const images = await resolver.resolve(messages);
+
+    expect(images.map(image => image.messageId)).toEqual(['m2', 'm3', 'm4']);
+
+    config.images.cacheMaxBytes = 2100;
+    files['/5.png'] = pngImage(1000, 5);
+    await resolver.resolve([imageMessage('m5', { url: `${baseUrl}/5.png` })]);
+
+    expect(resolver.getCacheStats().entries).toBe(2);
+    expect(resolver.getCacheStats().bytes).toBeLessThanOrEqual(2100);
+  });
+
+  test('should reject content that is not a supported image', async () => {
+    files['/note.txt'] = Buffer.from('not an image');
+    const resolver = new ImageResolver();
+
+    expect(detectImageMimeType(files['/note.txt'])).toBeUndefined();
+    expect(await resolver.resolve([imageMessage('m1', { url: `${baseUrl}/note.txt` })])).toEqual([]);
+  });
+});
@@ -297,6 +297,21 @@ describe('MessageHandler', () => {
     });
   });
 
+  describe('markMessageDeleted', () => {
+    it('should hide recalled messages from the formatted context', () => {
+      messageHandler.addMessage(createMessage({ id: '1', groupId: 'group456', content: 'keep' }));
+      messageHandler.addMessage(createMessage({ id: '2', groupId: 'group456', content: 'recalled' }));
+
+      expect(messageHandler.markMessageDeleted('group456', '2')).toBe(true);
+      expect(messageHandler.markMessageDeleted('group456', '2')).toBe(false);
+      expect(messageHandler.markMessageDeleted('group456', 'missing')).toBe(false);
+
+      const conversation = messageHandler.getConversation('user123', 'group456');
+      const history = JSON.parse(messageHandler.formatConversationContext(conversation));
+      expect(history.map((entry: any) => entry.content)).toEqual(['keep']);
+    });
+  });
+
   describe('createMessage', () => {
     it('should create message with required fields', () => {
       const message = messageHandler.createMessage('user123', 'Hello world');
@@ -1,7 +1,9 @@
 import { MessageQueueManager } from '../../src/core/message-queue-manager';
 import { BatchMessageProcessor } from '../../src/core/batch-message-processor';
-import { QueuedMessage, IMessageProcessor, QueueEventListener } from '../../src/core/message-queue-types';
+import { QueuedMessage, IMessageProcessor, QueueEventListener, BudgetExhaustedEvent } from '../../src/core/message-queue-types';
 import { ChatResponse } from '../../src/core/types';
+import { BudgetManager, BudgetCheck } from '../../src/utils/budget-manager';
+import { config } from '../../src/utils/config';
 
 // Mock处理器
 class MockMessageProcessor implements IMessageProcessor {
@@ -33,6 +35,7 @@ class MockEventListener implements QueueEventListener {
   public queuedMessages: QueuedMessage[] = [];
   public flushedResults: any[] = [];
   public errors: any[] = [];
+  public budgetEvents: BudgetExhaustedEvent[] = [];
 
   onMessageQueued(message: QueuedMessage): void {
     this.queuedMessages.push(message);
@@ -45,6 +48,10 @@ class MockEventListener implements QueueEventListener {
   onQueueError(error: Error, context: string): void {
     this.errors.push({ error, context });
   }
+
+  onBudgetExhausted(event: BudgetExhaustedEvent): void {
+    this.budgetEvents.push(event);
+  }
 }
 
 describe('MessageQueueManager', () => {
@@ -92,6 +99,23 @@ describe('MessageQueueManager', () => {
       expect(mockListener.queuedMessages).toHaveLength(1);
     });
 
+    test('应该只在配置多个机器人账号时按账号区分队列', async () => {
+      const originalAccounts = config.accounts;
+      const groupMessage = (id: string, selfId: string) => ({ ...createTestMessage(id, '你好'), groupId: '123', selfId });
+
+      try {
+        await queueManager.addMessage(groupMessage('1', '10001'));
+        expect(mockListener.queuedMessages[0].contextId).toBe('group_123');
+
+        config.accounts = [{ selfId: '10001' }, { selfId: '10002' }];
+        await queueManager.addMessage(groupMessage('2', '10001'));
+        await queueManager.addMessage(groupMessage('3', '10002'));
+        expect(mockListener.queuedMessages.slice(1).map(message => message.contextId)).toEqual(['group_123@10001', 'group_123@10002']);
+      } finally {
+        config.accounts = originalAccounts;
+      }
+    });
+
     test('应该在静默时间后自动处理队列', async () => {
       const message = createTestMessage('1', 'Hello world');
       
@@ -278,6 +302,45 @@ describe('MessageQueueManager', () => {
     });
   });
 
+  describe('每日预算', () => {
+    const budgetCheck = (state: BudgetCheck['state'], silenceMultiplier = 1): BudgetCheck => ({
+      state,
+      ratio: state === 'exhausted' ? 1 : 0.9,
+      silenceMultiplier,
+      global: { scope: 'global', budget: { tokens: 0, requests: 0 }, usedTokens: 0, usedRequests: 0, ratio: 0, overridden: false }
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      (BudgetManager as any).instance = undefined;
+    });
+
+    test('预算用完时不调用模型，并且每天只提示一次', async () => {
+      jest.spyOn(BudgetManager.getInstance(), 'check').mockReturnValue(budgetCheck('exhausted'));
+
+      await queueManager.addMessage({ ...createTestMessage('1', '@TestBot 在吗'), groupId: '2002' });
+      await queueManager.addMessage({ ...createTestMessage('2', '@TestBot 还在吗'), groupId: '2002' });
+
+      expect(mockProcessor.processedMessages).toHaveLength(0);
+      expect(queueManager.getStatus().currentSize).toBe(0);
+      expect(mockListener.budgetEvents).toHaveLength(2);
+      expect(mockListener.budgetEvents[0]).toEqual(expect.objectContaining({ messageIds: ['1'], notice: expect.any(String) }));
+      expect(mockListener.budgetEvents[1].notice).toBeUndefined();
+    });
+
+    test('接近预算时应该延长静默时间', async () => {
+      jest.spyOn(BudgetManager.getInstance(), 'check').mockReturnValue(budgetCheck('throttled', 3));
+
+      await queueManager.addMessage({ ...createTestMessage('1', '随便聊聊'), groupId: '2002' });
+
+      await new Promise(resolve => setTimeout(resolve, 200));
+      expect(mockProcessor.processedMessages).toHaveLength(0);
+
+      await new Promise(resolve => setTimeout(resolve, 200));
+      expect(mockProcessor.processedMessages).toHaveLength(1);
+    });
+  });
+
   describe('并发处理', () => {
     test('应该防止队列重复处理', async () => {
       mockProcessor.shouldDelay = true; // 让处理变慢
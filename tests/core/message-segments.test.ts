@@ -0,0 +1,25 @@
+import { expandQuotes, parseQQSegments, renderSegments } from '../../src/core/message-segments'
+
+describe('message segments', () => {
+  test('should parse CQ strings and unescape text and values', () => {
+    const segments = parseQQSegments('a&#91;b&#93;[CQ:file,name=x&#44;y.txt,file=abc]')
+
+    expect(segments).toEqual([
+      { type: 'text', text: 'a[b]' },
+      expect.objectContaining({ type: 'file', text: '[文件 x,y.txt]' })
+    ])
+  })
+
+  test('should expand reply placeholders with a preview of the quoted message', () => {
+    const segments = parseQQSegments([
+      { type: 'reply', data: { id: '42' } },
+      { type: 'text', data: { text: '同意' } }
+    ] as any)
+    const content = renderSegments(segments)
+
+    expect(content).toBe('[回复 #42] 同意')
+    expect(expandQuotes(content, segments, id => id === '42' ? '今晚一起吃饭吗' : undefined))
+      .toBe('[回复 #42: 今晚一起吃饭吗] 同意')
+    expect(expandQuotes(content, segments, () => undefined)).toBe(content)
+  })
+})
@@ -83,14 +83,31 @@ describe('QQMessageAdapter', () => {
       expect(message.content).toBe('Hello world');
     });
 
-    it('should remove CQ codes from message', () => {
+    it('should render CQ codes as readable placeholders', () => {
       const qqMsg = createPrivateMessage({
-        message: 'Hello [CQ:face,id=123] world',
-        raw_message: 'Hello [CQ:face,id=123] world'
+        message: 'Hello [CQ:face,id=14] world [CQ:image,file=abc.jpg,url=https://example.com/a.jpg]',
+        raw_message: 'Hello [CQ:face,id=14] world [CQ:image,file=abc.jpg,url=https://example.com/a.jpg]'
       });
       const message = QQMessageAdapter.fromQQMessage(qqMsg);
 
-      expect(message.content).toBe('Hello world');
+      expect(message.content).toBe('Hello [表情:微笑] world [图片]');
+      expect(message.segments?.map(segment => segment.type)).toEqual(['text', 'face', 'text', 'image']);
+      expect(message.segments?.[3].data?.url).toBe('https://example.com/a.jpg');
+    });
+
+    it('should render rich message segments', () => {
+      const qqMsg = createGroupMessage({
+        message: [
+          { type: 'reply', data: { id: '12345' } },
+          { type: 'text', data: { text: '看看这个' } },
+          { type: 'file', data: { file: 'a.pdf', name: 'a.pdf' } },
+          { type: 'forward', data: { id: 'fw1' } }
+        ],
+        raw_message: '[CQ:reply,id=12345]看看这个'
+      });
+      const message = QQMessageAdapter.fromQQMessage(qqMsg);
+
+      expect(message.content).toBe('[回复 #12345] 看看这个[文件 a.pdf][合并转发]');
     });
 
     it('should convert @ mentions to readable format', () => {
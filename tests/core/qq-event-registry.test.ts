@@ -0,0 +1,31 @@
+import { QQEventRegistry } from '../../src/core/qq-event-registry'
+
+describe('QQEventRegistry', () => {
+  test('should build event keys from the most specific to the most general', () => {
+    expect(QQEventRegistry.getEventKeys({ post_type: 'notice', notice_type: 'notify', sub_type: 'poke' }))
+      .toEqual(['notice.notify.poke', 'notice.notify', 'notice'])
+    expect(QQEventRegistry.getEventKeys({ post_type: 'request', request_type: 'friend' }))
+      .toEqual(['request.friend', 'request'])
+  })
+
+  test('should dispatch to matching handlers and isolate handler failures', async () => {
+    const registry = new QQEventRegistry()
+    const poke = jest.fn()
+    const anyNotice = jest.fn()
+    const recall = jest.fn()
+
+    registry.register('notice.notify.poke', () => { throw new Error('boom') })
+    registry.register('notice.notify.poke', poke)
+    registry.register('notice', anyNotice)
+    registry.register('notice.group_recall', recall)
+
+    const event = { post_type: 'notice', notice_type: 'notify', sub_type: 'poke', user_id: 1, target_id: 2 }
+    const handled = await registry.dispatch(event)
+
+    expect(handled).toBe(3)
+    expect(poke).toHaveBeenCalledWith(event)
+    expect(anyNotice).toHaveBeenCalledWith(event)
+    expect(recall).not.toHaveBeenCalled()
+    await expect(registry.dispatch({ post_type: 'meta_event', meta_event_type: 'heartbeat' })).resolves.toBe(0)
+  })
+})
@@ -1,5 +1,7 @@
 import { EnhancedQQChatAgentServer } from '../../src/core/enhanced-qq-agent-server';
 import { QQMessage } from '../../src/core/qq-types';
+import { ActionOutcomeUnknownError } from '../../src/core/onebot-action';
+import { NonRetryableTaskError } from '../../src/core/task-queue';
 import { logger } from '../../src/utils/logger';
 
 // Mock dependencies
@@ -141,6 +143,80 @@ describe('队列回传机制测试', () => {
     });
   });
 
+  describe('流式提前发送', () => {
+    let enqueue: jest.Mock;
+
+    beforeEach(() => {
+      enqueue = jest.fn().mockResolvedValue(undefined);
+      (agentServer as any).taskQueue.enqueue = enqueue;
+      (agentServer as any).addToPendingReplies('stream-1', mockQQMessage);
+    });
+
+    test('应该立即发送已完成的回复，且只有第一条带引用', async () => {
+      const toolCalls = [{ name: 'quote_message', arguments: {}, result: { action: 'quote', messageId: 123 } }];
+
+      await (agentServer as any).handleEarlyReply({
+        contextId: 'group_789', messageIds: ['stream-1'], reply: { content: '第一条', index: 0, toolCalls }
+      });
+      // 首条发送后 pending 记录被移除，后续回复仍能找到发送目标
+      (agentServer as any).removePendingReply('stream-1');
+      await (agentServer as any).handleEarlyReply({
+        contextId: 'group_789', messageIds: ['stream-1'], reply: { content: '第二条', index: 1, toolCalls }
+      });
+
+      const payloads = enqueue.mock.calls.map(call => call[1]);
+      expect(payloads.map(payload => payload.message)).toEqual(['第一条', '第二条']);
+      expect(payloads[0].target.replyTo).toBe(123);
+      expect(payloads[1].target.replyTo).toBeUndefined();
+    });
+
+    test('队列完成时应该跳过已提前发送的回复', async () => {
+      await (agentServer as any).handleEarlyReply({
+        contextId: 'group_789', messageIds: ['stream-1'], reply: { content: '第一条', index: 0, toolCalls: [] }
+      });
+      (agentServer as any).removePendingReply('stream-1');
+
+      await (agentServer as any).handleQueueFlushResult({
+        processed: true,
+        contextId: 'group_789',
+        response: {
+          content: '第一条',
+          timestamp: new Date(),
+          replies: ['第一条', '第二条'],
+          tasks: [{ type: 'reply', content: ['第一条', '第二条'] }],
+          dispatchedReplies: ['第一条'],
+          messageIds: ['stream-1']
+        }
+      });
+
+      const sendPayloads = enqueue.mock.calls.filter(call => call[0] === 'send_message').map(call => call[1]);
+      expect(sendPayloads.map(payload => payload.message)).toEqual(['第一条', '第二条']);
+      expect((agentServer as any).earlyReplyTargets.size).toBe(0);
+    });
+  });
+
+  describe('消息发送任务', () => {
+    const runSendTask = () => {
+      const handler = (agentServer as any).taskQueue.handlers.get('send_message');
+      return handler({ id: 'task-1', attempts: 1, payload: { target: { groupId: 789 }, message: '你好' } });
+    };
+
+    test('发送超时或连接断开时不应重试，以免重复发送', async () => {
+      (agentServer as any).transport.sendGroupMessage = jest.fn()
+        .mockRejectedValue(new ActionOutcomeUnknownError('OneBot action send_group_msg timed out after 10000ms'));
+
+      await expect(runSendTask()).rejects.toBeInstanceOf(NonRetryableTaskError);
+    });
+
+    test('请求未发出时应该允许重试', async () => {
+      (agentServer as any).transport.sendGroupMessage = jest.fn()
+        .mockRejectedValue(new Error('No available WebSocket connection for action send_group_msg'));
+
+      const error = await runSendTask().catch((caught: Error) => caught);
+      expect(error).not.toBeInstanceOf(NonRetryableTaskError);
+    });
+  });
+
   describe('过期清理', () => {
     test('应该清理过期的 pendingReplies', () => {
       const messageId = 'test-msg-expired';
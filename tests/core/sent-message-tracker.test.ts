@@ -0,0 +1,42 @@
+import { SentMessageTracker } from '../../src/core/sent-message-tracker'
+
+describe('SentMessageTracker', () => {
+  const record = (tracker: SentMessageTracker, messageId: number, overrides = {}) => tracker.record({
+    messageId,
+    groupId: 100,
+    contextId: 'group_100',
+    pendingMessageIds: [`q-${messageId}`],
+    text: `reply-${messageId}`,
+    source: 'batch',
+    ...overrides
+  })
+
+  test('should return the most recent replies for a target, newest first', () => {
+    const tracker = new SentMessageTracker()
+    record(tracker, 1)
+    record(tracker, 2)
+    record(tracker, 3, { source: 'command' })
+    record(tracker, 4, { groupId: 200, contextId: 'group_200' })
+
+    const recent = tracker.getRecent({ groupId: 100 }, 2, { source: 'batch' })
+
+    expect(recent.map(item => item.messageId)).toEqual([2, 1])
+    expect(recent[0]).toEqual(expect.objectContaining({
+      contextId: 'group_100',
+      pendingMessageIds: ['q-2'],
+      text: 'reply-2'
+    }))
+  })
+
+  test('should skip recalled messages and keep a bounded history', () => {
+    const tracker = new SentMessageTracker(3)
+    for (let id = 1; id <= 5; id++) {
+      record(tracker, id)
+    }
+
+    expect(tracker.find(1)).toBeUndefined()
+    expect(tracker.markRecalled(5)).toBe(true)
+    expect(tracker.markRecalled(5)).toBe(false)
+    expect(tracker.getRecent({ groupId: 100 }, 10).map(item => item.messageId)).toEqual([4, 3])
+  })
+})
@@ -1,4 +1,4 @@
-import { TaskQueue } from '../../src/core/task-queue';
+import { TaskQueue, NonRetryableTaskError } from '../../src/core/task-queue';
 
 describe('TaskQueue', () => {
   afterEach(async () => {
@@ -57,4 +57,22 @@ describe('TaskQueue', () => {
 
     await queue.shutdown();
   });
+
+  it('fails immediately on non-retryable errors', async () => {
+    const queue = new TaskQueue({ retryDelayStrategy: () => 0 });
+    let attempts = 0;
+
+    queue.registerHandler('send_message', async () => {
+      attempts += 1;
+      throw new NonRetryableTaskError('retcode=1404');
+    });
+
+    await expect(queue.enqueue('send_message', {
+      target: { groupId: 1 },
+      message: 'no-retry'
+    }, { maxAttempts: 3 })).rejects.toThrow('retcode=1404');
+    expect(attempts).toBe(1);
+
+    await queue.shutdown();
+  });
 });
@@ -0,0 +1,318 @@
+import * as WebSocket from 'ws'
+import { EventEmitter } from 'events'
+import { createServer, Server as HTTPServer } from 'http'
+import { WSServer } from '../../src/core/ws-server'
+import { config } from '../../src/utils/config'
+import { buildOutgoingSegments } from '../../src/core/outgoing-message'
+import { ActionOutcomeUnknownError } from '../../src/core/onebot-action'
+
+describe('WSServer action responses', () => {
+  let server: WSServer
+  let sentPayloads: any[]
+
+  beforeEach(() => {
+    server = new WSServer()
+    sentPayloads = []
+    jest.spyOn(server, 'sendToAccount').mockImplementation((payload: any) => {
+      sentPayloads.push(payload)
+      return 'client-1'
+    })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test('should resolve callAction with the response matching its echo', async () => {
+    const first = server.callAction('get_status')
+    const second = server.callAction('get_login_info')
+
+    expect(sentPayloads).toHaveLength(2)
+    expect(sentPayloads[0].echo).not.toBe(sentPayloads[1].echo)
+
+    await (server as any).handleMessage({
+      status: 'ok',
+      retcode: 0,
+      data: { user_id: 10001 },
+      echo: sentPayloads[1].echo
+    }, 'client-1')
+    await (server as any).handleMessage({
+      status: 'ok',
+      retcode: 0,
+      data: { online: true },
+      echo: sentPayloads[0].echo
+    }, 'client-1')
+
+    await expect(first).resolves.toEqual(expect.objectContaining({ data: { online: true } }))
+    await expect(second).resolves.toEqual(expect.objectContaining({ data: { user_id: 10001 } }))
+    expect(server.getConnectionInfo().pendingActions).toBe(0)
+  })
+
+  test('should surface failed retcodes to the caller', async () => {
+    const pending = server.sendGroupMessage(123, 'hello')
+    const { echo, action, params } = sentPayloads[0]
+
+    expect(action).toBe('send_group_msg')
+    expect(params).toEqual({ group_id: 123, message: [{ type: 'text', data: { text: 'hello' } }] })
+
+    await (server as any).handleMessage({ status: 'failed', retcode: 1404, data: null, echo }, 'client-1')
+
+    await expect(pending).resolves.toEqual(expect.objectContaining({ status: 'failed', retcode: 1404 }))
+  })
+
+  test('should build a reply segment array when quoting a message', () => {
+    server.sendGroupMessage(123, buildOutgoingSegments('hello', { atUser: 456, replyTo: 789 }))
+    server.sendPrivateMessage(1, buildOutgoingSegments('hi', { replyTo: 790 }))
+
+    expect(sentPayloads[0].params.message).toEqual([
+      { type: 'reply', data: { id: '789' } },
+      { type: 'at', data: { qq: '456' } },
+      { type: 'text', data: { text: ' hello' } }
+    ])
+    expect(sentPayloads[1].params.message).toEqual([
+      { type: 'reply', data: { id: '790' } },
+      { type: 'text', data: { text: 'hi' } }
+    ])
+  })
+
+  test('should send CQ-looking model text as a literal text segment', () => {
+    server.sendGroupMessage(123, '[CQ:at,qq=all] 大家好 [CQ:image,file=http://x/a.png]')
+
+    expect(sentPayloads[0].params.message).toEqual([
+      { type: 'text', data: { text: '[CQ:at,qq=all] 大家好 [CQ:image,file=http://x/a.png]' } }
+    ])
+  })
+
+  test('should reject when no response arrives before the timeout', async () => {
+    jest.useFakeTimers()
+
+    const pending = server.callAction('send_private_msg', { user_id: 1, message: 'hi' }, { timeoutMs: 500 })
+    const assertion = expect(pending).rejects.toThrow('timed out')
+
+    jest.advanceTimersByTime(500)
+
+    await assertion
+    expect(server.getConnectionInfo().pendingActions).toBe(0)
+  })
+
+  test('should reject actions pending on a connection as soon as it closes', async () => {
+    const socket = new EventEmitter()
+    ;(server as any).setupClientHandlers(socket, { socket, id: 'client-1', direction: 'reverse', ip: '127.0.0.1', userAgent: 'test', connectedAt: new Date() })
+    ;(server.sendToAccount as jest.Mock).mockImplementation((payload: any) => {
+      sentPayloads.push(payload)
+      return sentPayloads.length === 1 ? 'client-1' : 'client-2'
+    })
+
+    const onClosed = server.sendGroupMessage(123, 'hello')
+    const onOther = server.callAction('get_status')
+    socket.emit('close', 1006, Buffer.from(''))
+
+    await expect(onClosed).rejects.toThrow(ActionOutcomeUnknownError)
+    expect(server.getConnectionInfo().pendingActions).toBe(1)
+
+    await (server as any).handleMessage({ status: 'ok', retcode: 0, data: null, echo: sentPayloads[1].echo }, 'client-2')
+    await expect(onOther).resolves.toEqual(expect.objectContaining({ status: 'ok' }))
+  })
+
+  test('should reject immediately when there is no connection', async () => {
+    (server.sendToAccount as jest.Mock).mockReturnValue(null)
+
+    await expect(server.callAction('get_status')).rejects.toThrow('No available WebSocket connection')
+    expect(server.getConnectionInfo().pendingActions).toBe(0)
+  })
+})
+
+describe('WSServer multi-account routing', () => {
+  let server: WSServer
+
+  const addClient = (id: string, selfId?: string) => {
+    const socket = { readyState: WebSocket.OPEN, send: jest.fn() }
+    ;(server as any).clients.set(id, {
+      socket,
+      id,
+      direction: 'reverse',
+      ip: '127.0.0.1',
+      userAgent: 'test',
+      connectedAt: new Date(),
+      selfId
+    })
+    return socket
+  }
+
+  beforeEach(() => {
+    server = new WSServer()
+  })
+
+  test('should bind a connection to the self_id of its first event', async () => {
+    addClient('client-1')
+    server.onEvent(() => undefined)
+
+    await (server as any).handleMessage({ post_type: 'meta_event', meta_event_type: 'lifecycle', self_id: 10001 }, 'client-1')
+
+    expect(server.getConnectionInfo().connections[0].selfId).toBe('10001')
+  })
+
+  test('should send actions only to the connection of the requested account', () => {
+    const first = addClient('client-1', '10001')
+    const second = addClient('client-2', '10002')
+
+    server.sendGroupMessage(123, 'hello', { selfId: 10002 })
+
+    expect(first.send).not.toHaveBeenCalled()
+    expect(second.send).toHaveBeenCalledTimes(1)
+    expect(JSON.parse(second.send.mock.calls[0][0]).action).toBe('send_group_msg')
+  })
+
+  test('should reject when the requested account is not connected', async () => {
+    addClient('client-1', '10001')
+
+    await expect(server.callAction('get_status', {}, { selfId: 10003 })).rejects.toThrow('self_id 10003')
+    expect(server.getConnectionInfo().pendingActions).toBe(0)
+  })
+
+  test('should list per-account connection state', () => {
+    addClient('client-1', '10001')
+    addClient('client-2', '10002')
+
+    expect(server.getConnectionInfo().accounts).toEqual([
+      expect.objectContaining({ selfId: '10001', connectionIds: ['client-1'], connected: true }),
+      expect.objectContaining({ selfId: '10002', connectionIds: ['client-2'], connected: true })
+    ])
+  })
+})
+
+describe('WSServer forward client mode', () => {
+  const originalWebsocketConfig = { ...config.websocket }
+  let napcat: WebSocket.Server
+  let server: WSServer
+
+  const waitFor = async (predicate: () => boolean, timeoutMs = 2000) => {
+    const deadline = Date.now() + timeoutMs
+    while (!predicate()) {
+      if (Date.now() > deadline) {
+        throw new Error('condition not met in time')
+      }
+      await new Promise(resolve => setTimeout(resolve, 10))
+    }
+  }
+
+  beforeEach(async () => {
+    napcat = new WebSocket.Server({ port: 0 })
+    await new Promise(resolve => napcat.once('listening', resolve))
+    const { port } = napcat.address() as { port: number }
+
+    Object.assign(config.websocket, {
+      mode: 'forward',
+      forwardUrl: `ws://127.0.0.1:${port}`,
+      accessToken: 'secret-token',
+      reconnectInitialMs: 20,
+      reconnectMaxMs: 100
+    })
+    server = new WSServer()
+  })
+
+  afterEach(async () => {
+    await server.close()
+    await new Promise(resolve => napcat.close(resolve))
+    Object.assign(config.websocket, originalWebsocketConfig)
+  })
+
+  test('should dial out with the access token and route events through handleMessage', async () => {
+    const authHeaders: Array<string | undefined> = []
+    const sockets: WebSocket.WebSocket[] = []
+    napcat.on('connection', (socket, req) => {
+      authHeaders.push(req.headers.authorization)
+      sockets.push(socket)
+    })
+    const received: any[] = []
+    server.onMessage(message => received.push(message))
+
+    server.start()
+    await waitFor(() => server.isConnected())
+
+    expect(authHeaders).toEqual(['Bearer secret-token'])
+    expect(server.getConnectionInfo()).toEqual(expect.objectContaining({
+      mode: 'forward',
+      connectedCount: 1,
+      connections: [expect.objectContaining({ direction: 'forward', readyStateText: 'OPEN' })]
+    }))
+
+    sockets[0].send(JSON.stringify({ post_type: 'message', message_type: 'private', message_id: 1, user_id: 2 }))
+    await waitFor(() => received.length === 1)
+    expect(received[0]).toEqual(expect.objectContaining({ message_id: 1 }))
+  })
+
+  test('should reconnect after the NapCat side drops the connection', async () => {
+    const sockets: WebSocket.WebSocket[] = []
+    napcat.on('connection', socket => sockets.push(socket))
+
+    server.start()
+    await waitFor(() => sockets.length === 1)
+    sockets[0].close()
+
+    await waitFor(() => sockets.length === 2 && server.isConnected())
+    expect(server.getConnectionInfo().forward).toEqual(expect.objectContaining({ reconnectAttempts: 0 }))
+  })
+})
+
+describe('WSServer handshake authentication', () => {
+  const originalWebsocketConfig = { ...config.websocket }
+  let httpServer: HTTPServer
+  let server: WSServer
+  let baseUrl: string
+
+  // 建立连接并返回握手结果：open 或被拒绝时的HTTP状态码
+  const connect = (url: string, headers?: Record<string, string>) =>
+    new Promise<number | 'open'>(resolve => {
+      const client = new WebSocket.WebSocket(url, { headers })
+      client.on('open', () => {
+        client.close()
+        resolve('open')
+      })
+      client.on('unexpected-response', (_req, res) => resolve(res.statusCode ?? 0))
+      client.on('error', () => undefined)
+    })
+
+  beforeEach(async () => {
+    Object.assign(config.websocket, { mode: 'reverse', serverAccessToken: 'napcat-token', ipAllowlist: [] })
+    httpServer = createServer()
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve))
+    const { port } = httpServer.address() as { port: number }
+    baseUrl = `ws://127.0.0.1:${port}${config.websocket.serverPath}`
+
+    server = new WSServer()
+    server.start(httpServer)
+  })
+
+  afterEach(async () => {
+    await server.close()
+    await new Promise(resolve => httpServer.close(resolve))
+    Object.assign(config.websocket, originalWebsocketConfig)
+  })
+
+  test('should accept a Bearer token or an access_token query parameter', async () => {
+    await expect(connect(baseUrl, { Authorization: 'Bearer napcat-token' })).resolves.toBe('open')
+    await expect(connect(`${baseUrl}?access_token=napcat-token`)).resolves.toBe('open')
+    // 代理添加的其他 Authorization 头不影响查询参数中的令牌
+    await expect(connect(`${baseUrl}?access_token=napcat-token`, { Authorization: 'Basic dXNlcjpwYXNz' })).resolves.toBe('open')
+    expect(server.getConnectionInfo().auth.rejectedConnections).toBe(0)
+  })
+
+  test('should reject and count connections with a missing or wrong token', async () => {
+    await expect(connect(baseUrl)).resolves.toBe(401)
+    await expect(connect(baseUrl, { Authorization: 'Bearer wrong' })).resolves.toBe(403)
+
+    expect(server.getConnectionInfo().auth).toEqual(expect.objectContaining({
+      tokenRequired: true,
+      rejectedConnections: 2
+    }))
+    expect(server.getConnectionInfo().connectedCount).toBe(0)
+  })
+
+  test('should reject addresses outside the IP allowlist', async () => {
+    config.websocket.ipAllowlist = ['10.0.0.1']
+
+    await expect(connect(baseUrl, { Authorization: 'Bearer napcat-token' })).resolves.toBe(403)
+    expect(server.getConnectionInfo().auth.rejectedConnections).toBe(1)
+  })
+})
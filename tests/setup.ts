@@ -1,5 +1,7 @@
 // Jest setup file for global test configuration
 import dotenv from 'dotenv';
+import os from 'os';
+import path from 'path';
 
 // Load test environment variables
 dotenv.config({ path: '.env.test' });
@@ -18,4 +20,16 @@ global.console = {
 process.env.NODE_ENV = 'test';
 process.env.LOG_LEVEL = 'error';
 process.env.GEMINI_API_KEY = 'test-api-key';
-process.env.GEMINI_MODEL = 'test-model';
\ No newline at end of file
+process.env.GEMINI_MODEL = 'test-model';
+
+// 用量账本写入临时目录，避免测试数据混入 logs/usage
+process.env.USAGE_LEDGER_DIR = path.join(os.tmpdir(), 'fingerbot-test-usage');
+
+// 会话历史只保存在内存中，避免测试写入 data/conversations
+process.env.CONVERSATION_STORAGE = 'memory';
+
+// 长期记忆写入临时文件
+process.env.MEMORY_FILE = path.join(os.tmpdir(), 'fingerbot-test-memories.json');
+
+// 会话摘要写入临时文件
+process.env.SUMMARY_FILE = path.join(os.tmpdir(), 'fingerbot-test-summaries.json');
@@ -1,4 +1,5 @@
 import { BotStateManager } from '../../src/utils/bot-state-manager';
+import { config } from '../../src/utils/config';
 
 describe('BotStateManager', () => {
   let stateManager: BotStateManager;
@@ -61,4 +62,33 @@ describe('BotStateManager', () => {
       expect(status.groupChatEnabled).toBe(false);
     });
   });
+  describe('image understanding switch', () => {
+    const originalImages = { ...config.images };
+
+    beforeEach(() => {
+      (BotStateManager as any).instance = undefined;
+      stateManager = BotStateManager.getInstance();
+      config.images.enabled = false;
+      config.images.groups = ['2002'];
+    });
+
+    afterEach(() => {
+      Object.assign(config.images, originalImages);
+      (BotStateManager as any).instance = undefined;
+    });
+
+    it('should enable only the configured groups by default', () => {
+      expect(stateManager.isImageUnderstandingEnabled('2002')).toBe(true);
+      expect(stateManager.isImageUnderstandingEnabled('3003')).toBe(false);
+      expect(stateManager.isImageUnderstandingEnabled()).toBe(false);
+    });
+
+    it('should let per-group overrides take precedence', () => {
+      stateManager.setImageUnderstanding('2002', false);
+      stateManager.setImageUnderstanding('3003', true);
+
+      expect(stateManager.isImageUnderstandingEnabled('2002')).toBe(false);
+      expect(stateManager.isImageUnderstandingEnabled('3003')).toBe(true);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { BudgetManager, GLOBAL_BUDGET_SCOPE } from '../../src/utils/budget-manager';
+import { UsageLedger, UsageTotals } from '../../src/utils/usage-ledger';
+import { config } from '../../src/utils/config';
+
+const totals = (totalTokens: number, calls: number): UsageTotals => ({
+  calls,
+  promptTokens: totalTokens,
+  completionTokens: 0,
+  thinkingTokens: 0,
+  totalTokens,
+  cachedTokens: 0,
+  cacheHits: 0,
+  cacheMisses: 0,
+  estimatedCost: 0
+});
+
+describe('BudgetManager', () => {
+  const originalBudget = { ...config.budget };
+  let budgetManager: BudgetManager;
+  let dailyTotals: jest.SpyInstance;
+
+  beforeEach(() => {
+    config.budget.global = { tokens: 0, requests: 0 };
+    config.budget.defaultGroup = { tokens: 10000, requests: 0 };
+    config.budget.groups = { '3003': { requests: 10 } };
+    config.budget.throttleRatio = 0.8;
+    config.budget.maxSilenceMultiplier = 4;
+    config.budget.exhaustedNotice = '今天说累了';
+
+    (BudgetManager as any).instance = undefined;
+    budgetManager = BudgetManager.getInstance();
+    dailyTotals = jest.spyOn(UsageLedger.getInstance(), 'getDailyTotals').mockReturnValue(totals(0, 0));
+  });
+
+  afterEach(() => {
+    Object.assign(config.budget, originalBudget);
+    jest.restoreAllMocks();
+    (BudgetManager as any).instance = undefined;
+  });
+
+  test('should merge per-group budgets over the default group budget', () => {
+    expect(budgetManager.getBudget('2002')).toEqual({ tokens: 10000, requests: 0 });
+    expect(budgetManager.getBudget('3003')).toEqual({ tokens: 10000, requests: 10 });
+    expect(budgetManager.getBudget(GLOBAL_BUDGET_SCOPE)).toEqual({ tokens: 0, requests: 0 });
+  });
+
+  test('should move from normal to throttled to exhausted as usage grows', () => {
+    dailyTotals.mockReturnValue(totals(5000, 3));
+    expect(budgetManager.check('2002')).toEqual(expect.objectContaining({ state: 'normal', silenceMultiplier: 1 }));
+
+    dailyTotals.mockReturnValue(totals(9000, 3));
+    const throttled = budgetManager.check('2002');
+    expect(throttled.state).toBe('throttled');
+    expect(throttled.silenceMultiplier).toBeCloseTo(2.5);
+
+    dailyTotals.mockReturnValue(totals(10000, 3));
+    expect(budgetManager.check('2002').state).toBe('exhausted');
+    expect(dailyTotals).toHaveBeenCalledWith('2002');
+  });
+
+  test('should use the request budget when it is the tighter limit', () => {
+    dailyTotals.mockReturnValue(totals(100, 10));
+
+    const check = budgetManager.check('3003');
+
+    expect(check.state).toBe('exhausted');
+    expect(check.group).toEqual(expect.objectContaining({ usedRequests: 10, ratio: 1 }));
+  });
+
+  test('should only apply the global budget to private chats', () => {
+    config.budget.global = { tokens: 0, requests: 5 };
+    dailyTotals.mockImplementation(groupId => groupId === undefined ? totals(0, 5) : totals(0, 0));
+
+    const check = budgetManager.check();
+
+    expect(check.group).toBeUndefined();
+    expect(check.state).toBe('exhausted');
+  });
+
+  test('should let runtime overrides replace and restore the configured budget', () => {
+    dailyTotals.mockReturnValue(totals(9000, 1));
+
+    budgetManager.setBudget('2002', 'tokens', 0);
+    expect(budgetManager.check('2002').state).toBe('normal');
+    expect(budgetManager.getAllUsage().groups.map(usage => usage.scope)).toEqual(expect.arrayContaining(['2002', '3003']));
+
+    expect(budgetManager.resetBudget('2002')).toBe(true);
+    expect(budgetManager.check('2002').state).toBe('throttled');
+    expect(budgetManager.resetBudget('2002')).toBe(false);
+  });
+
+  test('should claim the exhausted notice once per context per day', () => {
+    expect(budgetManager.claimExhaustedNotice('group_2002')).toBe(true);
+    expect(budgetManager.claimExhaustedNotice('group_2002')).toBe(false);
+    expect(budgetManager.claimExhaustedNotice('group_3003')).toBe(true);
+
+    config.budget.exhaustedNotice = '';
+    expect(budgetManager.claimExhaustedNotice('group_4004')).toBe(false);
+  });
+});
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import os from 'os';
+import { join } from 'path';
+import { MemoryManager } from '../../src/utils/memory-manager';
+import { ToolManager } from '../../src/tools/tool-manager';
+import { config } from '../../src/utils/config';
+
+describe('MemoryManager', () => {
+  const originalMemory = { ...config.memory };
+  let dir: string;
+
+  const createManager = () => {
+    (MemoryManager as any).instance = undefined;
+    return MemoryManager.getInstance();
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(join(os.tmpdir(), 'memory-manager-'));
+    Object.assign(config.memory, { enabled: true, file: join(dir, 'memories.json'), maxPerSubject: 20, maxInjected: 30 });
+  });
+
+  afterEach(async () => {
+    // 等待保存完成再删除目录，否则排队中的写入会重新创建目录
+    await MemoryManager.getInstance().flush();
+    Object.assign(config.memory, originalMemory);
+    (MemoryManager as any).instance = undefined;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should persist facts and reload them after a restart', async () => {
+    const manager = createManager();
+    const fact = manager.remember({ scope: 'user', subjectId: '1001', content: '是前端开发，养了只猫', groupId: '2002', source: 'model' });
+    const duplicate = manager.remember({ scope: 'user', subjectId: '1001', content: ' 是前端开发，养了只猫 ', source: 'model' });
+    manager.remember({ scope: 'group', subjectId: '2002', content: '群规：禁止刷屏', source: 'admin' });
+    manager.update(fact.id, '是前端开发，养了两只猫');
+    await manager.flush();
+
+    const restored = createManager();
+
+    expect(duplicate.id).toBe(fact.id);
+    expect(restored.list().map(memory => memory.content)).toEqual(['是前端开发，养了两只猫', '群规：禁止刷屏']);
+    expect(restored.get(fact.id)).toEqual(expect.objectContaining({ scope: 'user', subjectId: '1001', groupId: '2002' }));
+    expect(() => restored.remember({ scope: 'user', subjectId: '1001', content: '   ', source: 'admin' })).toThrow('记忆内容不能为空');
+  });
+
+  test('should return memories of the batch users and group only, within the limits', () => {
+    config.memory.maxPerSubject = 2;
+    const manager = createManager();
+
+    ['喜欢跑步', '住在杭州', '是学生'].forEach(content => manager.remember({ scope: 'user', subjectId: '1001', content, source: 'model' }));
+    manager.remember({ scope: 'user', subjectId: '3003', content: '不在本批次', source: 'model' });
+    manager.remember({ scope: 'group', subjectId: '2002', content: '本群是读书群', source: 'model' });
+    manager.remember({ scope: 'group', subjectId: '4004', content: '另一个群', source: 'model' });
+
+    const relevant = manager.getRelevant(['1001'], '2002').map(memory => memory.content);
+
+    expect(relevant).toHaveLength(3);
+    expect(relevant).toEqual(expect.arrayContaining(['住在杭州', '是学生', '本群是读书群']));
+  });
+
+  test('should let the model remember and forget facts through tools', async () => {
+    const manager = createManager();
+    const toolManager = new ToolManager();
+    const groupContext = { userId: 1001, groupId: 2002, messageType: 'group' as const };
+
+    const remembered = await toolManager.executeTool(
+      { name: 'remember_fact', arguments: { about: 'user', fact: '是前端开发' } },
+      groupContext
+    );
+    expect(remembered).toEqual({ success: true, result: expect.objectContaining({ action: 'remember', about: 'user', subjectId: '1001' }) });
+
+    const groupFact = await toolManager.executeTool(
+      { name: 'remember_fact', arguments: { about: 'group', fact: '每周五读书分享' } },
+      groupContext
+    );
+    const privateAttempt = await toolManager.executeTool(
+      { name: 'remember_fact', arguments: { about: 'group', fact: '私聊里没有群' } },
+      { userId: 1001, messageType: 'private' }
+    );
+    expect(privateAttempt.success).toBe(false);
+
+    const otherGroupForget = await toolManager.executeTool(
+      { name: 'forget_fact', arguments: { fact_id: groupFact.result.factId, reason: '测试' } },
+      { ...groupContext, groupId: 4004 }
+    );
+    expect(otherGroupForget.success).toBe(false);
+
+    const forgotten = await toolManager.executeTool(
+      { name: 'forget_fact', arguments: { fact_id: remembered.result.factId, reason: '换工作了' } },
+      groupContext
+    );
+    expect(forgotten.result).toEqual(expect.objectContaining({ action: 'forget', factId: remembered.result.factId }));
+    expect(manager.list().map(memory => memory.content)).toEqual(['每周五读书分享']);
+  });
+
+  test('should only let the tools touch user facts of the current batch senders', async () => {
+    const manager = createManager();
+    const toolManager = new ToolManager();
+    const otherUserFact = manager.remember({ scope: 'user', subjectId: '3003', content: '住在杭州', groupId: '4004', source: 'model' });
+    const batchContext = { userId: 1001, groupId: 2002, messageType: 'group' as const, senderIds: ['1001', '1002'] };
+
+    const rememberOther = await toolManager.executeTool(
+      { name: 'remember_fact', arguments: { about: 'user', user_id: '3003', fact: '搬去了上海' } },
+      batchContext
+    );
+    const forgetOther = await toolManager.executeTool(
+      { name: 'forget_fact', arguments: { fact_id: otherUserFact.id, reason: '搬家了' } },
+      batchContext
+    );
+    const rememberSender = await toolManager.executeTool(
+      { name: 'remember_fact', arguments: { about: 'user', user_id: '1002', fact: '喜欢爬山' } },
+      batchContext
+    );
+
+    expect(rememberOther.success).toBe(false);
+    expect(forgetOther.success).toBe(false);
+    expect(rememberSender.result).toEqual(expect.objectContaining({ subjectId: '1002' }));
+    expect(manager.list().map(memory => memory.content)).toEqual(['喜欢爬山', '住在杭州']);
+  });
+});
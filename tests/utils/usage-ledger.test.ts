@@ -0,0 +1,107 @@
+import fs from 'fs';
+import os from 'os';
+import { join } from 'path';
+import { UsageLedger, formatUsageDate } from '../../src/utils/usage-ledger';
+import { config } from '../../src/utils/config';
+
+const usage = (promptTokens: number, completionTokens: number, thinkingTokens = 0) => ({
+  promptTokens,
+  completionTokens,
+  thinkingTokens,
+  totalTokens: promptTokens + completionTokens + thinkingTokens
+});
+
+describe('UsageLedger', () => {
+  const originalUsage = { ...config.usage };
+  let dir: string;
+  let ledger: UsageLedger;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(join(os.tmpdir(), 'usage-ledger-'));
+    config.usage.ledgerDir = dir;
+    config.usage.pricing = { 'gemini-2.5-flash': { input: 0.3, output: 2.5 } };
+    (UsageLedger as any).instance = undefined;
+    ledger = UsageLedger.getInstance();
+  });
+
+  afterEach(async () => {
+    // 等待账本写完再删除目录，否则追加写入会重新创建目录
+    await ledger.flush();
+    config.usage.ledgerDir = originalUsage.ledgerDir;
+    config.usage.pricing = originalUsage.pricing;
+    (UsageLedger as any).instance = undefined;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should aggregate usage by context, key and model', () => {
+    ledger.record({ contextId: 'group_1', groupId: 1, provider: 'gemini', model: 'gemini-2.5-flash', keyPreview: 'AIza...aaaa', ...usage(1000, 200, 300) });
+    ledger.record({ contextId: 'group_1', groupId: 1, provider: 'gemini', model: 'gemini-2.5-flash', keyPreview: 'AIza...bbbb', ...usage(500, 100) });
+    ledger.record({ contextId: 'private_2', userId: 2, provider: 'openai', model: 'qwen2.5:7b', keyPreview: 'local', ...usage(100, 50), estimated: true });
+
+    const summary = ledger.getSummary('day');
+
+    expect(summary.totals).toEqual(expect.objectContaining({
+      calls: 3,
+      promptTokens: 1600,
+      completionTokens: 350,
+      thinkingTokens: 300,
+      totalTokens: 2250
+    }));
+    expect(summary.byContext.map(item => [item.contextId, item.calls])).toEqual([['group_1', 2], ['private_2', 1]]);
+    expect(summary.byKey.map(item => item.keyPreview)).toEqual(['AIza...aaaa', 'AIza...bbbb', 'local']);
+    expect(summary.byModel.map(item => [item.model, item.totalTokens])).toEqual([['gemini-2.5-flash', 2100], ['qwen2.5:7b', 150]]);
+  });
+
+  test('should estimate cost from pricing and bill thinking tokens as output', () => {
+    ledger.record({ contextId: 'group_1', provider: 'gemini', model: 'gemini-2.5-flash', keyPreview: 'k1', ...usage(1_000_000, 100_000, 100_000) });
+    ledger.record({ contextId: 'group_1', provider: 'openai', model: 'unpriced', keyPreview: 'k2', ...usage(1_000_000, 1_000_000) });
+
+    const summary = ledger.getSummary('day');
+
+    // 0.3 + 0.2 * 2.5，未配置单价的模型不计费
+    expect(summary.totals.estimatedCost).toBeCloseTo(0.8, 4);
+    expect(summary.byModel.find(item => item.model === 'unpriced')?.estimatedCost).toBe(0);
+  });
+
+  test('should count cache hits and bill cached input at the cached price', () => {
+    config.usage.pricing = { 'gemini-2.5-flash': { input: 0.3, output: 2.5, cachedInput: 0.075 } };
+    ledger.record({ contextId: 'group_1', provider: 'gemini', model: 'gemini-2.5-flash', keyPreview: 'k1', ...usage(1_000_000, 0), cachedTokens: 800_000 });
+    ledger.record({ contextId: 'group_1', provider: 'gemini', model: 'gemini-2.5-flash', keyPreview: 'k1', ...usage(100, 10), cachedTokens: 0 });
+    ledger.record({ contextId: 'group_1', provider: 'openai', model: 'qwen2.5:7b', keyPreview: 'local', ...usage(100, 10) });
+
+    const { totals } = ledger.getSummary('day');
+
+    expect(totals).toEqual(expect.objectContaining({ cacheHits: 1, cacheMisses: 1, cachedTokens: 800_000 }));
+    // 0.2 * 0.3 + 0.8 * 0.075，加上第二条的少量费用
+    expect(totals.estimatedCost).toBeCloseTo(0.12, 3);
+  });
+
+  test('should cover the last seven days in the week summary', () => {
+    ledger.record({ contextId: 'group_1', provider: 'gemini', model: 'gemini-2.5-flash', keyPreview: 'k1', ...usage(10, 10) });
+
+    const today = new Date();
+    const nextWeek = new Date(today);
+    nextWeek.setDate(nextWeek.getDate() + 7);
+
+    const week = ledger.getSummary('week', today);
+    expect(week.to).toBe(formatUsageDate(today));
+    expect(week.daily).toEqual([expect.objectContaining({ date: formatUsageDate(today), calls: 1 })]);
+
+    expect(ledger.getSummary('week', nextWeek).totals.calls).toBe(0);
+  });
+
+  test('should rebuild aggregates from the ledger files after restart', async () => {
+    ledger.record({ contextId: 'group_1', provider: 'gemini', model: 'gemini-2.5-flash', keyPreview: 'k1', ...usage(100, 20) });
+    ledger.record({ contextId: 'group_2', provider: 'gemini', model: 'gemini-2.5-flash', keyPreview: 'k1', ...usage(50, 10) });
+
+    await ledger.flush();
+    expect(fs.readFileSync(join(dir, `usage-${formatUsageDate(new Date())}.ndjson`), 'utf8').trim().split('\n')).toHaveLength(2);
+
+    (UsageLedger as any).instance = undefined;
+    const reloaded = UsageLedger.getInstance().getSummary('day');
+
+    expect(reloaded.totals.calls).toBe(2);
+    expect(reloaded.totals.totalTokens).toBe(180);
+    expect(reloaded.byContext.map(item => item.contextId)).toEqual(['group_1', 'group_2']);
+  });
+});
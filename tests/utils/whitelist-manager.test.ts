@@ -1,5 +1,5 @@
 import { WhitelistManager } from '../../src/utils/whitelist-manager';
-import { config } from '../../src/utils/config';
+import { config, getAccountConfig } from '../../src/utils/config';
 
 // Mock the config module
 jest.mock('../../src/utils/config', () => ({
@@ -8,7 +8,8 @@ jest.mock('../../src/utils/config', () => ({
       enabled: false,
       groups: []
     }
-  }
+  },
+  getAccountConfig: jest.fn()
 }));
 
 describe('WhitelistManager', () => {
@@ -291,4 +292,28 @@ describe('WhitelistManager', () => {
       expect(groups).toHaveLength(3);
     });
   });
-});
\ No newline at end of file
+
+  describe('per-account whitelist', () => {
+    beforeEach(() => {
+      (config.groupWhitelist as any) = { enabled: true, groups: ['123'] };
+      (getAccountConfig as jest.Mock).mockImplementation((selfId?: number | string) =>
+        String(selfId) === '10001' ? { selfId: '10001', groupWhitelist: ['456'] } : undefined
+      );
+      whitelistManager = WhitelistManager.getInstance();
+    });
+
+    afterEach(() => {
+      (getAccountConfig as jest.Mock).mockReset();
+    });
+
+    it('should use the account whitelist when the account configures one', () => {
+      expect(whitelistManager.isGroupAllowed('456', 10001)).toBe(true);
+      expect(whitelistManager.isGroupAllowed('123', 10001)).toBe(false);
+    });
+
+    it('should fall back to the global whitelist for other accounts', () => {
+      expect(whitelistManager.isGroupAllowed('123', 10002)).toBe(true);
+      expect(whitelistManager.isGroupAllowed('456', 10002)).toBe(false);
+    });
+  });
+});
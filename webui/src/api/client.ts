@@ -105,6 +105,16 @@ class ApiClient {
     }
   }
 
+  async resetConversationSummary(conversationKey: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/conversations/${encodeURIComponent(conversationKey)}/summary`, {
+      method: 'DELETE'
+    })
+    const data: ApiResponse = await response.json()
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to reset conversation summary')
+    }
+  }
+
   // API Key Management
   async getApiKeyStatus(): Promise<ApiKeyManagerStatus> {
     const response = await fetch(`${this.baseUrl}/api/apikeys/status`)
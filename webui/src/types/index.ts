@@ -40,11 +40,20 @@ export interface Message {
   timestamp: string
 }
 
+export interface ConversationSummary {
+  conversationKey: string
+  contextId: string
+  summary: string
+  summarizedCount: number
+  updatedAt: string
+}
+
 export interface Conversation {
   userId: string
   groupId?: string
   messages: Message[]
   lastActive: string
+  summary?: ConversationSummary | null
 }
 
 export interface WhitelistStatus {